@@ -1,85 +1,91 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Chat } from "@google/genai";
-import { parse } from 'marked';
-import { createChatSession, sendMessageStream, generateSpeech } from './services/geminiService';
-import { AppView, Message, HardwareStats, ChatMode, SearchSource } from './types';
+import { createChatSession, sendMessageStream, summarizeConversation, triageMessage, RetryNotice, SessionContext } from './services/geminiService';
+import { SpeechPlayer, SpeechStatus, IDLE_SPEECH } from './services/speechPlayer';
+import { toSpeechClips, createSpeechChunker } from './services/speechText';
+import {
+  listConversations, getConversation, saveConversation,
+  renameConversation, deleteConversation, deriveTitle
+} from './services/conversationStore';
+import {
+  createTelemetryProvider, loadTelemetryConfig, saveTelemetryConfig,
+  INITIAL_STATS, UNKNOWN_DEVICE
+} from './services/telemetry';
+import {
+  METRICS, HISTORY_WINDOWS, createMetricsHistory, recordSnapshot,
+  samplesInWindow, summarizeSamples, loadThresholds, saveThresholds
+} from './services/metrics';
+import {
+  evaluateAlertRules, loadAlertRules, saveAlertRules, loadAlertLog, appendAlertLog, clearAlertLog,
+  requestNotificationPermission, showBrowserNotification, buildAlertPrompt, AlertStates
+} from './services/alerts';
+import { buildTelemetryAttachment } from './services/diagnostics';
+import { forkAt, switchBranch } from './services/branches';
+import {
+  readAttachment, formatAttachmentSize, encodedSize, ACCEPTED_FILE_TYPES, MAX_ATTACHMENTS, MAX_TOTAL_BYTES
+} from './services/attachments';
+import {
+  toMarkdown, toJSON, toHTML, parseConversationImport, exportFileName, downloadFile
+} from './services/conversationExport';
+import { getModeRegistry, getMode, saveModeEntries, modeThinks } from './services/modeRegistry';
+import { AUTO_MODE, classifyMessage } from './services/modeRouter';
+import { ChatSession, ProviderConfig, getProviderConfig, saveProviderConfig, normalizeError, activeModelFor } from './services/providers';
+import { getSettings, saveSettings, TYPING_SPEEDS } from './services/settings';
+import { SearchDocument } from './services/search';
+import { loadPriceTable, savePriceTable, formatCost, formatDuration, estimateCost } from './services/usage';
+import { measureContext, planSummarization, isSummaryValid, summarizedIds, formatTokens } from './services/contextWindow';
+import { PLAYBOOKS, getPlaybook, startPlaybook, answerStep, buildStepPrompt, buildAnswerPrompt } from './services/playbooks';
+import { safeUrl } from './services/markdown';
+import {
+  AppView, Message, HardwareStats, ChatMode, SearchSource, ConversationSummary,
+  DeviceIdentity, TelemetryConfig, TelemetryStatus, MetricId, MetricThresholds,
+  AlertRule, AlertEvent, Attachment, Conversation, ModeId, ModeDefinition, AppSettings,
+  PlaybookProgress, TypingSpeed, ContextSummary, ModelPrice, TokenUsage, MessageUsage, RouteDecision
+} from './types';
 import { 
   IconMenu, IconEdit, IconArrowUp, IconArrowLeft, 
-  IconShare, IconMore, IconTerminal, IconActivity, IconUser,
-  IconSearch, IconX, IconVolume, IconVolumeX
+  IconShare, IconMore, IconUser,
+  IconSearch, IconX, IconVolume, IconVolumeX, IconStop, IconRefresh, IconPaperclip, IconMic, IconPin
 } from './components/Icons';
+import { Sidebar } from './components/Sidebar';
+import { MetricCard } from './components/MonitorWidgets';
+import { AlertRulesPanel, AlertLog, AlertToast } from './components/AlertPanel';
+import { TelemetryCard } from './components/TelemetryCard';
+import { AttachmentList } from './components/AttachmentList';
+import { ModeSettings } from './components/ModeSettings';
+import { ProviderSettings } from './components/ProviderSettings';
+import { GeneralSettings } from './components/GeneralSettings';
+import { StreamErrorNotice } from './components/StreamErrorNotice';
+import { SpeechControls } from './components/SpeechControls';
+import { VoiceInputButton } from './components/VoiceInputButton';
+import { VoiceConversation } from './components/VoiceConversation';
+import { MarkdownRenderer } from './components/MarkdownRenderer';
+import { SearchPanel } from './components/SearchPanel';
+import { PlaybookPanel } from './components/PlaybookPanel';
+import { ContextMeter, ContextSummaryNotice } from './components/ContextMeter';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ThoughtPanel } from './components/ThoughtPanel';
+import { ThinkingBudgetControl } from './components/ThinkingBudgetControl';
 
 // Minimalist White 'V' Logo (SVG Data URI)
 const LOGO_URL = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0id2hpdGUiPjxwYXRoIGQ9Ik0xMiAyMiBMMS41IDQgSDcuNSBMMTIgMTMuNSBMMTYuNSA0IEgyMi41IFogIi8+PC9zdmc+";
 
 // --- Helper Components ---
 
-const MarkdownRenderer = ({ content }: { content: string }) => {
-  const [html, setHtml] = useState('');
-  const containerRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    // Parse markdown to HTML
-    const parsed = parse(content) as string;
-    setHtml(parsed);
-  }, [content]);
-
-  // Inject Copy Buttons after HTML render
-  useEffect(() => {
-    if (!containerRef.current) return;
-    
-    const preBlocks = containerRef.current.querySelectorAll('pre');
-    preBlocks.forEach((pre) => {
-        // Prevent adding multiple buttons if rerendered
-        if (pre.querySelector('.copy-btn')) return;
-        
-        const btn = document.createElement('button');
-        btn.className = 'copy-btn absolute top-2 right-2 p-1.5 rounded-lg bg-zinc-700/50 text-zinc-400 hover:text-white hover:bg-zinc-600 transition-all focus:opacity-100 cursor-pointer';
-        
-        // Initial Copy Icon
-        btn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>`;
-        
-        btn.addEventListener('click', () => {
-            const code = pre.querySelector('code')?.innerText || '';
-            navigator.clipboard.writeText(code).then(() => {
-                // Success Check Icon
-                btn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#4ade80" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>`;
-                btn.classList.add('text-green-400');
-                
-                setTimeout(() => {
-                    // Revert to Copy Icon
-                    btn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>`;
-                    btn.classList.remove('text-green-400');
-                }, 2000);
-            });
-        });
-        
-        pre.appendChild(btn);
-    });
-  }, [html]);
-
-  return (
-    <div 
-      ref={containerRef}
-      className="markdown-body"
-      dangerouslySetInnerHTML={{ __html: html }}
-    />
-  );
-};
-
-const TypewriterMarkdown = ({ content, isStreaming }: { content: string, isStreaming: boolean }) => {
+const TypewriterMarkdown = ({ content, isStreaming, speed }: { content: string, isStreaming: boolean, speed: TypingSpeed }) => {
   const [displayedContent, setDisplayedContent] = useState(isStreaming ? "" : content);
   const contentRef = useRef(content);
+  // Fractional so slow speeds can reveal less than a character per frame
   const displayedContentLengthRef = useRef(isStreaming ? 0 : content.length);
   const [isTyping, setIsTyping] = useState(isStreaming);
+  const rate = TYPING_SPEEDS.find(s => s.id === speed)?.rate ?? 1;
 
   contentRef.current = content;
 
   useEffect(() => {
-    if (!isStreaming) {
+    if (!isStreaming || rate === 0) {
       setDisplayedContent(content);
       displayedContentLengthRef.current = content.length;
-      setIsTyping(false);
+      setIsTyping(isStreaming);
       return;
     }
 
@@ -104,14 +110,18 @@ const TypewriterMarkdown = ({ content, isStreaming }: { content: string, isStrea
         else if (backlog > 5) charsToAdd = 2;
         else charsToAdd = 1; // Trickle mode
         
-        displayedContentLengthRef.current += charsToAdd;
+        displayedContentLengthRef.current += charsToAdd * rate;
         
         // Clamp
         if (displayedContentLengthRef.current > targetLen) {
             displayedContentLengthRef.current = targetLen;
         }
 
-        setDisplayedContent(contentRef.current.slice(0, displayedContentLengthRef.current));
+        // Only re-render when a whole character has been revealed
+        const visibleLen = Math.floor(displayedContentLengthRef.current);
+        if (visibleLen > Math.floor(currentLen)) {
+            setDisplayedContent(contentRef.current.slice(0, visibleLen));
+        }
         animationFrameId = requestAnimationFrame(animate);
       } else {
         if (isStreaming) {
@@ -126,16 +136,51 @@ const TypewriterMarkdown = ({ content, isStreaming }: { content: string, isStrea
     animationFrameId = requestAnimationFrame(animate);
 
     return () => cancelAnimationFrame(animationFrameId);
-  }, [isStreaming]); 
+  }, [isStreaming, rate]); 
 
   return (
     <div className={isTyping ? "typing-cursor" : ""}>
-        <MarkdownRenderer content={displayedContent} />
+        {/* With typing off, text is shown exactly as it arrives */}
+        <MarkdownRenderer content={rate === 0 ? content : displayedContent} streaming={isTyping} />
     </div>
   );
 };
 
-const ThinkingIndicator = () => (
+// Which mode answered under Auto, and why
+const RouteBadge = ({ route }: { route: RouteDecision }) => {
+  const mode = getMode(route.mode);
+  return (
+    <div className="flex items-center gap-2 mb-2 text-xs text-zinc-500">
+      <span className="px-2 py-0.5 rounded-full border border-zinc-800 bg-zinc-900 font-mono text-[10px] uppercase tracking-wider text-zinc-400">
+        {route.source === 'manual' ? 'Manual' : `${AUTO_MODE.icon} Auto`} → {mode.icon} {mode.label}
+      </span>
+      <span className="truncate" title={route.source === 'triage' ? '由 FAST 模型判断' : undefined}>{route.reason}</span>
+    </div>
+  );
+};
+
+// Token counts and latency of one reply; details and estimated cost on hover
+const UsageLabel = ({ usage, prices }: { usage: MessageUsage; prices: ModelPrice[] }) => {
+  const { tokens } = usage;
+  const cost = tokens ? estimateCost(tokens, usage.model, prices) : null;
+  return (
+    <span
+      className="text-[10px] font-mono text-zinc-600 opacity-0 group-hover:opacity-100 transition-opacity"
+      title={[
+        usage.model,
+        tokens ? `输入 ${tokens.promptTokens} · 输出 ${tokens.outputTokens} · 思考 ${tokens.thinkingTokens} tokens` : '未报告 token 用量',
+        usage.firstTokenMs !== undefined ? `首字 ${formatDuration(usage.firstTokenMs)}` : '',
+        `总耗时 ${formatDuration(usage.totalMs)}`,
+        cost !== null ? `估算费用 ${formatCost(cost)}` : '',
+      ].filter(Boolean).join('\n')}
+    >
+      {tokens && `${formatTokens(tokens.promptTokens)} → ${formatTokens(tokens.outputTokens + tokens.thinkingTokens)} · `}
+      {formatDuration(usage.totalMs)}
+    </span>
+  );
+};
+
+const ThinkingIndicator = ({ label = 'THINKING' }: { label?: string }) => (
   <div className="flex items-center gap-2 p-2 px-3">
     <div className="relative flex items-center gap-1">
        <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-[bounce_1s_infinite_-0.3s]"></div>
@@ -143,32 +188,28 @@ const ThinkingIndicator = () => (
        <div className="w-1.5 h-1.5 bg-pink-400 rounded-full animate-[bounce_1s_infinite]"></div>
        <div className="absolute inset-0 blur-md bg-indigo-500/30 animate-pulse"></div>
     </div>
-    <span className="text-xs text-zinc-500 font-mono animate-pulse tracking-widest">THINKING</span>
+    <span className="text-xs text-zinc-500 font-mono animate-pulse tracking-widest">{label}</span>
   </div>
 );
 
-const ProgressBar = ({ value, label, subLabel, detail }: { value: number; label: string; subLabel: string; detail?: string }) => (
-  <div className="bg-zinc-900 rounded-2xl p-5 border border-zinc-800 mb-4">
-    <div className="flex justify-between items-end mb-2">
-      <span className="text-white font-medium text-lg">{label}</span>
-      <span className="text-white font-bold text-lg">{value}%</span>
-    </div>
-    <div className="w-full bg-zinc-800 h-1.5 rounded-full mb-3">
-      <div 
-        className="bg-white h-1.5 rounded-full transition-all duration-500 ease-out" 
-        style={{ width: `${value}%` }}
-      ></div>
-    </div>
-    <div className="flex justify-between items-center text-xs text-zinc-500 uppercase font-mono tracking-wide">
-      <span>{subLabel}</span>
-      <span>{detail}</span>
-    </div>
-  </div>
+const TELEMETRY_STATUS_STYLE: Record<TelemetryStatus, { label: string; className: string }> = {
+  online: { label: 'ONLINE', className: 'text-green-400 border-green-500/30 bg-green-500/10' },
+  connecting: { label: 'CONNECTING', className: 'text-zinc-400 border-zinc-700 bg-zinc-800/50' },
+  stale: { label: 'STALE', className: 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10' },
+  disconnected: { label: 'DISCONNECTED', className: 'text-red-400 border-red-500/30 bg-red-500/10' },
+};
+
+const TelemetryBadge = ({ status }: { status: TelemetryStatus }) => (
+  <span className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-[10px] font-mono tracking-widest ${TELEMETRY_STATUS_STYLE[status].className}`}>
+    <span className={`w-1.5 h-1.5 rounded-full bg-current ${status === 'online' ? 'animate-pulse' : ''}`}></span>
+    {TELEMETRY_STATUS_STYLE[status].label}
+  </span>
 );
 
-const Chip = ({ text, onClick }: { text: string; onClick: () => void }) => (
+const Chip: React.FC<{ text: string; title?: string; onClick: () => void }> = ({ text, title, onClick }) => (
   <button 
     onClick={onClick}
+    title={title}
     className="border border-zinc-700 bg-zinc-900/50 text-zinc-300 px-5 py-2.5 rounded-full text-sm font-medium hover:bg-zinc-800 transition-colors whitespace-nowrap"
   >
     {text}
@@ -189,52 +230,143 @@ const Toast = ({ message, show }: { message: string, show: boolean }) => (
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.HOME);
   const [input, setInput] = useState('');
-  const [chatMode, setChatMode] = useState<ChatMode>(ChatMode.FAST);
-  const [autoRead, setAutoRead] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [chatMode, setChatMode] = useState<ModeId>(() => getMode(getSettings().defaultMode).id);
+  // Auto picks chatMode per message; chatMode then holds the last pick
+  const [autoRoute, setAutoRoute] = useState(() => getSettings().defaultMode === ChatMode.AUTO);
+  const [isRouting, setIsRouting] = useState(false);
+  const [modeRegistry, setModeRegistry] = useState(getModeRegistry);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(getProviderConfig);
+  const [autoRead, setAutoRead] = useState(() => getSettings().autoRead);
+  const [voiceMode, setVoiceMode] = useState(false);
+  const [attachSystemState, setAttachSystemState] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
   const [isThinking, setIsThinking] = useState(false); 
+  const [retryNotice, setRetryNotice] = useState<RetryNotice | null>(null);
   const [menuOpen, setMenuOpen] = useState(false);
   
   // Search & Header Functionality State
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  // A search result to scroll to once its conversation is open, then flash
+  const [jumpTarget, setJumpTarget] = useState<{ conversationId: string; messageId: string } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [showMoreMenu, setShowMoreMenu] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [toastMsg, setToastMsg] = useState('');
   const [showToast, setShowToast] = useState(false);
-  const [audioPlaying, setAudioPlaying] = useState<string | null>(null);
-
-  // Stats Simulation
-  const [stats, setStats] = useState<HardwareStats>({
-    cpuLoad: 45, cpuTemp: 65,
-    gpuLoad: 62, gpuTemp: 83,
-    ramUsed: 8.4, ramTotal: 16,
-    diskUsed: 412, diskTotal: 1024
-  });
+  const [speechStatus, setSpeechStatus] = useState<SpeechStatus>(IDLE_SPEECH);
+
+  // Conversation History State
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversation, setActiveConversation] = useState<{ id: string; title: string; createdAt: number } | null>(null);
+  const [playbookProgress, setPlaybookProgress] = useState<PlaybookProgress | null>(null);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
+  const [thinkingBudget, setThinkingBudget] = useState<number | null>(null); // null: the mode's own
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [prices, setPrices] = useState<ModelPrice[]>(loadPriceTable);
 
-  const chatSessionRef = useRef<Chat | null>(null);
+  // Hardware Telemetry
+  const [stats, setStats] = useState<HardwareStats>(INITIAL_STATS);
+  const [device, setDevice] = useState<DeviceIdentity>(UNKNOWN_DEVICE);
+  const [telemetryStatus, setTelemetryStatus] = useState<TelemetryStatus>('connecting');
+  const [telemetryConfig, setTelemetryConfig] = useState<TelemetryConfig>(loadTelemetryConfig);
+  const [historyWindow, setHistoryWindow] = useState(HISTORY_WINDOWS[0].ms);
+  const [thresholds, setThresholds] = useState<MetricThresholds>(loadThresholds);
+  const [editingThresholds, setEditingThresholds] = useState(false);
+
+  // Hardware Alerts
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>(loadAlertLog);
+  const [alertToast, setAlertToast] = useState<AlertEvent | null>(null);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(
+    () => 'Notification' in window && Notification.permission === 'granted'
+  );
+
+  const chatSessionRef = useRef<ChatSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const moreMenuRef = useRef<HTMLDivElement>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const persistPendingRef = useRef(false);
+  const restoringRef = useRef(false);
+  // Read when rebuilding sessions, which can happen before a re-render
+  const contextSummaryRef = useRef<ContextSummary | null>(null);
+  const thinkingBudgetRef = useRef<number | null>(null);
+  const metricsHistoryRef = useRef(createMetricsHistory());
+  const alertRulesRef = useRef(alertRules);
+  const alertStatesRef = useRef<AlertStates>({});
+  const speechRef = useRef<SpeechPlayer | null>(null);
+  if (!speechRef.current) speechRef.current = new SpeechPlayer(setSpeechStatus);
+  const speech = speechRef.current;
+
+  // Load saved conversations on startup
+  useEffect(() => {
+    listConversations().then(setConversations);
+  }, []);
 
   // Re-initialize Chat Session when Mode changes
   useEffect(() => {
-    chatSessionRef.current = createChatSession(chatMode, messages);
+    if (restoringRef.current) {
+      // Session was already rebuilt by the caller (restore/regenerate)
+      restoringRef.current = false;
+      return;
+    }
+
+    chatSessionRef.current = createChatSession(chatMode, messages, sessionContext());
     
     if (messages.length > 0) {
+      persistPendingRef.current = true;
       triggerToast(`Switched to ${chatMode} mode`);
     }
   }, [chatMode]);
 
+  // Persist the active conversation once a turn has settled
+  useEffect(() => {
+    if (!persistPendingRef.current || isStreaming || !activeConversation || messages.length === 0) return;
+    persistPendingRef.current = false;
+
+    saveConversation({
+      ...activeConversation,
+      updatedAt: Date.now(),
+      mode: chatMode,
+      messages,
+      playbook: playbookProgress || undefined,
+      contextSummary: contextSummary || undefined,
+      thinkingBudget: thinkingBudget ?? undefined,
+    }).then(() => listConversations().then(setConversations));
+  }, [messages, isStreaming, chatMode, activeConversation, playbookProgress, contextSummary, thinkingBudget]);
+
   // Auto-scroll chat
   useEffect(() => {
-    if (messagesEndRef.current && !showSearch) {
+    if (messagesEndRef.current && !showSearch && !jumpTarget) {
         messagesEndRef.current.scrollIntoView({ behavior: (isStreaming || isThinking) ? 'auto' : 'smooth' });
     }
   }, [messages, isStreaming, isThinking, showSearch]);
 
+  // Jump to a search result once its conversation is the open one
+  useEffect(() => {
+    if (!jumpTarget || (activeConversation?.id ?? '') !== jumpTarget.conversationId) return;
+    const el = document.querySelector(`[data-message-id="${CSS.escape(jumpTarget.messageId)}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(el ? jumpTarget.messageId : null);
+    setJumpTarget(null);
+  }, [jumpTarget, messages, activeConversation]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // Focus search input when opened
   useEffect(() => {
     if (showSearch && searchInputRef.current) {
@@ -242,29 +374,149 @@ const App: React.FC = () => {
     }
   }, [showSearch]);
 
-  // Handle click outside for More Menu
+  // Handle click outside for More & Export Menus
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (moreMenuRef.current && !moreMenuRef.current.contains(event.target as Node)) {
         setShowMoreMenu(false);
       }
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setShowExportMenu(false);
+      }
     };
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  // Simulate Hardware Monitor updates
+  // Hardware Monitor updates from the configured telemetry provider
   useEffect(() => {
-    const interval = setInterval(() => {
-      setStats(prev => ({
-        ...prev,
-        cpuLoad: Math.min(100, Math.max(5, prev.cpuLoad + (Math.random() * 10 - 5))),
-        gpuLoad: Math.min(100, Math.max(5, prev.gpuLoad + (Math.random() * 10 - 5))),
-        ramUsed: Math.min(16, Math.max(4, prev.ramUsed + (Math.random() * 0.5 - 0.25))),
-      }));
-    }, 2000);
-    return () => clearInterval(interval);
-  }, []);
+    const provider = createTelemetryProvider(telemetryConfig);
+    setTelemetryStatus('connecting');
+    return provider.start(
+      (snapshot) => {
+        recordSnapshot(metricsHistoryRef.current, snapshot.stats, snapshot.timestamp);
+        const { states, events } = evaluateAlertRules(alertRulesRef.current, alertStatesRef.current, snapshot.stats, snapshot.timestamp);
+        alertStatesRef.current = states;
+        if (events.length > 0) handleAlertEvents(events);
+        setStats(snapshot.stats);
+        setDevice(snapshot.device);
+      },
+      setTelemetryStatus
+    );
+  }, [telemetryConfig]);
+
+  const updateTelemetryConfig = (config: TelemetryConfig) => {
+    saveTelemetryConfig(config);
+    setTelemetryConfig(config);
+  };
+
+  // Auto-dismiss alert toasts
+  useEffect(() => {
+    if (!alertToast) return;
+    const timer = setTimeout(() => setAlertToast(null), 8000);
+    return () => clearTimeout(timer);
+  }, [alertToast]);
+
+  // Called from the telemetry callback, so it may only touch setters and refs
+  const handleAlertEvents = (events: AlertEvent[]) => {
+    setAlertLog(prev => appendAlertLog(prev, events));
+    const triggered = events.filter(e => e.kind === 'triggered');
+    if (triggered.length > 0) {
+      const latest = triggered[triggered.length - 1];
+      setAlertToast(latest);
+      triggered.forEach(e => showBrowserNotification(e, () => setView(AppView.MONITOR)));
+    }
+  };
+
+  const updateAlertRules = (rules: AlertRule[]) => {
+    saveAlertRules(rules);
+    alertRulesRef.current = rules;
+    setAlertRules(rules);
+  };
+
+  const handleEnableNotifications = async () => {
+    const granted = await requestNotificationPermission();
+    setNotificationsEnabled(granted);
+    triggerToast(granted ? "Notifications enabled" : "Notifications blocked by browser");
+  };
+
+  const handleAskAboutAlert = (event: AlertEvent) => {
+    if (isStreaming) {
+      triggerToast("Please wait for the current answer");
+      return;
+    }
+    setAlertToast(null);
+    processMessage(buildAlertPrompt(event, stats));
+  };
+
+  const updateModeEntries = (entries: ModeDefinition[]) => {
+    const registry = saveModeEntries(entries);
+    setModeRegistry(registry);
+    if (!registry.modes.some(m => m.id === chatMode)) {
+      setChatMode(ChatMode.FAST);
+    } else {
+      // Pick up edits to the active mode's model/config
+      chatSessionRef.current = createChatSession(chatMode, messages, sessionContext());
+    }
+    triggerToast("Modes updated");
+  };
+
+  const updateSettings = (next: AppSettings) => {
+    const previous = settings;
+    saveSettings(next);
+    setSettings(next);
+    if (next.autoRead !== previous.autoRead) setAutoRead(next.autoRead);
+    // The key and answer language are baked into the session
+    if (!isStreaming && (next.apiKey !== previous.apiKey || next.answerLanguage !== previous.answerLanguage)) {
+      chatSessionRef.current = createChatSession(chatMode, messages, sessionContext());
+    }
+  };
+
+  const updateProviderConfig = (config: ProviderConfig) => {
+    saveProviderConfig(config);
+    setProviderConfig(config);
+    // Continue the current conversation on the new backend
+    chatSessionRef.current = createChatSession(chatMode, messages, sessionContext());
+    triggerToast("Provider updated");
+  };
+
+  const updateThreshold = (id: MetricId, value: number) => {
+    const next = { ...thresholds, [id]: value };
+    saveThresholds(next);
+    setThresholds(next);
+  };
+
+  const updateContextSummary = (summary: ContextSummary | null) => {
+    contextSummaryRef.current = summary;
+    setContextSummary(summary);
+  };
+
+  // Auto keeps the current mode until the next message picks one
+  const selectMode = (id: ModeId) => {
+    setAutoRoute(id === ChatMode.AUTO);
+    if (id !== ChatMode.AUTO) setChatMode(id);
+  };
+
+  const updateThinkingBudget = (budget: number | null) => {
+    thinkingBudgetRef.current = budget;
+    setThinkingBudget(budget);
+  };
+
+  const sessionContext = (): SessionContext => ({
+    summary: contextSummaryRef.current,
+    thinkingBudget: thinkingBudgetRef.current,
+  });
+
+  const handleThinkingBudgetChange = (budget: number | null) => {
+    updateThinkingBudget(budget);
+    persistPendingRef.current = true;
+    if (!isStreaming) chatSessionRef.current = createChatSession(chatMode, messages, sessionContext());
+  };
+
+  const updatePrices = (next: ModelPrice[]) => {
+    savePriceTable(next);
+    setPrices(next);
+  };
 
   const triggerToast = (msg: string) => {
     setToastMsg(msg);
@@ -272,62 +524,152 @@ const App: React.FC = () => {
     setTimeout(() => setShowToast(false), 2000);
   };
 
-  const handleShare = () => {
-    if (messages.length === 0) {
+  const currentConversation = (): Conversation | null => {
+    if (messages.length === 0) return null;
+    const meta = activeConversation || { id: 'unsaved', title: deriveTitle(messages), createdAt: Number(messages[0].id) || Date.now() };
+    return {
+      ...meta, updatedAt: Date.now(), mode: chatMode, messages,
+      playbook: playbookProgress || undefined, contextSummary: contextSummary || undefined,
+      thinkingBudget: thinkingBudget ?? undefined,
+    };
+  };
+
+  const handleExport = (format: 'copy' | 'md' | 'json' | 'html') => {
+    setShowExportMenu(false);
+    const conversation = currentConversation();
+    if (!conversation) {
         triggerToast("Nothing to share");
         return;
     }
-    const text = messages.map(m => `**${m.role === 'user' ? 'User' : 'V-D'}:**\n${m.text}\n`).join('\n---\n\n');
-    navigator.clipboard.writeText(text).then(() => {
-        triggerToast("Chat copied to clipboard");
-    });
+
+    switch (format) {
+      case 'copy':
+        navigator.clipboard.writeText(toMarkdown(conversation)).then(() => {
+            triggerToast("Chat copied to clipboard");
+        });
+        break;
+      case 'md':
+        downloadFile(toMarkdown(conversation), exportFileName(conversation, 'md'), 'text/markdown');
+        break;
+      case 'json':
+        downloadFile(toJSON(conversation), exportFileName(conversation, 'json'), 'application/json');
+        break;
+      case 'html':
+        downloadFile(toHTML(conversation), exportFileName(conversation, 'html'), 'text/html');
+        break;
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    setShowMoreMenu(false);
+    if (!file) return;
+
+    const result = parseConversationImport(await file.text());
+    if ('error' in result) {
+      triggerToast(`导入失败: ${result.error}`);
+      return;
+    }
+    await saveConversation(result.conversation);
+    setConversations(await listConversations());
+    await handleOpenConversation(result.conversation.id);
+    triggerToast("Conversation imported");
   };
 
-  const handleClearChat = () => {
+  const resetConversation = () => {
+    persistPendingRef.current = false;
+    speech.stop();
     setMessages([]);
+    setActiveConversation(null);
+    setPlaybookProgress(null);
+    updateContextSummary(null);
+    updateThinkingBudget(null);
     chatSessionRef.current = createChatSession(chatMode, []);
+  };
+
+  const handleClearChat = async () => {
+    if (activeConversation) {
+      await deleteConversation(activeConversation.id);
+      setConversations(await listConversations());
+    }
+    resetConversation();
     setShowMoreMenu(false);
     triggerToast("Chat history cleared");
   };
 
-  const handleTTS = async (text: string, msgId: string, autoPlay: boolean = false) => {
-    // If clicking same button, toggle off
-    if (!autoPlay && audioPlaying === msgId) {
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current = null;
-        }
-        setAudioPlaying(null);
-        return;
+  const handleNewChat = () => {
+    if (isStreaming) return;
+    resetConversation();
+    setView(AppView.HOME);
+    setMenuOpen(false);
+  };
+
+  // Resolves to whether the conversation was opened
+  const handleOpenConversation = async (id: string) => {
+    if (isStreaming) {
+      triggerToast("Please wait for the current answer");
+      return false;
     }
-    
-    // Stop any existing playback
-    if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current = null;
-        setAudioPlaying(null);
+
+    const conversation = await getConversation(id);
+    if (!conversation) {
+      triggerToast("Conversation not found");
+      setConversations(await listConversations());
+      return false;
     }
 
-    if (!autoPlay) triggerToast("Generating Speech...");
-    
-    const url = await generateSpeech(text);
-    if (url) {
-        const audio = new Audio(url);
-        audio.playbackRate = 1.6; // Increased speed for even faster response
-        audioRef.current = audio;
-        audio.play().catch(e => console.error("Playback failed", e));
-        setAudioPlaying(msgId);
-        audio.onended = () => setAudioPlaying(null);
-    } else {
-        if (!autoPlay) triggerToast("Failed to generate speech");
+    // Modes that have since been deleted fall back to the default
+    const mode = getMode(conversation.mode).id;
+    persistPendingRef.current = false;
+    restoringRef.current = mode !== chatMode;
+    setMessages(conversation.messages);
+    setActiveConversation({ id: conversation.id, title: conversation.title, createdAt: conversation.createdAt });
+    setPlaybookProgress(conversation.playbook || null);
+    updateContextSummary(conversation.contextSummary || null);
+    updateThinkingBudget(conversation.thinkingBudget ?? null);
+    setChatMode(mode);
+    // Rebuild the SDK session so the model keeps the restored context
+    chatSessionRef.current = createChatSession(mode, conversation.messages, sessionContext());
+    setView(AppView.CHAT);
+    setMenuOpen(false);
+    return true;
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    await renameConversation(id, title);
+    if (activeConversation?.id === id) {
+      setActiveConversation({ ...activeConversation, title });
+    }
+    setConversations(await listConversations());
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    await deleteConversation(id);
+    if (activeConversation?.id === id) {
+      resetConversation();
+    }
+    setConversations(await listConversations());
+  };
+
+  // Reads a finished message aloud; clicking the same message again stops it
+  const handleTTS = (text: string, msgId: string) => {
+    if (speech.activeMessageId === msgId) {
+        speech.stop();
+        return;
     }
+    const clips = toSpeechClips(text);
+    if (clips.length === 0) return;
+    speech.start(msgId);
+    speech.enqueue(clips);
+    speech.end();
   };
 
-  const processMessage = async (text: string) => {
-    if (!text.trim()) return;
+  // fresh: the conversation was just reset in this same event, so state read here is stale
+  const processMessage = async (text: string, attachments: Attachment[] = [], { fresh = false } = {}) => {
+    if (!text.trim() && attachments.length === 0) return;
+    const history = fresh ? [] : messages;
     
     if (!chatSessionRef.current) {
-        chatSessionRef.current = createChatSession(chatMode, messages);
+        chatSessionRef.current = createChatSession(chatMode, messages, sessionContext());
     }
     
     if (showSearch) {
@@ -335,32 +677,120 @@ const App: React.FC = () => {
       setSearchQuery('');
     }
 
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', text: text };
-    setMessages(prev => [...prev, userMsg]);
+    const userMsg: Message = { id: Date.now().toString(), role: 'user', text: text.trim() || '请分析附件内容' };
+    if (attachments.length > 0) {
+      userMsg.attachments = attachments;
+      setPendingAttachments([]);
+    }
+    if (attachSystemState) {
+      userMsg.isDiagnostic = true;
+      userMsg.telemetry = buildTelemetryAttachment(stats, device, metricsHistoryRef.current, telemetryConfig.source, telemetryStatus);
+    }
+    if (fresh || !activeConversation) {
+      setActiveConversation({ id: `conv-${userMsg.id}`, title: deriveTitle([userMsg]), createdAt: Date.now() });
+    }
     setInput('');
+    await streamReply(userMsg, history, autoRoute ? ChatMode.AUTO : chatMode);
+  };
+
+  // The rules decide on their own when they are sure; otherwise the fast model may break the tie
+  const routeMessage = async (userMsg: Message, signal: AbortSignal): Promise<RouteDecision> => {
+    const { confident, ...decision } = classifyMessage({
+      text: userMsg.text,
+      attachmentCount: userMsg.attachments?.length || 0,
+      hasTelemetry: !!userMsg.telemetry,
+    });
+    if (confident || !settings.autoTriage) return decision;
+
+    setIsRouting(true);
+    try {
+      return (await triageMessage(userMsg.text, signal)) || decision;
+    } finally {
+      setIsRouting(false);
+    }
+  };
+
+  // Folds older turns into the summary once the history outgrows the budget,
+  // then rebuilds the session without them. On failure the full history is sent.
+  const compactContext = async (turns: Message[], mode: ModeId, signal: AbortSignal) => {
+    const previous = isSummaryValid(turns, contextSummaryRef.current) ? contextSummaryRef.current : null;
+    const plan = planSummarization(turns, previous, settings.contextBudget);
+    if (!plan) return;
+
+    setIsSummarizing(true);
+    try {
+      const text = await summarizeConversation(previous, plan.toSummarize, signal);
+      if (signal.aborted || !text) return;
+      updateContextSummary({
+        text,
+        throughId: plan.throughId,
+        summarizedCount: (previous?.summarizedCount || 0) + plan.toSummarize.length,
+        createdAt: Date.now(),
+      });
+      chatSessionRef.current = createChatSession(mode, turns.slice(0, -1), sessionContext());
+    } catch (e) {
+      if (!signal.aborted) triggerToast(`上下文压缩失败：${normalizeError(e).message}`);
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // Streams the model's answer to userMsg; history is everything before it
+  // mode may be AUTO, resolved here once the message is on screen; route
+  // records a mode the user picked by hand while Auto was on
+  const streamReply = async (userMsg: Message, history: Message[], mode: ModeId, route?: RouteDecision) => {
+    if (!chatSessionRef.current) return;
+
+    persistPendingRef.current = true;
     setView(AppView.CHAT);
     
     setIsThinking(true);
     setIsStreaming(true);
 
     const aiMsgId = (Date.now() + 1).toString();
-    const aiMsg: Message = { id: aiMsgId, role: 'model', text: '' };
-    setMessages(prev => [...prev, aiMsg]);
+    const aiMsg: Message = { id: aiMsgId, role: 'model', text: '', route };
+    setMessages([...history, userMsg, aiMsg]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     // Track full text for TTS
     let fullResponseText = "";
+    let tokens: TokenUsage | undefined;
+    let startedAt = 0;
+    let firstTokenMs: number | undefined;
+    // Auto-read starts speaking finished sentences while the rest streams in
+    const speechChunker = autoRead || voiceMode ? createSpeechChunker() : null;
+    if (speechChunker) speech.start(aiMsgId);
 
     try {
-        const stream = sendMessageStream(chatSessionRef.current, text);
+        if (mode === ChatMode.AUTO) {
+            const decision = await routeMessage(userMsg, controller.signal);
+            mode = decision.mode;
+            setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, route: decision } : m));
+            if (mode !== chatMode) {
+                restoringRef.current = true;
+                setChatMode(mode);
+                chatSessionRef.current = createChatSession(mode, history, sessionContext());
+            }
+        }
+        await compactContext([...history, userMsg], mode, controller.signal);
+        // Latency covers the answer itself, not the summarization before it
+        startedAt = Date.now();
+        const stream = sendMessageStream(chatSessionRef.current, userMsg, controller.signal, setRetryNotice);
         let firstChunkReceived = false;
         
         for await (const chunk of stream) {
             if (!firstChunkReceived) {
                 setIsThinking(false);
+                setRetryNotice(null);
                 firstChunkReceived = true;
             }
             
+            if (chunk.usage) tokens = chunk.usage;
+            if (chunk.text && firstTokenMs === undefined) firstTokenMs = Date.now() - startedAt;
             fullResponseText += chunk.text;
+            if (speechChunker) speech.enqueue(speechChunker.push(fullResponseText));
 
             setMessages(prev => prev.map(m => {
                 if (m.id === aiMsgId) {
@@ -369,42 +799,212 @@ const App: React.FC = () => {
                         .filter((v,i,a)=>a.findIndex(t=>(t.uri===v.uri))===i)
                         : m.sources;
 
+                    const thoughts = chunk.thought ? (m.thoughts || '') + chunk.thought : m.thoughts;
+                    // Thinking ends when the answer itself starts
+                    const thinkingMs = thoughts && chunk.text && m.thinkingMs === undefined
+                        ? Date.now() - startedAt
+                        : m.thinkingMs;
+
                     return { 
                         ...m, 
                         text: m.text + chunk.text,
-                        sources: mergedSources
+                        sources: mergedSources,
+                        thoughts,
+                        thinkingMs
                     };
                 }
                 return m;
             }));
         }
+        // The session keeps what it sent inline; rebuild it so older files are trimmed next turn
+        if (userMsg.attachments?.length) {
+            chatSessionRef.current = createChatSession(mode, [...history, userMsg, { ...aiMsg, text: fullResponseText }], sessionContext());
+        }
     } catch (e) {
-        console.error("Streaming error", e);
+        // The error is shown on the message; its text stays model output only
+        const { kind, message } = normalizeError(e);
+        setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, error: { kind, message } } : m));
+        chatSessionRef.current = createChatSession(mode, [...history, userMsg, { ...aiMsg, text: fullResponseText }], sessionContext());
     } finally {
+        if (startedAt > 0) {
+            const usage = { mode, model: activeModelFor(getMode(mode)), tokens, firstTokenMs, totalMs: Date.now() - startedAt };
+            setMessages(prev => prev.map(m => m.id !== aiMsgId ? m : {
+                ...m,
+                usage,
+                // Stopped or failed before answering: it thought the whole time
+                thinkingMs: m.thoughts && m.thinkingMs === undefined ? usage.totalMs : m.thinkingMs,
+            }));
+        }
+        abortControllerRef.current = null;
         setIsThinking(false);
         setIsStreaming(false);
+        setRetryNotice(null);
+
+        if (controller.signal.aborted) {
+            // Keep the partial answer, and rebuild the session since the SDK
+            // drops a turn whose stream was cut off
+            const stoppedMsg: Message = { ...aiMsg, text: fullResponseText, stopped: true };
+            setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, stopped: true } : m));
+            chatSessionRef.current = createChatSession(mode, [...history, userMsg, stoppedMsg], sessionContext());
+        }
 
-        // Auto-Play Logic: Play if enabled and we have text
-        if (autoRead && fullResponseText.trim().length > 0) {
-            // Slight delay to ensure UI settles
-            setTimeout(() => {
-                handleTTS(fullResponseText, aiMsgId, true);
-            }, 100);
+        if (speechChunker && speech.activeMessageId === aiMsgId) {
+            if (controller.signal.aborted) {
+                speech.stop();
+            } else {
+                speech.enqueue(speechChunker.flush(fullResponseText));
+                speech.end();
+            }
         }
     }
   };
 
   const handleSend = () => {
-    processMessage(input);
+    processMessage(input, pendingAttachments);
   };
 
+  const handleTranscript = (text: string) => {
+    if (settings.voiceAutoSend && !isStreaming) {
+      processMessage(input.trim() ? `${input.trim()} ${text}` : text, pendingAttachments);
+    } else {
+      // Leave it in the box for review
+      setInput(prev => prev.trim() ? `${prev.trim()} ${text}` : text);
+    }
+  };
+
+  const handleFilesPicked = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const picked = Array.from(files);
+    if (pendingAttachments.length + picked.length > MAX_ATTACHMENTS) {
+      triggerToast(`最多附加 ${MAX_ATTACHMENTS} 个文件`);
+      return;
+    }
+
+    const results = await Promise.all(picked.map(readAttachment));
+    const added: Attachment[] = [];
+    // Measured as sent: base64 grows images by a third
+    let totalBytes = pendingAttachments.reduce((sum, a) => sum + encodedSize(a), 0);
+    for (const result of results) {
+      if ('error' in result) {
+        triggerToast(result.error);
+      } else if (totalBytes + encodedSize(result.attachment) > MAX_TOTAL_BYTES) {
+        triggerToast(`附件总大小（编码后）不能超过 ${formatAttachmentSize(MAX_TOTAL_BYTES)}，${result.attachment.name} 未添加`);
+      } else {
+        totalBytes += encodedSize(result.attachment);
+        added.push(result.attachment);
+      }
+    }
+    setPendingAttachments(prev => [...prev, ...added]);
+  };
+
+  // Resends an edited user message as a new branch; the old tail stays reachable
+  const handleEditResend = (msgId: string, text: string) => {
+    const index = messages.findIndex(m => m.id === msgId);
+    setEditingMessageId(null);
+    if (index < 0 || !text.trim() || isStreaming) return;
+
+    const edited: Message = { ...messages[index], id: Date.now().toString(), text: text.trim() };
+    const { history, head } = forkAt(messages, index, edited);
+    chatSessionRef.current = createChatSession(chatMode, history, sessionContext());
+    streamReply(head, history, autoRoute ? ChatMode.AUTO : chatMode);
+  };
+
+  const handleSwitchBranch = (msgId: string, target: number) => {
+    const index = messages.findIndex(m => m.id === msgId);
+    if (index < 0 || isStreaming) return;
+
+    const next = switchBranch(messages, index, target);
+    persistPendingRef.current = true;
+    setMessages(next);
+    chatSessionRef.current = createChatSession(chatMode, next, sessionContext());
+  };
+
+  // Pinned messages are always sent verbatim, even once older turns are summarized
+  const handleTogglePin = (msgId: string) => {
+    const next = messages.map(m => m.id === msgId ? { ...m, pinned: !m.pinned } : m);
+    persistPendingRef.current = true;
+    setMessages(next);
+    if (!isStreaming) chatSessionRef.current = createChatSession(chatMode, next, sessionContext());
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // The user started talking over the spoken answer
+  const handleBargeIn = () => {
+    speech.stop();
+    handleStop();
+  };
+
+  const handleCloseVoiceMode = () => {
+    setVoiceMode(false);
+    speech.stop();
+  };
+
+  // Re-runs the last user turn, optionally switching to another mode first.
+  // Picking a mode while Auto is on overrides it for this answer only.
+  const handleRegenerate = (mode?: ModeId) => {
+    if (isStreaming) return;
+    const lastUserIdx = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIdx < 0) return;
+
+    const history = messages.slice(0, lastUserIdx);
+    const target = mode ?? (autoRoute ? ChatMode.AUTO : chatMode);
+    const sessionMode = target === ChatMode.AUTO ? chatMode : target;
+    if (sessionMode !== chatMode) {
+      restoringRef.current = true;
+      setChatMode(sessionMode);
+    }
+    chatSessionRef.current = createChatSession(sessionMode, history, sessionContext());
+    const override: RouteDecision | undefined = autoRoute && mode ? { mode, reason: '手动指定', source: 'manual' } : undefined;
+    streamReply(messages[lastUserIdx], history, target, override);
+  };
+
+  const activePlaybook = playbookProgress ? getPlaybook(playbookProgress.playbookId) : null;
+
   const startQuickAction = (action: string) => {
     processMessage(action);
   };
 
-  const filteredMessages = messages.filter(msg => 
-    msg.text.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Playbooks always start a conversation of their own
+  const handleStartPlaybook = (id: string) => {
+    const playbook = getPlaybook(id);
+    if (!playbook || isStreaming) return;
+    resetConversation();
+    const progress = startPlaybook(playbook);
+    setPlaybookProgress(progress);
+    processMessage(buildStepPrompt(playbook, progress), [], { fresh: true });
+  };
+
+  const handlePlaybookAnswer = (optionIndex: number) => {
+    if (!activePlaybook || !playbookProgress || isStreaming) return;
+    const progress = answerStep(activePlaybook, playbookProgress, optionIndex);
+    setPlaybookProgress(progress);
+    processMessage(buildAnswerPrompt(activePlaybook, progress));
+  };
+
+  const handlePlaybookDetails = () => {
+    if (!activePlaybook || !playbookProgress || isStreaming) return;
+    processMessage(buildStepPrompt(activePlaybook, playbookProgress));
+  };
+
+  const handleExitPlaybook = () => {
+    persistPendingRef.current = true;
+    setPlaybookProgress(null);
+  };
+
+  const handleSearchResult = async (doc: SearchDocument) => {
+    const elsewhere = doc.conversationId !== (activeConversation?.id ?? '');
+    if (elsewhere && isStreaming) {
+      triggerToast("Please wait for the current answer");
+      return;
+    }
+    setShowSearch(false);
+    setSearchQuery('');
+    setJumpTarget({ conversationId: doc.conversationId, messageId: doc.messageId });
+    if (elsewhere && !(await handleOpenConversation(doc.conversationId))) setJumpTarget(null);
+  };
 
   const renderHeader = () => {
     if (view === AppView.HOME) {
@@ -417,13 +1017,13 @@ const App: React.FC = () => {
               <img src={LOGO_URL} alt="V-D" className="w-8 h-8 object-contain drop-shadow-[0_0_12px_rgba(255,255,255,0.4)]" />
               <h1 className="text-white font-bold text-lg tracking-widest">V-D</h1>
           </div>
-          <button className="text-white hover:text-zinc-300 transition-colors">
+          <button onClick={handleNewChat} className="text-white hover:text-zinc-300 transition-colors" title="New chat">
             <IconEdit />
           </button>
         </header>
       );
     }
-    if (view === AppView.MONITOR) {
+    if (view === AppView.MONITOR || view === AppView.SETTINGS || view === AppView.USAGE) {
       return (
         <header className="flex justify-between items-center p-5 pt-8 z-10 sticky top-0 bg-black/80 backdrop-blur-md">
            <button onClick={() => setView(AppView.HOME)} className="text-white hover:text-zinc-300 transition-colors">
@@ -448,7 +1048,7 @@ const App: React.FC = () => {
                   type="text" 
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search history..."
+                  placeholder="Search messages..."
                   className="bg-transparent text-white w-full outline-none placeholder-zinc-500"
                 />
                 <button onClick={() => { setShowSearch(false); setSearchQuery(''); }} className="text-zinc-400 hover:text-white">
@@ -462,32 +1062,71 @@ const App: React.FC = () => {
                     <IconMenu />
                  </button>
                  <img src={LOGO_URL} alt="V-D" className="w-6 h-6 object-contain" />
-                 <h1 className="text-white font-bold text-sm tracking-wide">V-D DIAGNOSTICS</h1>
+                 <h1 className="text-white font-bold text-sm tracking-wide truncate max-w-[9rem]" title={activeConversation?.title}>
+                    {activeConversation?.title || 'V-D DIAGNOSTICS'}
+                 </h1>
               </div>
               <div className="flex gap-4 text-zinc-400 items-center relative">
                  <button 
                     onClick={() => {
                         const newState = !autoRead;
                         setAutoRead(newState);
+                        if (!newState) speech.stop();
                         triggerToast(`Auto-Read: ${newState ? 'ON' : 'OFF'}`);
                     }} 
                     className={`transition-colors p-1 rounded-full hover:bg-zinc-800 ${autoRead ? 'text-green-400' : 'text-zinc-400'}`}
                  >
                     {autoRead ? <IconVolume /> : <IconVolumeX />}
                  </button>
+                 <button onClick={() => setVoiceMode(true)} className="hover:text-white transition-colors p-1 rounded-full hover:bg-zinc-800 [&>svg]:w-5 [&>svg]:h-5" title="Hands-free voice mode">
+                    <IconMic />
+                 </button>
                  <button onClick={() => setShowSearch(true)} className="hover:text-white transition-colors p-1 rounded-full hover:bg-zinc-800">
                     <IconSearch />
                  </button>
-                 <button onClick={handleShare} className="hover:text-white transition-colors p-1 rounded-full hover:bg-zinc-800">
+                 <button onClick={() => setShowExportMenu(!showExportMenu)} className="hover:text-white transition-colors p-1 rounded-full hover:bg-zinc-800">
                     <IconShare />
                  </button>
                  <button onClick={() => setShowMoreMenu(!showMoreMenu)} className="hover:text-white transition-colors p-1 rounded-full hover:bg-zinc-800 relative">
                     <IconMore />
                  </button>
                  
+                 {/* Export Dropdown */}
+                 {showExportMenu && (
+                    <div ref={exportMenuRef} className="absolute top-10 right-0 w-56 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl py-1 z-50 overflow-hidden animate-fade-in origin-top-right">
+                        {([
+                            { id: 'copy', label: 'Copy as Markdown' },
+                            { id: 'md', label: 'Markdown (.md)' },
+                            { id: 'json', label: 'JSON (re-importable)' },
+                            { id: 'html', label: 'HTML Report' },
+                        ] as const).map(item => (
+                            <button
+                                key={item.id}
+                                onClick={() => handleExport(item.id)}
+                                className="w-full text-left px-4 py-3 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+                            >
+                                {item.label}
+                            </button>
+                        ))}
+                    </div>
+                 )}
+
                  {/* More Dropdown */}
                  {showMoreMenu && (
                     <div ref={moreMenuRef} className="absolute top-10 right-0 w-48 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl py-1 z-50 overflow-hidden animate-fade-in origin-top-right">
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className="w-full text-left px-4 py-3 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+                        >
+                            Import Conversation
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+                            className="hidden"
+                        />
                         <button 
                             onClick={handleClearChat}
                             className="w-full text-left px-4 py-3 text-sm text-red-400 hover:bg-zinc-800 hover:text-red-300 transition-colors flex items-center gap-2"
@@ -514,7 +1153,9 @@ const App: React.FC = () => {
         </p>
 
         <div className="flex flex-wrap gap-3 mb-8">
-          <Chip text="电脑蓝屏 Critical Process Died" onClick={() => startQuickAction("电脑蓝屏了，错误代码是 CRITICAL_PROCESS_DIED")} />
+          {PLAYBOOKS.map(playbook => (
+            <Chip key={playbook.id} text={`${playbook.icon} ${playbook.title}`} title={playbook.summary} onClick={() => handleStartPlaybook(playbook.id)} />
+          ))}
           <Chip text="提升FPS" onClick={() => startQuickAction("如何优化Windows设置以提升游戏帧率？")} />
           <Chip text="清理C盘" onClick={() => startQuickAction("有哪些安全的命令行方法清理C盘垃圾？")} />
         </div>
@@ -523,20 +1164,16 @@ const App: React.FC = () => {
       <div className="bg-zinc-900/80 backdrop-blur rounded-2xl p-4 flex flex-col gap-4 mb-4 border border-zinc-800">
         <span className="text-white font-medium mb-1">AI 模式选择</span>
         <div className="grid grid-cols-2 gap-2">
-            {[
-                { id: ChatMode.FAST, label: 'Fast (Flash-Lite)' },
-                { id: ChatMode.PRO, label: 'Pro (Gemini 3)' },
-                { id: ChatMode.SEARCH, label: 'Search' },
-                { id: ChatMode.THINKING, label: 'Thinking' }
-            ].map((m) => (
+            {[AUTO_MODE, ...modeRegistry.modes].map((m) => (
                 <button
                     key={m.id}
-                    onClick={() => setChatMode(m.id as ChatMode)}
+                    onClick={() => selectMode(m.id)}
                     className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                        chatMode === m.id 
+                        (m.id === ChatMode.AUTO ? autoRoute : !autoRoute && chatMode === m.id)
                         ? 'bg-white text-black shadow-lg' 
                         : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
                     }`}
+                    title={m.id === ChatMode.AUTO ? '按问题复杂度自动选择模式' : undefined}
                 >
                     {m.label}
                 </button>
@@ -562,35 +1199,181 @@ const App: React.FC = () => {
       </div>
       
       <div className="text-center mt-6">
-        <span className="text-zinc-700 text-xs font-mono tracking-widest">V-D VERSION 3.2 • MODE: {chatMode}</span>
+        <span className="text-zinc-700 text-xs font-mono tracking-widest">V-D VERSION 3.2 • MODE: {autoRoute ? `AUTO (${chatMode})` : chatMode}</span>
       </div>
     </div>
   );
 
-  const renderMonitor = () => (
+  const renderMonitor = () => {
+    const live = telemetryStatus === 'online';
+    return (
+      <div className="flex flex-col px-6 pt-4 pb-6 h-full">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-3xl font-bold text-white">实时系统状态</h2>
+          <TelemetryBadge status={telemetryStatus} />
+        </div>
+        <p className="text-zinc-500 mb-8">
+          {live ? '正在监控硬件运行数据' : telemetryStatus === 'stale' ? '数据已过期，等待代理更新…' : telemetryStatus === 'connecting' ? '正在连接遥测源…' : '未连接遥测代理，显示最后已知数据'}
+          {device.hostname && <span className="text-zinc-600"> • {device.hostname}</span>}
+        </p>
+
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex gap-1 bg-zinc-900 rounded-full p-1 border border-zinc-800">
+            {HISTORY_WINDOWS.map(w => (
+              <button
+                key={w.ms}
+                onClick={() => setHistoryWindow(w.ms)}
+                className={`px-3 py-1 rounded-full text-xs font-mono transition-all ${historyWindow === w.ms ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {w.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setEditingThresholds(!editingThresholds)}
+            className={`text-xs font-mono uppercase tracking-wider transition-colors ${editingThresholds ? 'text-amber-400' : 'text-zinc-500 hover:text-white'}`}
+          >
+            {editingThresholds ? 'Done' : 'Warning Levels'}
+          </button>
+        </div>
+
+        <div className={`flex-1 overflow-y-auto pb-4 transition-opacity ${live ? '' : 'opacity-50'}`}>
+          {METRICS.map(metric => {
+            const samples = samplesInWindow(metricsHistoryRef.current[metric.id], historyWindow);
+            const detail = metric.id === 'cpuLoad'
+              ? [device.cpuName, device.cpuClock].filter(Boolean).join(' • ')
+              : metric.id === 'gpuLoad' ? device.gpuName : metric.detail?.(stats);
+            return (
+              <MetricCard
+                key={metric.id}
+                metric={metric}
+                value={metric.read(stats)}
+                detail={detail}
+                warning={thresholds[metric.id]}
+                samples={samples}
+                summary={summarizeSamples(samples)}
+                windowMs={historyWindow}
+                editing={editingThresholds}
+                onWarningChange={(value) => updateThreshold(metric.id, value)}
+              />
+            );
+          })}
+
+          <AlertRulesPanel
+            rules={alertRules}
+            notificationsEnabled={notificationsEnabled}
+            onChange={updateAlertRules}
+            onEnableNotifications={handleEnableNotifications}
+          />
+          <AlertLog
+            events={alertLog}
+            onAsk={handleAskAboutAlert}
+            onClear={() => { clearAlertLog(); setAlertLog([]); }}
+          />
+        </div>
+
+        <div className="bg-zinc-900 rounded-2xl p-4 border border-zinc-800 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-zinc-500 font-mono uppercase tracking-wider">Telemetry Source</span>
+            <div className="flex gap-1">
+              {(['simulated', 'agent'] as const).map(source => (
+                <button
+                  key={source}
+                  onClick={() => updateTelemetryConfig({ ...telemetryConfig, source })}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${telemetryConfig.source === source ? 'bg-white text-black' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+                >
+                  {source === 'simulated' ? 'Simulated' : 'Local Agent'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {telemetryConfig.source === 'agent' && (
+            <input
+              type="text"
+              defaultValue={telemetryConfig.agentUrl}
+              onBlur={(e) => e.target.value.trim() !== telemetryConfig.agentUrl && updateTelemetryConfig({ ...telemetryConfig, agentUrl: e.target.value.trim() })}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              placeholder="ws://localhost:7070"
+              className="bg-zinc-800 text-zinc-200 text-sm font-mono rounded-lg px-3 py-2 outline-none placeholder-zinc-600"
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderSettings = () => (
     <div className="flex flex-col px-6 pt-4 pb-6 h-full">
-      <h2 className="text-3xl font-bold text-white mb-1">实时系统状态</h2>
-      <p className="text-zinc-500 mb-8">正在监控硬件运行数据</p>
+      <h2 className="text-3xl font-bold text-white mb-1">设置</h2>
+      <p className="text-zinc-500 mb-8">自定义 V-D 的模型与行为</p>
 
       <div className="flex-1 overflow-y-auto pb-4">
-        <ProgressBar value={Math.round(stats.cpuLoad)} label="CPU 使用率" subLabel="Intel Core i9-13900K" detail="5.2 GHz" />
-        <ProgressBar value={Math.round(stats.gpuLoad)} label="GPU 使用率" subLabel="NVIDIA RTX 4080" detail={`${stats.gpuTemp}°C`} />
-        {/* ... existing monitor bars ... */}
+        <GeneralSettings settings={settings} modes={modeRegistry.modes} onChange={updateSettings} />
+        <ProviderSettings config={providerConfig} disabled={isStreaming} onChange={updateProviderConfig} />
+        <ModeSettings registry={modeRegistry} onChange={updateModeEntries} />
       </div>
-      {/* ... monitor footer ... */}
     </div>
   );
 
+  const renderUsage = () => (
+    <div className="flex flex-col px-6 pt-4 pb-6 h-full">
+      <h2 className="text-3xl font-bold text-white mb-1">用量统计</h2>
+      <p className="text-zinc-500 mb-8">各模式的 token 用量、响应延迟与估算费用</p>
+      <UsageDashboard
+        messages={messages}
+        activeConversation={activeConversation}
+        mode={chatMode}
+        conversations={conversations}
+        modes={modeRegistry.modes}
+        prices={prices}
+        onPricesChange={updatePrices}
+      />
+    </div>
+  );
+
+  const activeMode = getMode(chatMode);
+  const summaryActive = isSummaryValid(messages, contextSummary);
+  const summarized = summarizedIds(messages, contextSummary);
+  const contextUsage = measureContext(messages, contextSummary, settings.contextBudget);
+
   const renderChat = () => (
     <div className="flex flex-col h-full relative">
       <div className="flex-1 overflow-y-auto px-4 py-4 pb-48">
-        {filteredMessages.map((msg, idx) => {
-          const isLast = idx === filteredMessages.length - 1;
+        {activePlaybook && playbookProgress && !showSearch && (
+          <PlaybookPanel
+            playbook={activePlaybook}
+            progress={playbookProgress}
+            disabled={isStreaming}
+            onAnswer={handlePlaybookAnswer}
+            onAskDetails={handlePlaybookDetails}
+            onExit={handleExitPlaybook}
+          />
+        )}
+        {showSearch && (
+          <SearchPanel
+            query={searchQuery}
+            messages={messages}
+            activeConversation={activeConversation}
+            mode={chatMode}
+            modes={modeRegistry.modes}
+            conversations={conversations}
+            onSelect={handleSearchResult}
+          />
+        )}
+        {!showSearch && messages.map((msg, idx) => {
+          const isLast = idx === messages.length - 1;
           const isModel = msg.role === 'model';
           const shouldAnimate = !showSearch && isModel && isLast && isStreaming && msg.text.length > 0;
+          const isSummarized = summarized.has(msg.id);
 
           return (
-            <div key={idx} className="mb-8 animate-fade-in group">
+            <React.Fragment key={msg.id}>
+            <div
+              data-message-id={msg.id}
+              className={`mb-8 animate-fade-in group rounded-2xl transition-colors duration-700 ${
+                highlightedMessageId === msg.id ? 'bg-indigo-500/10 ring-1 ring-indigo-400/50' : ''
+              } ${isSummarized ? 'opacity-60' : ''}`}
+            >
               <div className="flex items-start gap-4 mb-2">
                  {msg.role === 'user' ? (
                    <div className="w-8 h-8 rounded-full bg-indigo-500/10 flex items-center justify-center border border-indigo-500/30 shrink-0 mt-1">
@@ -609,10 +1392,10 @@ const App: React.FC = () => {
                       {isModel && (
                           <button 
                             onClick={() => handleTTS(msg.text, msg.id)}
-                            className={`ml-2 p-1 rounded-full transition-colors ${audioPlaying === msg.id ? 'text-green-400 bg-green-900/30' : 'text-zinc-600 hover:text-white hover:bg-zinc-800'}`}
+                            className={`ml-2 p-1 rounded-full transition-colors ${speechStatus.messageId === msg.id ? 'text-green-400 bg-green-900/30' : 'text-zinc-600 hover:text-white hover:bg-zinc-800'}`}
                             title="Play Text-to-Speech"
                           >
-                             {audioPlaying === msg.id ? (
+                             {speechStatus.messageId === msg.id ? (
                                 <div className="flex items-center gap-1">
                                     <span className="w-0.5 h-2 bg-green-400 animate-pulse"></span>
                                     <span className="w-0.5 h-3 bg-green-400 animate-pulse delay-75"></span>
@@ -623,19 +1406,120 @@ const App: React.FC = () => {
                              )}
                           </button>
                       )}
+                      {isModel && msg.usage && <UsageLabel usage={msg.usage} prices={prices} />}
+                      {msg.pinned && <span className="text-[10px] font-mono uppercase tracking-wider text-amber-400/80">Pinned</span>}
+                      {!showSearch && msg.text.length > 0 && (
+                          <button
+                            onClick={() => handleTogglePin(msg.id)}
+                            className={`p-1 rounded-md transition-opacity hover:bg-zinc-800 [&>svg]:w-3.5 [&>svg]:h-3.5 ${
+                              msg.pinned ? 'text-amber-400' : 'text-zinc-600 hover:text-white opacity-0 group-hover:opacity-100'
+                            }`}
+                            title={msg.pinned ? '取消置顶' : '置顶：始终完整发送给模型，不会被压缩进摘要'}
+                          >
+                            <IconPin />
+                          </button>
+                      )}
                    </div>
                    
                    <div className="text-zinc-300 leading-relaxed font-sans text-sm md:text-base">
                       {msg.role === 'user' ? (
-                          <div className="bg-zinc-900 inline-block px-4 py-3 rounded-2xl rounded-tl-none border border-zinc-800">
-                             {msg.text}
-                          </div>
+                          editingMessageId === msg.id ? (
+                            <div className="bg-zinc-900 px-3 py-3 rounded-2xl rounded-tl-none border border-zinc-600">
+                              <textarea
+                                autoFocus
+                                value={editDraft}
+                                onChange={(e) => setEditDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    handleEditResend(msg.id, editDraft);
+                                  }
+                                  if (e.key === 'Escape') setEditingMessageId(null);
+                                }}
+                                rows={3}
+                                className="w-full bg-transparent text-zinc-200 outline-none resize-none"
+                              />
+                              <div className="flex justify-end gap-2 mt-2">
+                                <button onClick={() => setEditingMessageId(null)} className="px-3 py-1 rounded-lg text-xs text-zinc-400 hover:bg-zinc-800">取消</button>
+                                <button
+                                  onClick={() => handleEditResend(msg.id, editDraft)}
+                                  disabled={!editDraft.trim()}
+                                  className="px-3 py-1 rounded-lg text-xs bg-white text-black font-medium hover:bg-zinc-200 disabled:opacity-50"
+                                >
+                                  发送
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                          <>
+                            <div className="bg-zinc-900 inline-block px-4 py-3 rounded-2xl rounded-tl-none border border-zinc-800">
+                               {msg.text}
+                            </div>
+                            {msg.attachments && msg.attachments.length > 0 && (
+                                <div className="mt-2">
+                                    <AttachmentList attachments={msg.attachments} />
+                                </div>
+                            )}
+                            {msg.isDiagnostic && msg.telemetry && <TelemetryCard telemetry={msg.telemetry} />}
+                            {!showSearch && (
+                                <div className="flex items-center gap-1 mt-1 text-xs text-zinc-500">
+                                    {msg.branches && msg.branches.length > 1 && (
+                                        <div className="flex items-center font-mono">
+                                            <button
+                                                onClick={() => handleSwitchBranch(msg.id, (msg.branchIndex ?? 0) - 1)}
+                                                disabled={isStreaming || (msg.branchIndex ?? 0) === 0}
+                                                className="px-1.5 py-0.5 rounded hover:bg-zinc-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                                            >
+                                                &lt;
+                                            </button>
+                                            <span>{(msg.branchIndex ?? 0) + 1}/{msg.branches.length}</span>
+                                            <button
+                                                onClick={() => handleSwitchBranch(msg.id, (msg.branchIndex ?? 0) + 1)}
+                                                disabled={isStreaming || (msg.branchIndex ?? 0) === msg.branches.length - 1}
+                                                className="px-1.5 py-0.5 rounded hover:bg-zinc-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                                            >
+                                                &gt;
+                                            </button>
+                                        </div>
+                                    )}
+                                    {!isStreaming && (
+                                        <button
+                                            onClick={() => { setEditingMessageId(msg.id); setEditDraft(msg.text); }}
+                                            className="p-1 rounded-md opacity-0 group-hover:opacity-100 hover:bg-zinc-800 hover:text-white transition-opacity [&>svg]:w-3.5 [&>svg]:h-3.5"
+                                            title="Edit and resend"
+                                        >
+                                            <IconEdit />
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                          </>
+                          )
                       ) : (
                           <>
+                            {msg.route && <RouteBadge route={msg.route} />}
+                            {msg.thoughts && (
+                                <ThoughtPanel
+                                    thoughts={msg.thoughts}
+                                    thinkingMs={msg.thinkingMs}
+                                    active={isLast && isStreaming && msg.thinkingMs === undefined}
+                                />
+                            )}
                             <TypewriterMarkdown 
                                 content={msg.text} 
                                 isStreaming={shouldAnimate} 
+                                speed={settings.typingSpeed}
                             />
+                            {msg.stopped && (
+                                <div className="mt-2 text-xs text-zinc-500 font-mono">■ 已停止生成</div>
+                            )}
+                            {msg.error && (
+                                <StreamErrorNotice
+                                    error={msg.error}
+                                    onRetry={isLast && !isStreaming && !showSearch ? () => handleRegenerate() : undefined}
+                                    onOpenSettings={() => setView(AppView.SETTINGS)}
+                                />
+                            )}
                             {/* Render Search Sources */}
                             {msg.sources && msg.sources.length > 0 && (
                                 <div className="mt-4 pt-3 border-t border-zinc-800/50">
@@ -644,7 +1528,7 @@ const App: React.FC = () => {
                                         {msg.sources.map((source, i) => (
                                             <a 
                                                 key={i} 
-                                                href={source.uri} 
+                                                href={safeUrl(source.uri) ?? undefined} 
                                                 target="_blank" 
                                                 rel="noopener noreferrer"
                                                 className="group flex items-start gap-2 bg-zinc-900/30 hover:bg-zinc-800/50 border border-zinc-800/50 hover:border-zinc-600 rounded-lg p-2 transition-all"
@@ -660,18 +1544,48 @@ const App: React.FC = () => {
                                     </div>
                                 </div>
                             )}
+                            {isLast && !isStreaming && !showSearch && (
+                                <div className="flex items-center gap-1 mt-3 opacity-60 hover:opacity-100 transition-opacity">
+                                    {!msg.error && (
+                                        <button
+                                            onClick={() => handleRegenerate()}
+                                            className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors [&>svg]:w-3.5 [&>svg]:h-3.5"
+                                        >
+                                            <IconRefresh /> 重新生成
+                                        </button>
+                                    )}
+                                    {modeRegistry.modes.filter(m => m.id !== chatMode).map(m => (
+                                        <button
+                                            key={m.id}
+                                            onClick={() => handleRegenerate(m.id)}
+                                            className="w-6 h-6 flex items-center justify-center rounded-full text-xs text-zinc-500 hover:bg-zinc-800"
+                                            title={`Regenerate in ${m.label} mode`}
+                                        >
+                                            {m.icon}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                           </>
                       )}
                    </div>
                  </div>
               </div>
             </div>
+            {summaryActive && contextSummary.throughId === msg.id && <ContextSummaryNotice summary={contextSummary} />}
+            </React.Fragment>
           );
         })}
         
         {isThinking && !showSearch && (
             <div className="mb-8 animate-fade-in pl-12">
-                <ThinkingIndicator />
+                <ThinkingIndicator label={isSummarizing
+                    ? 'COMPRESSING CONTEXT'
+                    : isRouting
+                    ? 'CHOOSING MODE'
+                    : retryNotice
+                    ? `RETRY ${retryNotice.attempt}/${retryNotice.maxAttempts} · ${retryNotice.error.kind.toUpperCase()}`
+                    : undefined} />
             </div>
         )}
         
@@ -685,32 +1599,80 @@ const App: React.FC = () => {
                 <div className="flex justify-between items-center mb-2 px-2">
                     <div className="flex items-center space-x-2 bg-zinc-900/80 rounded-full px-2 py-1 border border-zinc-800/50">
                          {/* Compact Mode Selector */}
-                        {[
-                            { id: ChatMode.FAST, icon: '⚡' },
-                            { id: ChatMode.PRO, icon: '🧠' },
-                            { id: ChatMode.SEARCH, icon: '🔍' },
-                            { id: ChatMode.THINKING, icon: '🤔' }
-                        ].map((m) => (
+                        {[AUTO_MODE, ...modeRegistry.modes].map((m) => (
                             <button
                                 key={m.id}
-                                onClick={() => setChatMode(m.id as ChatMode)}
+                                onClick={() => selectMode(m.id)}
                                 className={`w-7 h-7 flex items-center justify-center rounded-full text-xs transition-all ${
-                                    chatMode === m.id 
+                                    (m.id === ChatMode.AUTO ? autoRoute : !autoRoute && chatMode === m.id)
                                     ? 'bg-white text-black shadow-md scale-110' 
+                                    : autoRoute && chatMode === m.id
+                                    ? 'ring-1 ring-zinc-500 text-zinc-300'
                                     : 'text-zinc-500 hover:bg-zinc-800 hover:text-white'
                                 }`}
-                                title={m.id}
+                                title={m.id === ChatMode.AUTO ? 'Auto: 按问题复杂度自动选择模式' : m.label}
                             >
                                 {m.icon}
                             </button>
                         ))}
                     </div>
+                    {messages.length > 0 && <ContextMeter usage={contextUsage} summarizing={isSummarizing} />}
+                    <SpeechControls
+                        status={speechStatus}
+                        onPause={() => speech.pause()}
+                        onResume={() => speech.resume()}
+                        onSkip={() => speech.skip()}
+                        onStop={() => speech.stop()}
+                    />
+                    <button
+                        onClick={() => setAttachSystemState(!attachSystemState)}
+                        className={`flex items-center gap-1.5 rounded-full px-3 py-1 border text-[11px] font-mono uppercase tracking-wider transition-all ${
+                            attachSystemState
+                            ? 'bg-green-500/10 border-green-500/40 text-green-400'
+                            : 'bg-zinc-900/80 border-zinc-800/50 text-zinc-500 hover:text-white'
+                        }`}
+                        title="Attach current hardware state to the next message"
+                    >
+                        <span className={`w-1.5 h-1.5 rounded-full ${attachSystemState ? 'bg-green-400' : 'bg-zinc-600'}`}></span>
+                        System State
+                    </button>
                 </div>
 
+                {modeThinks(activeMode) && (
+                    <ThinkingBudgetControl
+                        value={thinkingBudget}
+                        modeBudget={activeMode.thinkingBudget!}
+                        disabled={isStreaming}
+                        onChange={handleThinkingBudgetChange}
+                    />
+                )}
+
+                {pendingAttachments.length > 0 && (
+                    <div className="mb-2 px-2">
+                        <AttachmentList
+                            attachments={pendingAttachments}
+                            onRemove={(id) => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+                        />
+                    </div>
+                )}
+
                 <div className="bg-zinc-900/80 backdrop-blur-xl rounded-[2rem] p-1.5 pl-5 flex items-center border border-zinc-700/50 shadow-2xl relative">
-                    <button className="mr-3 text-zinc-400 hover:text-white transition-colors">
-                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isStreaming}
+                        className="mr-3 text-zinc-400 hover:text-white transition-colors disabled:opacity-50 [&>svg]:w-5 [&>svg]:h-5"
+                        title="Attach screenshots or log files"
+                    >
+                        <IconPaperclip />
                     </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        accept={ACCEPTED_FILE_TYPES}
+                        onChange={(e) => { handleFilesPicked(e.target.files); e.target.value = ''; }}
+                        className="hidden"
+                    />
                     
                     <input 
                         type="text" 
@@ -722,17 +1684,25 @@ const App: React.FC = () => {
                         className="bg-transparent flex-1 text-zinc-200 placeholder-zinc-500 outline-none text-base min-w-0 py-3 disabled:opacity-50"
                     />
                     
+                    <VoiceInputButton
+                        disabled={isStreaming || isThinking}
+                        onTranscript={handleTranscript}
+                        onError={triggerToast}
+                    />
                     <button 
-                        onClick={handleSend}
-                        disabled={isStreaming || isThinking || !input.trim()}
+                        onClick={isStreaming ? handleStop : handleSend}
+                        disabled={!isStreaming && !input.trim() && pendingAttachments.length === 0}
+                        title={isStreaming ? 'Stop generating' : 'Send'}
                         className={`w-8 h-8 rounded-full flex items-center justify-center text-black shrink-0 ml-2 transition-all duration-300 ${
-                            input.trim() && !isStreaming && !isThinking
+                            isStreaming
+                            ? 'bg-zinc-200 hover:bg-white [&>svg]:w-3.5 [&>svg]:h-3.5'
+                            : input.trim() || pendingAttachments.length > 0
                             ? 'bg-white hover:bg-zinc-200 shadow-[0_0_15px_rgba(255,255,255,0.3)]' 
                             : 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
                         }`}
                     >
-                        {isStreaming || isThinking ? (
-                            <div className="w-3.5 h-3.5 border-2 border-zinc-600 border-t-zinc-400 rounded-full animate-spin"></div>
+                        {isStreaming ? (
+                            <IconStop />
                         ) : (
                             <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
                                 <line x1="12" y1="19" x2="12" y2="5"></line>
@@ -755,47 +1725,46 @@ const App: React.FC = () => {
     </div>
   );
 
-  const Sidebar = () => (
-     <div className={`fixed inset-0 z-50 transition-transform duration-300 ${menuOpen ? 'translate-x-0' : '-translate-x-full'}`}>
-        <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setMenuOpen(false)}></div>
-        <div className="relative w-72 h-full bg-zinc-950 border-r border-zinc-800 p-6 flex flex-col shadow-2xl">
-           <h2 className="text-2xl font-bold text-white mb-10 tracking-widest border-b border-zinc-900 pb-4">V-D</h2>
-           <nav className="flex flex-col gap-2">
-              <button onClick={() => { setView(AppView.HOME); setMenuOpen(false); }} className={`flex items-center gap-4 text-left p-4 rounded-2xl transition-all ${view === AppView.HOME ? 'bg-white text-black font-bold shadow-lg shadow-white/10' : 'text-zinc-400 hover:bg-zinc-900 hover:text-white'}`}>
-                 <IconUser /> Home
-              </button>
-              <button onClick={() => { setView(AppView.MONITOR); setMenuOpen(false); }} className={`flex items-center gap-4 text-left p-4 rounded-2xl transition-all ${view === AppView.MONITOR ? 'bg-white text-black font-bold shadow-lg shadow-white/10' : 'text-zinc-400 hover:bg-zinc-900 hover:text-white'}`}>
-                 <IconActivity /> Monitor
-              </button>
-              <button onClick={() => { setView(AppView.CHAT); setMenuOpen(false); }} className={`flex items-center gap-4 text-left p-4 rounded-2xl transition-all ${view === AppView.CHAT ? 'bg-white text-black font-bold shadow-lg shadow-white/10' : 'text-zinc-400 hover:bg-zinc-900 hover:text-white'}`}>
-                 <IconTerminal /> Chat
-              </button>
-           </nav>
-           
-           <div className="mt-auto pt-6 border-t border-zinc-900">
-               <div className="text-xs text-zinc-600 font-mono">
-                   System Status: <span className="text-green-500">ONLINE</span><br/>
-                   Version: 3.2.0<br/>
-                   Mode: {chatMode}<br/>
-                   Region: zh-CN
-               </div>
-           </div>
-        </div>
-     </div>
-  );
-
   return (
     <div className="bg-black min-h-screen font-sans text-white flex justify-center">
-       <Sidebar />
+       <Sidebar
+          open={menuOpen}
+          view={view}
+          chatMode={autoRoute ? `${ChatMode.AUTO} (${chatMode})` : chatMode}
+          telemetryStatus={telemetryStatus}
+          conversations={conversations}
+          activeConversationId={activeConversation?.id || null}
+          onClose={() => setMenuOpen(false)}
+          onNavigate={(v) => { setView(v); setMenuOpen(false); }}
+          onNewChat={handleNewChat}
+          onOpenConversation={handleOpenConversation}
+          onRenameConversation={handleRenameConversation}
+          onDeleteConversation={handleDeleteConversation}
+       />
       <div className="w-full max-w-md h-screen flex flex-col bg-black relative shadow-2xl overflow-hidden border-x border-zinc-900">
         {renderHeader()}
+        <AlertToast event={alertToast} onAsk={handleAskAboutAlert} onDismiss={() => setAlertToast(null)} />
         
         <main className="flex-1 overflow-hidden relative">
           {view === AppView.HOME && renderHome()}
           {view === AppView.MONITOR && renderMonitor()}
           {view === AppView.CHAT && renderChat()}
+          {view === AppView.SETTINGS && renderSettings()}
+          {view === AppView.USAGE && renderUsage()}
         </main>
       </div>
+      {voiceMode && (
+        <VoiceConversation
+          busy={isStreaming || isThinking}
+          speechStatus={speechStatus}
+          userCaption={[...messages].reverse().find(m => m.role === 'user')?.text || ''}
+          replyCaption={messages[messages.length - 1]?.role === 'model' ? messages[messages.length - 1].text : ''}
+          onSend={(text) => processMessage(text)}
+          onBargeIn={handleBargeIn}
+          onSkip={() => speech.skip()}
+          onClose={handleCloseVoiceMode}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { AlertEvent, AlertRule, AlertTarget } from '../types';
+import { ALERT_TARGETS, describeRule, formatAlertEvent } from '../services/alerts';
+import { IconPlus, IconTrash, IconX } from './Icons';
+
+const SectionTitle = ({ title, action }: { title: string; action?: React.ReactNode }) => (
+  <div className="flex items-center justify-between mb-3">
+    <span className="text-xs text-zinc-500 font-mono uppercase tracking-wider">{title}</span>
+    {action}
+  </div>
+);
+
+const NumberField = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+    {label}
+    <input
+      type="number"
+      min={0}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value) || 0)}
+      className="bg-zinc-800 text-white rounded-md px-2 py-1 outline-none text-sm"
+    />
+  </label>
+);
+
+export const AlertRulesPanel = ({ rules, notificationsEnabled, onChange, onEnableNotifications }: {
+  rules: AlertRule[];
+  notificationsEnabled: boolean;
+  onChange: (rules: AlertRule[]) => void;
+  onEnableNotifications: () => void;
+}) => {
+  const [draft, setDraft] = useState<Omit<AlertRule, 'id' | 'enabled'> | null>(null);
+
+  const addRule = () => {
+    if (!draft) return;
+    onChange([...rules, { ...draft, id: `rule-${Date.now()}`, enabled: true }]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-4 border border-zinc-800 mb-4">
+      <SectionTitle
+        title="Alert Rules"
+        action={
+          <div className="flex items-center gap-3">
+            {!notificationsEnabled && (
+              <button onClick={onEnableNotifications} className="text-[10px] font-mono uppercase text-zinc-500 hover:text-white">
+                Enable Notifications
+              </button>
+            )}
+            <button
+              onClick={() => setDraft({ target: 'cpuTemp', operator: '>', threshold: 90, durationSec: 30, hysteresis: 3, cooldownSec: 300 })}
+              className="p-1 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 [&>svg]:w-4 [&>svg]:h-4"
+              title="Add rule"
+            >
+              <IconPlus />
+            </button>
+          </div>
+        }
+      />
+
+      <div className="flex flex-col gap-2">
+        {rules.length === 0 && <span className="text-xs text-zinc-700">暂无告警规则</span>}
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center gap-3 text-sm">
+            <button
+              onClick={() => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+              className={`w-8 h-4 rounded-full relative transition-colors shrink-0 ${rule.enabled ? 'bg-green-500' : 'bg-zinc-700'}`}
+              title={rule.enabled ? 'Disable' : 'Enable'}
+            >
+              <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${rule.enabled ? 'left-4' : 'left-0.5'}`}></span>
+            </button>
+            <span className={`flex-1 min-w-0 truncate ${rule.enabled ? 'text-zinc-200' : 'text-zinc-600'}`}>{describeRule(rule)}</span>
+            <button
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="p-1 rounded-md text-zinc-600 hover:text-red-400 hover:bg-zinc-800 [&>svg]:w-3.5 [&>svg]:h-3.5"
+              title="Delete rule"
+            >
+              <IconTrash />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="mt-4 pt-4 border-t border-zinc-800 flex flex-col gap-3">
+          <div className="flex gap-2">
+            <select
+              value={draft.target}
+              onChange={(e) => setDraft({ ...draft, target: e.target.value as AlertTarget })}
+              className="flex-1 bg-zinc-800 text-white rounded-md px-2 py-1 text-sm outline-none"
+            >
+              {ALERT_TARGETS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+            <select
+              value={draft.operator}
+              onChange={(e) => setDraft({ ...draft, operator: e.target.value as AlertRule['operator'] })}
+              className="w-14 bg-zinc-800 text-white rounded-md px-2 py-1 text-sm outline-none"
+            >
+              <option value=">">&gt;</option>
+              <option value="<">&lt;</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <NumberField label="Value" value={draft.threshold} onChange={(threshold) => setDraft({ ...draft, threshold })} />
+            <NumberField label="For (s)" value={draft.durationSec} onChange={(durationSec) => setDraft({ ...draft, durationSec })} />
+            <NumberField label="Hyst." value={draft.hysteresis} onChange={(hysteresis) => setDraft({ ...draft, hysteresis })} />
+            <NumberField label="Cool (s)" value={draft.cooldownSec} onChange={(cooldownSec) => setDraft({ ...draft, cooldownSec })} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-1 rounded-lg text-xs text-zinc-400 hover:bg-zinc-800">Cancel</button>
+            <button onClick={addRule} className="px-3 py-1 rounded-lg text-xs bg-white text-black font-medium hover:bg-zinc-200">Add</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AlertLog = ({ events, onAsk, onClear }: {
+  events: AlertEvent[];
+  onAsk: (event: AlertEvent) => void;
+  onClear: () => void;
+}) => (
+  <div className="bg-zinc-900 rounded-2xl p-4 border border-zinc-800 mb-4">
+    <SectionTitle
+      title="Alert Log"
+      action={events.length > 0 && (
+        <button onClick={onClear} className="text-[10px] font-mono uppercase text-zinc-500 hover:text-white">Clear</button>
+      )}
+    />
+    <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+      {events.length === 0 && <span className="text-xs text-zinc-700">暂无告警记录</span>}
+      {events.map(event => (
+        <div key={event.id} className="flex items-center gap-3 text-sm">
+          <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${event.kind === 'triggered' ? 'bg-amber-400' : 'bg-green-500'}`}></span>
+          <div className="flex-1 min-w-0">
+            <div className="text-zinc-200 truncate">{formatAlertEvent(event)}</div>
+            <div className="text-[10px] text-zinc-600 font-mono">{new Date(event.timestamp).toLocaleString()}</div>
+          </div>
+          {event.kind === 'triggered' && (
+            <button onClick={() => onAsk(event)} className="text-xs text-indigo-400 hover:text-indigo-300 whitespace-nowrap">Ask V-D</button>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export const AlertToast = ({ event, onAsk, onDismiss }: {
+  event: AlertEvent | null;
+  onAsk: (event: AlertEvent) => void;
+  onDismiss: () => void;
+}) => (
+  <div className={`fixed top-20 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-sm transition-all duration-300 ${event ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4 pointer-events-none'}`}>
+    {event && (
+      <div className="bg-zinc-900 text-white px-4 py-3 rounded-2xl border border-amber-500/40 shadow-xl flex items-center gap-3 text-sm">
+        <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse shrink-0"></span>
+        <span className="flex-1 min-w-0 truncate font-medium">{formatAlertEvent(event)}</span>
+        <button onClick={() => onAsk(event)} className="text-xs text-black bg-white rounded-full px-3 py-1 font-medium hover:bg-zinc-200 whitespace-nowrap">
+          Ask V-D about this
+        </button>
+        <button onClick={onDismiss} className="text-zinc-500 hover:text-white [&>svg]:w-4 [&>svg]:h-4">
+          <IconX />
+        </button>
+      </div>
+    )}
+  </div>
+);
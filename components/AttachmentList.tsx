@@ -0,0 +1,44 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { attachmentDataUrl, formatAttachmentSize } from '../services/attachments';
+import { IconFile, IconX } from './Icons';
+
+export const AttachmentList = ({ attachments, onRemove }: {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map(a => (
+      <div key={a.id} className="relative group/att">
+        {a.kind === 'image' ? (
+          <img
+            src={attachmentDataUrl(a)}
+            alt={a.name}
+            title={`${a.name} • ${formatAttachmentSize(a.size)}`}
+            className="w-16 h-16 object-cover rounded-lg border border-zinc-700"
+          />
+        ) : (
+          <div
+            className="flex items-center gap-2 h-10 max-w-[12rem] px-3 rounded-lg bg-zinc-800 border border-zinc-700 text-xs text-zinc-300 [&>svg]:w-4 [&>svg]:h-4 [&>svg]:shrink-0"
+            title={a.name}
+          >
+            <IconFile />
+            <div className="min-w-0">
+              <div className="truncate">{a.name}</div>
+              <div className="text-[10px] text-zinc-500 font-mono">{formatAttachmentSize(a.size)}</div>
+            </div>
+          </div>
+        )}
+        {onRemove && (
+          <button
+            onClick={() => onRemove(a.id)}
+            className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-zinc-700 text-white flex items-center justify-center hover:bg-red-500 transition-colors [&>svg]:w-3 [&>svg]:h-3"
+            title="Remove"
+          >
+            <IconX />
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { analyzeCommand, describeFindings, RiskLevel, RISK_LABELS, SHELL_LABELS } from '../services/commandSafety';
+import { highlightCode, highlightLanguageFor, TokenKind } from '../services/syntaxHighlight';
+
+const RISK_BADGE_CLASS: Record<RiskLevel, string> = {
+  safe: 'text-zinc-500 border-zinc-700',
+  caution: 'text-yellow-400 border-yellow-500/40 bg-yellow-500/10',
+  high: 'text-red-400 border-red-500/50 bg-red-500/10',
+};
+
+const TOKEN_CLASS: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-zinc-500 italic',
+  string: 'text-green-300',
+  keyword: 'text-purple-300',
+  command: 'text-sky-300',
+  variable: 'text-orange-300',
+  parameter: 'text-yellow-200',
+  number: 'text-amber-300',
+  operator: 'text-pink-300',
+  key: 'text-sky-300',
+};
+
+const IconCopy = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>
+);
+
+const IconCheck = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#4ade80" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>
+);
+
+interface CodeBlockProps {
+  code: string;
+  fenceLanguage: string; // Info string from the fence, e.g. "powershell"; may be empty
+}
+
+/**
+ * A fenced code block with highlighting, a risk badge for shell commands and a
+ * copy button that asks for confirmation before copying high-risk ones.
+ */
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, fenceLanguage }) => {
+  const [copied, setCopied] = useState(false);
+  const timerRef = useRef(0);
+  const analysis = useMemo(() => analyzeCommand(code, fenceLanguage), [code, fenceLanguage]);
+  const tokens = useMemo(() => {
+    const language = highlightLanguageFor(code, fenceLanguage);
+    return language ? highlightCode(code, language) : null;
+  }, [code, fenceLanguage]);
+
+  useEffect(() => () => window.clearTimeout(timerRef.current), []);
+
+  // Shell blocks always show what they are and how risky they are
+  const showBadge = analysis.language !== 'unknown' || analysis.findings.length > 0;
+
+  const handleCopy = () => {
+    if (analysis.level === 'high' && !window.confirm(`${describeFindings(analysis)}\n\n请确认理解以上风险后再复制。继续复制？`)) return;
+    navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      window.clearTimeout(timerRef.current);
+      timerRef.current = window.setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="code-block relative mb-4">
+      {showBadge && (
+        <span
+          className={`absolute top-2.5 right-11 z-[1] px-2 py-0.5 rounded-full border text-[10px] font-mono tracking-wider select-none ${RISK_BADGE_CLASS[analysis.level]}`}
+          title={analysis.findings.length > 0
+            ? analysis.findings.map(f => `${f.title}: ${f.explanation}`).join('\n')
+            : '未发现破坏性操作'}
+        >
+          {SHELL_LABELS[analysis.language]} · {RISK_LABELS[analysis.level]}
+        </span>
+      )}
+      <button
+        onClick={handleCopy}
+        className={`copy-btn absolute top-2 right-2 z-[1] p-1.5 rounded-lg bg-zinc-700/50 hover:bg-zinc-600 transition-all focus:opacity-100 cursor-pointer ${copied ? 'text-green-400' : 'text-zinc-400 hover:text-white'}`}
+        title={analysis.level === 'high' ? 'Copy (high risk)' : 'Copy'}
+      >
+        {copied ? <IconCheck /> : <IconCopy />}
+      </button>
+      <pre className={showBadge ? 'has-risk-badge' : ''}>
+        <code className={fenceLanguage ? `language-${fenceLanguage}` : undefined}>
+          {tokens
+            ? tokens.map((token, i) => token.kind === 'plain'
+                ? token.text
+                : <span key={i} className={TOKEN_CLASS[token.kind]}>{token.text}</span>)
+            : code}
+        </code>
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ContextSummary } from '../types';
+import { ContextUsage, formatTokens } from '../services/contextWindow';
+
+/** Estimated history size against the summarization budget, shown above the input. */
+export const ContextMeter = ({ usage, summarizing }: { usage: ContextUsage; summarizing: boolean }) => {
+  const ratio = Math.min(usage.tokens / usage.budget, 1);
+  const barClass = ratio >= 0.9 ? 'bg-red-400' : ratio >= 0.7 ? 'bg-yellow-400' : 'bg-zinc-400';
+
+  return (
+    <div
+      className="flex items-center gap-2 rounded-full px-3 py-1 border bg-zinc-900/80 border-zinc-800/50 text-[11px] font-mono uppercase tracking-wider text-zinc-500"
+      title={[
+        `估算上下文：${usage.tokens} / ${usage.budget} tokens`,
+        `逐字发送 ${usage.messageCount} 条消息`,
+        usage.summarizedCount > 0 ? `已压缩 ${usage.summarizedCount} 条较早消息（摘要约 ${usage.summaryTokens} tokens）` : '',
+        '超出预算时，较早的对话会自动压缩为摘要；置顶的消息不会被压缩',
+      ].filter(Boolean).join('\n')}
+    >
+      <span>CTX</span>
+      <div className="w-12 h-1 rounded-full bg-zinc-800 overflow-hidden">
+        <div className={`h-full ${barClass} transition-all`} style={{ width: `${ratio * 100}%` }}></div>
+      </div>
+      <span className={summarizing ? 'animate-pulse' : ''}>
+        {summarizing ? 'Compressing' : `${formatTokens(usage.tokens)} / ${formatTokens(usage.budget)}`}
+      </span>
+    </div>
+  );
+};
+
+/** Marks where older turns were folded into the summary; expands to show it. */
+export const ContextSummaryNotice = ({ summary }: { summary: ContextSummary }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mb-8 border border-dashed border-zinc-700 rounded-xl bg-zinc-900/40">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-4 py-2 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+      >
+        <span className="font-mono uppercase tracking-wider">Context Summary</span>
+        <span>以上 {summary.summarizedCount} 条消息已压缩为摘要，置顶消息仍完整发送</span>
+        <span className="ml-auto">{open ? '收起' : '查看摘要'}</span>
+      </button>
+      {open && (
+        <div className="px-4 pb-3 text-sm text-zinc-400 leading-relaxed whitespace-pre-wrap">{summary.text}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings, ModeDefinition, TtsVoice, AnswerLanguage, TypingSpeed } from '../types';
+import { ANSWER_LANGUAGES, PLAYBACK_RATE_RANGE, TTS_VOICES, TYPING_SPEEDS } from '../services/settings';
+import { CONTEXT_BUDGETS } from '../services/contextWindow';
+import { AUTO_MODE } from '../services/modeRouter';
+import { testGeminiApiKey } from '../services/providers';
+
+type KeyTest = { status: 'idle' | 'testing' | 'ok' } | { status: 'error'; detail: string };
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="flex items-center justify-between gap-4 py-2">
+    <span className="text-sm text-zinc-300">{label}</span>
+    {children}
+  </label>
+);
+
+const selectClass = "bg-zinc-800 text-white rounded-md px-2 py-1 outline-none text-sm";
+
+export const GeneralSettings = ({ settings, modes, onChange }: {
+  settings: AppSettings;
+  modes: ModeDefinition[];
+  onChange: (settings: AppSettings) => void;
+}) => {
+  const [keyDraft, setKeyDraft] = useState(settings.apiKey);
+  const [keyTest, setKeyTest] = useState<KeyTest>({ status: 'idle' });
+
+  useEffect(() => setKeyDraft(settings.apiKey), [settings.apiKey]);
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  const testKey = async () => {
+    setKeyTest({ status: 'testing' });
+    const result = await testGeminiApiKey(keyDraft.trim() || process.env.API_KEY || '');
+    setKeyTest('error' in result ? { status: 'error', detail: `${result.error.kind}: ${result.error.message}` } : { status: 'ok' });
+  };
+
+  return (
+    <>
+      <div className="bg-zinc-900 rounded-2xl p-4 border border-zinc-800 mb-4">
+        <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mb-3">Gemini API Key</span>
+        <input
+          type="password"
+          value={keyDraft}
+          onChange={(e) => { setKeyDraft(e.target.value); setKeyTest({ status: 'idle' }); }}
+          placeholder={process.env.API_KEY ? 'Using build-time key' : 'Paste your API key'}
+          className="w-full bg-zinc-800 text-white rounded-md px-3 py-2 outline-none text-sm font-mono placeholder-zinc-600"
+        />
+        <p className="text-[10px] text-zinc-600 mt-1">Stored in this browser only. Leave empty to use the build-time key.</p>
+
+        {keyTest.status === 'ok' && <div className="text-xs text-green-400 mt-2">Key is valid</div>}
+        {keyTest.status === 'error' && <div className="text-xs text-red-400 mt-2 break-words">{keyTest.detail}</div>}
+
+        <div className="flex justify-end gap-2 mt-3">
+          <button
+            onClick={testKey}
+            disabled={keyTest.status === 'testing'}
+            className="mr-auto px-3 py-1 rounded-lg text-xs text-zinc-400 hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {keyTest.status === 'testing' ? 'Testing…' : 'Test key'}
+          </button>
+          <button
+            onClick={() => update('apiKey', keyDraft.trim())}
+            disabled={keyDraft.trim() === settings.apiKey}
+            className="px-3 py-1 rounded-lg text-xs bg-white text-black font-medium hover:bg-zinc-200 disabled:opacity-30"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 rounded-2xl px-4 py-2 border border-zinc-800 mb-4">
+        <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mt-2 mb-1">Answers</span>
+        <Row label="回答语言">
+          <select
+            value={settings.answerLanguage}
+            onChange={(e) => update('answerLanguage', e.target.value as AnswerLanguage)}
+            className={selectClass}
+          >
+            {ANSWER_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
+        </Row>
+        <Row label="默认模式">
+          <select
+            value={settings.defaultMode}
+            onChange={(e) => update('defaultMode', e.target.value)}
+            className={selectClass}
+          >
+            <option value={AUTO_MODE.id}>{AUTO_MODE.icon} {AUTO_MODE.label}</option>
+            {modes.map(m => <option key={m.id} value={m.id}>{m.icon} {m.label}</option>)}
+          </select>
+        </Row>
+        <Row label="Auto 模式由模型辅助判断">
+          <input
+            type="checkbox"
+            checked={settings.autoTriage}
+            onChange={(e) => update('autoTriage', e.target.checked)}
+            title="规则无法确定时，先用 FAST 模型判断该用哪个模式（多一次请求）"
+          />
+        </Row>
+        <Row label="打字动画">
+          <select
+            value={settings.typingSpeed}
+            onChange={(e) => update('typingSpeed', e.target.value as TypingSpeed)}
+            className={selectClass}
+          >
+            {TYPING_SPEEDS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </Row>
+        <Row label="上下文预算">
+          <select
+            value={settings.contextBudget}
+            onChange={(e) => update('contextBudget', Number(e.target.value))}
+            className={selectClass}
+            title="历史消息超过此估算 token 数时，较早的对话会被压缩为摘要"
+          >
+            {CONTEXT_BUDGETS.map(b => <option key={b.value} value={b.value}>{b.label} tokens</option>)}
+          </select>
+        </Row>
+      </div>
+
+      <div className="bg-zinc-900 rounded-2xl px-4 py-2 border border-zinc-800 mb-4">
+        <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mt-2 mb-1">Speech</span>
+        <Row label="语音">
+          <select
+            value={settings.ttsVoice}
+            onChange={(e) => update('ttsVoice', e.target.value as TtsVoice)}
+            className={selectClass}
+          >
+            {TTS_VOICES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+          </select>
+        </Row>
+        <Row label={`播放速度 ${settings.playbackRate.toFixed(1)}×`}>
+          <input
+            type="range"
+            min={PLAYBACK_RATE_RANGE.min}
+            max={PLAYBACK_RATE_RANGE.max}
+            step={PLAYBACK_RATE_RANGE.step}
+            value={settings.playbackRate}
+            onChange={(e) => update('playbackRate', Number(e.target.value))}
+            className="w-32 accent-white"
+          />
+        </Row>
+        <Row label="默认自动朗读">
+          <input
+            type="checkbox"
+            checked={settings.autoRead}
+            onChange={(e) => update('autoRead', e.target.checked)}
+          />
+        </Row>
+        <Row label="语音输入后自动发送">
+          <input
+            type="checkbox"
+            checked={settings.voiceAutoSend}
+            onChange={(e) => update('voiceAutoSend', e.target.checked)}
+          />
+        </Row>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { splitMarkdownBlocks } from '../services/markdown';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+// Every parse goes through here so the test can see which sources were parsed
+const parsed = vi.hoisted(() => [] as string[]);
+vi.mock('marked', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('marked')>();
+  return {
+    ...actual,
+    parse: (source: string, options?: any) => {
+      parsed.push(source);
+      return actual.parse(source, options);
+    },
+  };
+});
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// A long troubleshooting answer mixing every block kind the splitter handles
+const generateAnswer = (sections: number): string => {
+  const parts: string[] = [];
+  for (let i = 1; i <= sections; i++) {
+    parts.push(
+      `## 第 ${i} 步：检查设备 ${i}`,
+      '',
+      `第 ${i} 段说明：打开**设备管理器**，确认显示适配器 ${i} 没有黄色感叹号，然后记录驱动版本。`,
+      '',
+      `1. 按下 Win + X，选择设备管理器（第 ${i} 次）`,
+      `2. 展开显示适配器 ${i}`,
+      '',
+      '```powershell',
+      `Get-PnpDevice -Class Display | Where-Object { $_.InstanceId -like "*${i}*" }`,
+      '',
+      `Get-CimInstance Win32_VideoController | Select-Object Name, DriverVersion # ${i}`,
+      '```',
+      '',
+      '| 项目 | 数值 |',
+      '| --- | ---: |',
+      `| 温度 | ${40 + i % 50}°C |`,
+      `| 功耗 | ${100 + i}W |`,
+      '',
+    );
+  }
+  return parts.join('\n');
+};
+
+describe('MarkdownRenderer streaming', () => {
+  let container: HTMLDivElement;
+  let root: ReturnType<typeof createRoot>;
+
+  beforeEach(() => {
+    parsed.length = 0;
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('parses each finished block of a multi-thousand-line answer exactly once', () => {
+    const answer = generateAnswer(200);
+    const lineCount = answer.split('\n').length;
+    expect(lineCount).toBeGreaterThan(3000);
+
+    const chunkSize = 160;
+    const started = performance.now();
+    let renders = 0;
+    for (let end = chunkSize; end < answer.length + chunkSize; end += chunkSize) {
+      const content = answer.slice(0, end);
+      act(() => root.render(<MarkdownRenderer content={content} streaming={end < answer.length} />));
+      renders++;
+    }
+    const elapsed = performance.now() - started;
+
+    const blocks = splitMarkdownBlocks(answer);
+    const parseCounts = new Map<string, number>();
+    for (const source of parsed) parseCounts.set(source, (parseCounts.get(source) || 0) + 1);
+    const reparsed = blocks.slice(0, -1).filter(block => parseCounts.get(block) !== 1);
+    expect(reparsed).toEqual([]);
+
+    // Each render parses at most the block being typed, never the whole answer again
+    const parsedChars = parsed.reduce((sum, source) => sum + source.length, 0);
+    const fullReparseChars = renders * answer.length / 2;
+    expect(parsed.length).toBeLessThanOrEqual(renders + blocks.length);
+    expect(parsedChars).toBeLessThan(fullReparseChars / 50);
+    console.info(
+      `${lineCount} lines, ${blocks.length} blocks, ${renders} renders: ${parsed.length} parses ` +
+      `(${parsedChars} chars, full re-render would be ${Math.round(fullReparseChars)}) in ${Math.round(elapsed)}ms`
+    );
+
+    expect(container.querySelectorAll('h2')).toHaveLength(200);
+    expect(container.querySelectorAll('table')).toHaveLength(200);
+    expect(container.textContent).toContain('第 200 步');
+  }, 60_000);
+
+  it('holds back a half-received table and shows it once the delimiter row arrives', () => {
+    act(() => root.render(<MarkdownRenderer content={'对比：\n\n| 型号 | 功耗 |\n| --'} streaming />));
+    expect(container.querySelector('table')).toBeNull();
+    expect(container.textContent).not.toContain('型号');
+
+    act(() => root.render(<MarkdownRenderer content={'对比：\n\n| 型号 | 功耗 |\n| --- | --- |\n| 4070 | 2'} streaming />));
+    expect(container.querySelectorAll('th')).toHaveLength(2);
+    expect(container.querySelectorAll('tbody tr')).toHaveLength(0);
+  });
+
+  it('renders an unclosed fence as code instead of text', () => {
+    act(() => root.render(<MarkdownRenderer content={'运行：\n\n```bash\nsudo apt update\n\nsudo apt upgrade'} streaming />));
+    expect(container.textContent).toContain('sudo apt upgrade');
+    expect(container.querySelector('p')?.textContent).toBe('运行：');
+    expect(container.querySelectorAll('p')).toHaveLength(1);
+  });
+});
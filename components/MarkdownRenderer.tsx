@@ -0,0 +1,76 @@
+import React, { memo, useMemo } from 'react';
+import { parse } from 'marked';
+import { sanitizeToElement, splitMarkdownBlocks, stabilizeStreamingBlock } from '../services/markdown';
+import { CodeBlock } from './CodeBlock';
+
+// Void elements take no children in React
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input']);
+// Whitespace between table rows and cells is invalid as React children
+const TABLE_SECTIONS = new Set(['table', 'thead', 'tbody', 'tr']);
+
+const elementProps = (el: Element, key: number): Record<string, unknown> => {
+  const props: Record<string, unknown> = { key };
+  for (const attr of Array.from(el.attributes)) {
+    switch (attr.name) {
+      case 'class': props.className = attr.value; break;
+      case 'align': props.style = { textAlign: attr.value }; break;
+      case 'start': props.start = Number(attr.value); break;
+      case 'referrerpolicy': props.referrerPolicy = attr.value; break;
+      case 'checked': props.checked = true; props.readOnly = true; break;
+      case 'disabled': props.disabled = true; break;
+      default: props[attr.name] = attr.value;
+    }
+  }
+  return props;
+};
+
+// The sanitized DOM only contains allowlisted tags and attributes, so it maps 1:1 onto React elements
+const toReact = (node: Node, key: number): React.ReactNode => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const parent = node.parentElement?.tagName.toLowerCase() || '';
+    return TABLE_SECTIONS.has(parent) && !node.textContent?.trim() ? null : node.textContent;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'pre') {
+    const code = el.querySelector('code');
+    const fence = code?.className.match(/language-(\S+)/)?.[1] || '';
+    return <CodeBlock key={key} code={(code || el).textContent?.replace(/\n$/, '') || ''} fenceLanguage={fence} />;
+  }
+
+  const children = VOID_TAGS.has(tag) ? undefined : Array.from(el.childNodes).map(toReact);
+  const element = React.createElement(tag, elementProps(el, key), children);
+  // Wide tables scroll on their own instead of stretching the message
+  return tag === 'table' ? <div key={key} className="table-wrap">{element}</div> : element;
+};
+
+const renderBlock = (source: string): React.ReactNode[] => {
+  const body = sanitizeToElement(parse(source) as string);
+  return Array.from(body.childNodes).map(toReact);
+};
+
+// Finished blocks keep the same source string, so memo skips them entirely
+const MarkdownBlock = memo(({ source }: { source: string }) => {
+  const nodes = useMemo(() => renderBlock(source), [source]);
+  return <>{nodes}</>;
+});
+
+/**
+ * Renders model markdown through the sanitizer; never injects raw HTML. Each
+ * top-level block is parsed once, so a streaming answer only re-parses its
+ * last block, which is also kept from showing half-typed fences and tables.
+ */
+export const MarkdownRenderer = ({ content, streaming = false }: { content: string; streaming?: boolean }) => {
+  const blocks = useMemo(() => splitMarkdownBlocks(content), [content]);
+  const last = blocks.length - 1;
+
+  return (
+    <div className="markdown-body">
+      {blocks.map((block, i) => (
+        <MarkdownBlock key={i} source={streaming && i === last ? stabilizeStreamingBlock(block) : block} />
+      ))}
+    </div>
+  );
+};
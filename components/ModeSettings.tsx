@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { ModeDefinition } from '../types';
+import { ModeRegistry, isBuiltInMode, validateModeEntry, BUILT_IN_MODES } from '../services/modeRegistry';
+import { IconPlus } from './Icons';
+
+const EMPTY_MODE: ModeDefinition = { id: '', label: '', icon: '✨', model: 'gemini-2.5-flash', tools: [] };
+
+// Number inputs where an empty field means "use the model default"
+const OptionalNumber = ({ label, value, step, onChange }: {
+  label: string;
+  value: number | undefined;
+  step?: number;
+  onChange: (value: number | undefined) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+    {label}
+    <input
+      type="number"
+      step={step}
+      value={value ?? ''}
+      placeholder="default"
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className="bg-zinc-800 text-white rounded-md px-2 py-1 outline-none text-sm normal-case placeholder-zinc-600"
+    />
+  </label>
+);
+
+const TextField = ({ label, value, disabled, onChange }: {
+  label: string;
+  value: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+    {label}
+    <input
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-zinc-800 text-white rounded-md px-2 py-1 outline-none text-sm normal-case disabled:opacity-50"
+    />
+  </label>
+);
+
+export const ModeSettings = ({ registry, onChange }: {
+  registry: ModeRegistry;
+  onChange: (entries: ModeDefinition[]) => void;
+}) => {
+  const [draft, setDraft] = useState<ModeDefinition | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const startEdit = (mode: ModeDefinition, fresh: boolean) => {
+    setDraft({ ...mode, tools: [...mode.tools] });
+    setIsNew(fresh);
+    setErrors([]);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const problems = validateModeEntry(draft);
+    if (isNew && registry.modes.some(m => m.id === draft.id)) problems.push(`id "${draft.id}" already exists`);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    onChange([...registry.entries.filter(e => e.id !== draft.id), draft]);
+    setDraft(null);
+  };
+
+  const remove = (id: string) => {
+    onChange(registry.entries.filter(e => e.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-4 border border-zinc-800 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-zinc-500 font-mono uppercase tracking-wider">AI Modes</span>
+        <button
+          onClick={() => startEdit(EMPTY_MODE, true)}
+          className="p-1 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 [&>svg]:w-4 [&>svg]:h-4"
+          title="Add mode"
+        >
+          <IconPlus />
+        </button>
+      </div>
+
+      {registry.errors.length > 0 && (
+        <div className="mb-3 p-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-300 flex flex-col gap-1">
+          {registry.errors.map((e, i) => <span key={i}>{e}</span>)}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        {registry.modes.map(mode => {
+          const builtIn = isBuiltInMode(mode.id);
+          const overridden = builtIn && registry.entries.some(e => e.id === mode.id);
+          return (
+            <div key={mode.id} className="flex items-center gap-3 px-2 py-2 rounded-xl hover:bg-zinc-800/50">
+              <span className="w-6 text-center">{mode.icon}</span>
+              <button onClick={() => startEdit(mode, false)} className="flex-1 min-w-0 text-left">
+                <div className="text-sm text-zinc-200 truncate">{mode.label}</div>
+                <div className="text-[10px] text-zinc-600 font-mono truncate">
+                  {mode.id} • {mode.model}{mode.tools.length > 0 ? ` • ${mode.tools.join(', ')}` : ''}
+                </div>
+              </button>
+              {overridden && (
+                <button onClick={() => remove(mode.id)} className="text-[10px] font-mono uppercase text-zinc-500 hover:text-white">Reset</button>
+              )}
+              {!builtIn && (
+                <button onClick={() => remove(mode.id)} className="text-[10px] font-mono uppercase text-zinc-500 hover:text-red-400">Delete</button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {draft && (
+        <div className="mt-4 pt-4 border-t border-zinc-800 flex flex-col gap-3">
+          <div className="grid grid-cols-[1fr_4rem] gap-2">
+            <TextField label="Id" value={draft.id} disabled={!isNew} onChange={(id) => setDraft({ ...draft, id })} />
+            <TextField label="Icon" value={draft.icon} onChange={(icon) => setDraft({ ...draft, icon })} />
+          </div>
+          <TextField label="Label" value={draft.label} onChange={(label) => setDraft({ ...draft, label })} />
+          <TextField label="Model" value={draft.model} onChange={(model) => setDraft({ ...draft, model })} />
+          <div className="grid grid-cols-3 gap-2">
+            <OptionalNumber label="Thinking" value={draft.thinkingBudget} onChange={(thinkingBudget) => setDraft({ ...draft, thinkingBudget })} />
+            <OptionalNumber label="Temp." step={0.1} value={draft.temperature} onChange={(temperature) => setDraft({ ...draft, temperature })} />
+            <OptionalNumber label="Max Out" value={draft.maxOutputTokens} onChange={(maxOutputTokens) => setDraft({ ...draft, maxOutputTokens })} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-zinc-300">
+            <input
+              type="checkbox"
+              checked={draft.tools.includes('googleSearch')}
+              onChange={(e) => setDraft({ ...draft, tools: e.target.checked ? ['googleSearch'] : [] })}
+            />
+            Google Search grounding
+          </label>
+
+          {errors.length > 0 && (
+            <div className="text-xs text-red-400 flex flex-col gap-0.5">
+              {errors.map((e, i) => <span key={i}>{e}</span>)}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {!isNew && isBuiltInMode(draft.id) && (
+              <button
+                onClick={() => setDraft({ ...(BUILT_IN_MODES.find(m => m.id === draft.id) as ModeDefinition) })}
+                className="mr-auto px-3 py-1 rounded-lg text-xs text-zinc-500 hover:bg-zinc-800"
+              >
+                Defaults
+              </button>
+            )}
+            <button onClick={() => setDraft(null)} className="px-3 py-1 rounded-lg text-xs text-zinc-400 hover:bg-zinc-800">Cancel</button>
+            <button onClick={save} className="px-3 py-1 rounded-lg text-xs bg-white text-black font-medium hover:bg-zinc-200">Save</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { MetricDefinition, MetricSample, MetricSummary } from '../services/metrics';
+
+const formatValue = (value: number, unit: string) => `${Math.round(value)}${unit}`;
+
+export const Sparkline = ({ samples, scaleMax, warning, windowMs, alert }: {
+  samples: MetricSample[];
+  scaleMax: number;
+  warning: number;
+  windowMs: number;
+  alert: boolean;
+}) => {
+  const now = samples.length > 0 ? samples[samples.length - 1].t : Date.now();
+  const x = (t: number) => 100 - ((now - t) / windowMs) * 100;
+  const y = (v: number) => 30 - (Math.min(v, scaleMax) / scaleMax) * 30;
+  const points = samples.map(s => `${x(s.t).toFixed(2)},${y(s.value).toFixed(2)}`).join(' ');
+
+  return (
+    <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-full h-10 overflow-visible">
+      <line x1="0" x2="100" y1={y(warning)} y2={y(warning)} stroke="#f59e0b" strokeOpacity="0.4" strokeWidth="0.5" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+      {samples.length > 1 && (
+        <polyline
+          points={points}
+          fill="none"
+          stroke={alert ? '#f59e0b' : '#ffffff'}
+          strokeWidth="1.5"
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+interface MetricCardProps {
+  metric: MetricDefinition;
+  value: number;
+  detail?: string;
+  warning: number;
+  samples: MetricSample[];
+  summary: MetricSummary | null;
+  windowMs: number;
+  editing: boolean;
+  onWarningChange: (value: number) => void;
+}
+
+export const MetricCard: React.FC<MetricCardProps> = ({ metric, value, detail, warning, samples, summary, windowMs, editing, onWarningChange }) => {
+  const alert = value >= warning;
+  const fill = Math.min(100, (value / metric.scaleMax) * 100);
+
+  return (
+    <div className={`bg-zinc-900 rounded-2xl p-5 border mb-4 transition-colors ${alert ? 'border-amber-500/50' : 'border-zinc-800'}`}>
+      <div className="flex justify-between items-end mb-2">
+        <span className="text-white font-medium text-lg">{metric.label}</span>
+        <span className={`font-bold text-lg ${alert ? 'text-amber-400' : 'text-white'}`}>{formatValue(value, metric.unit)}</span>
+      </div>
+      <div className="w-full bg-zinc-800 h-1.5 rounded-full mb-3">
+        <div
+          className={`h-1.5 rounded-full transition-all duration-500 ease-out ${alert ? 'bg-amber-400' : 'bg-white'}`}
+          style={{ width: `${fill}%` }}
+        ></div>
+      </div>
+
+      <Sparkline samples={samples} scaleMax={metric.scaleMax} warning={warning} windowMs={windowMs} alert={alert} />
+
+      <div className="flex justify-between items-center text-xs text-zinc-500 uppercase font-mono tracking-wide mt-2">
+        <span>
+          {summary
+            ? `MIN ${formatValue(summary.min, metric.unit)} · AVG ${formatValue(summary.avg, metric.unit)} · MAX ${formatValue(summary.max, metric.unit)}`
+            : 'NO DATA'}
+        </span>
+        <span className="truncate ml-2">{detail}</span>
+      </div>
+
+      {editing && (
+        <label className="flex items-center justify-between mt-3 pt-3 border-t border-zinc-800 text-xs text-zinc-400">
+          <span>Warning level ({metric.unit})</span>
+          <input
+            type="number"
+            min={1}
+            max={metric.scaleMax}
+            value={warning}
+            onChange={(e) => {
+              const next = Number(e.target.value);
+              if (Number.isFinite(next) && next > 0) onWarningChange(next);
+            }}
+            className="w-20 bg-zinc-800 text-white rounded-md px-2 py-1 outline-none text-right font-mono"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Playbook, PlaybookProgress } from '../types';
+import { getStep } from '../services/playbooks';
+import { IconX } from './Icons';
+
+/**
+ * Checklist for a running playbook, pinned above the chat. Answers move the
+ * playbook along its branches; the chat below carries the model's details.
+ */
+export const PlaybookPanel = ({ playbook, progress, disabled, onAnswer, onAskDetails, onExit }: {
+  playbook: Playbook;
+  progress: PlaybookProgress;
+  disabled: boolean; // An answer is streaming
+  onAnswer: (optionIndex: number) => void;
+  onAskDetails: () => void;
+  onExit: () => void;
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const step = getStep(playbook, progress.currentStepId);
+  const finished = !step;
+
+  return (
+    <div className="sticky top-0 z-10 mb-6 bg-zinc-950/95 backdrop-blur border border-zinc-800 rounded-2xl animate-fade-in">
+      <div className="flex items-center gap-2 px-4 py-3">
+        <button onClick={() => setCollapsed(!collapsed)} className="flex-1 flex items-center gap-2 text-left min-w-0">
+          <span>{playbook.icon}</span>
+          <span className="text-sm font-semibold text-white truncate">{playbook.title}</span>
+          <span className="text-[10px] font-mono tracking-widest text-zinc-500 uppercase shrink-0">
+            {finished ? 'Done' : `Step ${progress.answers.length + 1}`}
+          </span>
+          <span className={`text-zinc-500 text-xs transition-transform ${collapsed ? '' : 'rotate-180'}`}>▾</span>
+        </button>
+        <button
+          onClick={onExit}
+          className="p-1 rounded-full text-zinc-500 hover:text-white hover:bg-zinc-800 [&>svg]:w-3.5 [&>svg]:h-3.5"
+          title="Exit playbook"
+        >
+          <IconX />
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="px-4 pb-4 flex flex-col gap-3">
+          {progress.answers.length > 0 && (
+            <ol className="flex flex-col gap-1">
+              {progress.answers.map(answer => (
+                <li key={`${answer.stepId}-${answer.at}`} className="flex gap-2 text-xs">
+                  <span className="text-green-400">✓</span>
+                  <span className="text-zinc-400">{getStep(playbook, answer.stepId)?.title || answer.stepId}</span>
+                  <span className="text-zinc-600 truncate">— {answer.answer}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {step ? (
+            <div className="flex flex-col gap-2 border-t border-zinc-800 pt-3">
+              <span className="text-sm font-medium text-white">{step.title}</span>
+              <p className="text-xs text-zinc-400 leading-relaxed">{step.instruction}</p>
+              {step.command && (
+                <pre className="text-[11px] font-mono text-zinc-300 bg-black border border-zinc-800 rounded-lg px-3 py-2 overflow-x-auto whitespace-pre">{step.command}</pre>
+              )}
+              {step.expected && <p className="text-xs text-zinc-500">预期结果：{step.expected}</p>}
+              <span className="text-sm text-zinc-200 mt-1">{step.question}</span>
+              <div className="flex flex-wrap gap-2">
+                {step.options.map((option, index) => (
+                  <button
+                    key={option.label}
+                    onClick={() => onAnswer(index)}
+                    disabled={disabled}
+                    className="px-3 py-1.5 rounded-full text-xs font-medium bg-white text-black hover:bg-zinc-200 transition-colors disabled:opacity-40"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <button
+                  onClick={onAskDetails}
+                  disabled={disabled}
+                  className="px-3 py-1.5 rounded-full text-xs font-medium border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-40"
+                >
+                  问 V-D 详细步骤
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="border-t border-zinc-800 pt-3 text-xs text-zinc-300 leading-relaxed">
+              <span className="text-green-400 font-medium">排查完成。</span> {progress.outcome}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { PROVIDER_LABELS, ProviderConfig, ProviderId, testOpenAIConnection } from '../services/providers';
+
+type TestState = { status: 'idle' } | { status: 'testing' } | { status: 'ok'; detail: string } | { status: 'error'; detail: string };
+
+const Field = ({ label, value, type = 'text', placeholder, onChange }: {
+  label: string;
+  value: string;
+  type?: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+    {label}
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-zinc-800 text-white rounded-md px-2 py-1 outline-none text-sm normal-case placeholder-zinc-600"
+    />
+  </label>
+);
+
+export const ProviderSettings = ({ config, disabled, onChange }: {
+  config: ProviderConfig;
+  disabled?: boolean;
+  onChange: (config: ProviderConfig) => void;
+}) => {
+  const [draft, setDraft] = useState(config.openai);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+
+  useEffect(() => setDraft(config.openai), [config]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(config.openai);
+
+  const runTest = async () => {
+    setTest({ status: 'testing' });
+    const result = await testOpenAIConnection(draft);
+    if ('error' in result) {
+      setTest({ status: 'error', detail: `${result.error.kind}: ${result.error.message}` });
+    } else {
+      const { models } = result;
+      setTest({ status: 'ok', detail: models.length ? `${models.length} models: ${models.slice(0, 3).join(', ')}` : 'Connected' });
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-4 border border-zinc-800 mb-4">
+      <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mb-3">LLM Provider</span>
+
+      <div className="flex flex-col gap-1">
+        {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+          <label key={id} className={`flex items-center gap-3 px-2 py-2 rounded-xl text-sm ${disabled ? 'opacity-50' : 'hover:bg-zinc-800/50 cursor-pointer'}`}>
+            <input
+              type="radio"
+              name="provider"
+              checked={config.id === id}
+              disabled={disabled}
+              onChange={() => onChange({ ...config, id })}
+            />
+            <span className="text-zinc-200">{PROVIDER_LABELS[id]}</span>
+          </label>
+        ))}
+      </div>
+
+      {config.id === 'openai' && (
+        <div className="mt-3 pt-3 border-t border-zinc-800 flex flex-col gap-3">
+          <Field label="Base URL" value={draft.baseUrl} placeholder="http://localhost:8080/v1" onChange={(baseUrl) => setDraft({ ...draft, baseUrl })} />
+          <Field label="Model" value={draft.model} onChange={(model) => setDraft({ ...draft, model })} />
+          <Field label="API Key" type="password" value={draft.apiKey} placeholder="optional" onChange={(apiKey) => setDraft({ ...draft, apiKey })} />
+          <p className="text-[10px] text-zinc-600">All modes use this model; Google Search grounding is not available.</p>
+
+          {test.status !== 'idle' && (
+            <div className={`text-xs ${test.status === 'error' ? 'text-red-400' : test.status === 'ok' ? 'text-green-400' : 'text-zinc-500'}`}>
+              {test.status === 'testing' ? 'Testing…' : test.detail}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={runTest}
+              disabled={test.status === 'testing'}
+              className="mr-auto px-3 py-1 rounded-lg text-xs text-zinc-400 hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Test connection
+            </button>
+            <button
+              onClick={() => onChange({ ...config, openai: draft })}
+              disabled={!dirty || disabled}
+              className="px-3 py-1 rounded-lg text-xs bg-white text-black font-medium hover:bg-zinc-200 disabled:opacity-30"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
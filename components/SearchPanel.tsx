@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Conversation, ConversationSummary, Message, ModeDefinition, ModeId } from '../types';
+import { loadAllConversations } from '../services/conversationStore';
+import {
+  buildSearchIndex, documentsFromConversation, SearchDocument, SearchRole, SEARCH_DATE_RANGES
+} from '../services/search';
+
+type SearchScope = 'current' | 'all';
+
+const selectClass = "bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 outline-none focus:border-zinc-600";
+
+const formatResultTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+/**
+ * Ranked full-text search over the open conversation or every saved one.
+ * The query comes from the header input; filters live here.
+ */
+export const SearchPanel = ({ query, messages, activeConversation, mode, modes, conversations, onSelect }: {
+  query: string;
+  messages: Message[]; // Live messages of the open conversation, saved or not
+  activeConversation: { id: string; title: string; createdAt: number } | null;
+  mode: ModeId;
+  modes: ModeDefinition[];
+  conversations: ConversationSummary[]; // Changes whenever the store does
+  onSelect: (doc: SearchDocument) => void;
+}) => {
+  const [scope, setScope] = useState<SearchScope>('current');
+  const [role, setRole] = useState<SearchRole>('all');
+  const [modeFilter, setModeFilter] = useState<ModeId | 'all'>('all');
+  const [range, setRange] = useState(SEARCH_DATE_RANGES[0].id);
+  const [stored, setStored] = useState<Conversation[]>([]);
+
+  useEffect(() => {
+    if (scope !== 'all') return;
+    let cancelled = false;
+    loadAllConversations().then(all => { if (!cancelled) setStored(all); });
+    return () => { cancelled = true; };
+  }, [scope, conversations]);
+
+  const index = useMemo(() => {
+    const current: Conversation | null = messages.length > 0 ? {
+      id: activeConversation?.id ?? '',
+      title: activeConversation?.title ?? '当前对话',
+      createdAt: activeConversation?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+      mode,
+      messages,
+    } : null;
+    // The open conversation may be ahead of its saved copy
+    const sources = scope === 'all' ? stored.filter(c => c.id !== current?.id) : [];
+    if (current) sources.push(current);
+    return buildSearchIndex(sources.flatMap(documentsFromConversation));
+  }, [scope, stored, messages, activeConversation, mode]);
+
+  const results = useMemo(() => {
+    const ms = SEARCH_DATE_RANGES.find(r => r.id === range)?.ms ?? null;
+    return index.search(query, { role, mode: modeFilter, since: ms === null ? null : Date.now() - ms });
+  }, [index, query, role, modeFilter, range]);
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="flex gap-1 bg-zinc-900 rounded-full p-1 border border-zinc-800">
+          {([['current', '本对话'], ['all', '全部对话']] as [SearchScope, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setScope(id)}
+              className={`px-3 py-1 rounded-full text-xs transition-all ${scope === id ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <select value={role} onChange={(e) => setRole(e.target.value as SearchRole)} className={selectClass}>
+          <option value="all">全部角色</option>
+          <option value="user">我的提问</option>
+          <option value="model">V-D 回答</option>
+        </select>
+        <select value={modeFilter} onChange={(e) => setModeFilter(e.target.value)} className={selectClass}>
+          <option value="all">全部模式</option>
+          {modes.map(m => <option key={m.id} value={m.id}>{m.icon} {m.label}</option>)}
+        </select>
+        <select value={range} onChange={(e) => setRange(e.target.value)} className={selectClass}>
+          {SEARCH_DATE_RANGES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+        </select>
+        {query.trim() && <span className="text-xs text-zinc-600 font-mono ml-auto">{results.length} RESULTS</span>}
+      </div>
+
+      {!query.trim() ? (
+        <p className="text-sm text-zinc-600 text-center py-12">输入关键词搜索{scope === 'all' ? '所有已保存的对话' : '当前对话'}</p>
+      ) : results.length === 0 ? (
+        <p className="text-sm text-zinc-600 text-center py-12">没有找到匹配的消息</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {results.map(({ doc, snippet }) => (
+            <li key={`${doc.conversationId}:${doc.messageId}`}>
+              <button
+                onClick={() => onSelect(doc)}
+                className="w-full text-left bg-zinc-900/60 hover:bg-zinc-900 border border-zinc-800 hover:border-zinc-700 rounded-xl px-4 py-3 transition-colors"
+              >
+                <div className="flex items-center gap-2 mb-1 text-xs">
+                  <span className={doc.role === 'user' ? 'text-indigo-300' : 'text-zinc-300'}>{doc.role === 'user' ? 'You' : 'V-D'}</span>
+                  {scope === 'all' && <span className="text-zinc-500 truncate">{doc.conversationTitle}</span>}
+                  <span className="text-zinc-600 ml-auto shrink-0">{formatResultTime(doc.timestamp)}</span>
+                </div>
+                <p className="text-sm text-zinc-400 leading-relaxed break-words">
+                  {snippet.map((part, i) => part.match
+                    ? <mark key={i} className="bg-yellow-500/25 text-white rounded px-0.5">{part.text}</mark>
+                    : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { AppView, ModeId, ConversationSummary, TelemetryStatus } from '../types';
+import { IconUser, IconActivity, IconTerminal, IconEdit, IconTrash, IconPlus, IconSettings, IconBarChart } from './Icons';
+
+interface SidebarProps {
+  open: boolean;
+  view: AppView;
+  chatMode: ModeId;
+  telemetryStatus: TelemetryStatus;
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  onClose: () => void;
+  onNavigate: (view: AppView) => void;
+  onNewChat: () => void;
+  onOpenConversation: (id: string) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDeleteConversation: (id: string) => void;
+}
+
+const NavButton = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) => (
+  <button onClick={onClick} className={`flex items-center gap-4 text-left p-4 rounded-2xl transition-all ${active ? 'bg-white text-black font-bold shadow-lg shadow-white/10' : 'text-zinc-400 hover:bg-zinc-900 hover:text-white'}`}>
+    {children}
+  </button>
+);
+
+const STATUS_COLOR: Record<TelemetryStatus, string> = {
+  online: 'text-green-500',
+  connecting: 'text-zinc-400',
+  stale: 'text-yellow-500',
+  disconnected: 'text-red-500',
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { month: '2-digit', day: '2-digit' });
+
+export const Sidebar = ({
+  open, view, chatMode, telemetryStatus, conversations, activeConversationId,
+  onClose, onNavigate, onNewChat, onOpenConversation, onRenameConversation, onDeleteConversation
+}: SidebarProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (conv: ConversationSummary) => {
+    setEditingId(conv.id);
+    setDraftTitle(conv.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRenameConversation(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className={`fixed inset-0 z-50 transition-transform duration-300 ${open ? 'translate-x-0' : '-translate-x-full'}`}>
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-72 h-full bg-zinc-950 border-r border-zinc-800 p-6 flex flex-col shadow-2xl">
+        <h2 className="text-2xl font-bold text-white mb-10 tracking-widest border-b border-zinc-900 pb-4">V-D</h2>
+        <nav className="flex flex-col gap-2">
+          <NavButton active={view === AppView.HOME} onClick={() => onNavigate(AppView.HOME)}>
+            <IconUser /> Home
+          </NavButton>
+          <NavButton active={view === AppView.MONITOR} onClick={() => onNavigate(AppView.MONITOR)}>
+            <IconActivity /> Monitor
+          </NavButton>
+          <NavButton active={view === AppView.CHAT} onClick={() => onNavigate(AppView.CHAT)}>
+            <IconTerminal /> Chat
+          </NavButton>
+          <NavButton active={view === AppView.USAGE} onClick={() => onNavigate(AppView.USAGE)}>
+            <IconBarChart /> Usage
+          </NavButton>
+          <NavButton active={view === AppView.SETTINGS} onClick={() => onNavigate(AppView.SETTINGS)}>
+            <IconSettings /> Settings
+          </NavButton>
+        </nav>
+
+        {/* Conversation History */}
+        <div className="flex items-center justify-between mt-8 mb-2">
+          <span className="text-xs text-zinc-500 font-mono uppercase tracking-wider">History</span>
+          <button onClick={onNewChat} className="p-1 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors [&>svg]:w-4 [&>svg]:h-4" title="New chat">
+            <IconPlus />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto -mx-2 flex flex-col gap-1">
+          {conversations.length === 0 && (
+            <span className="text-xs text-zinc-700 px-2 py-2">暂无历史对话</span>
+          )}
+          {conversations.map(conv => (
+            <div
+              key={conv.id}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-xl transition-colors ${conv.id === activeConversationId ? 'bg-zinc-900 text-white' : 'text-zinc-400 hover:bg-zinc-900/60 hover:text-white'}`}
+            >
+              {editingId === conv.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-zinc-800 text-white text-sm rounded-md px-2 py-1 outline-none"
+                />
+              ) : (
+                <button onClick={() => onOpenConversation(conv.id)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm truncate">{conv.title}</div>
+                  <div className="text-[10px] text-zinc-600 font-mono">{formatDate(conv.createdAt)} • {conv.mode}</div>
+                </button>
+              )}
+              {editingId !== conv.id && (
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity [&_svg]:w-3.5 [&_svg]:h-3.5">
+                  <button onClick={() => startRename(conv)} className="p-1 rounded-md hover:bg-zinc-800 hover:text-white" title="Rename">
+                    <IconEdit />
+                  </button>
+                  <button
+                    onClick={() => { if (window.confirm(`删除对话「${conv.title}」？`)) onDeleteConversation(conv.id); }}
+                    className="p-1 rounded-md hover:bg-zinc-800 hover:text-red-400"
+                    title="Delete"
+                  >
+                    <IconTrash />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="pt-6 border-t border-zinc-900">
+          <div className="text-xs text-zinc-600 font-mono">
+            System Status: <span className={STATUS_COLOR[telemetryStatus]}>{telemetryStatus.toUpperCase()}</span><br/>
+            Version: 3.2.0<br/>
+            Mode: {chatMode}<br/>
+            Region: zh-CN
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
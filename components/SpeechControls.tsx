@@ -0,0 +1,30 @@
+import React from 'react';
+import { SpeechStatus } from '../services/speechPlayer';
+import { IconPause, IconPlay, IconSkip, IconX } from './Icons';
+
+const buttonClass = "p-1.5 rounded-full text-zinc-300 hover:text-white hover:bg-zinc-700 transition-colors [&>svg]:w-3.5 [&>svg]:h-3.5";
+
+export const SpeechControls = ({ status, onPause, onResume, onSkip, onStop }: {
+  status: SpeechStatus;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}) => {
+  if (status.state === 'idle') return null;
+
+  return (
+    <div className="flex items-center gap-1 bg-zinc-900/90 border border-zinc-800 rounded-full pl-3 pr-1 py-0.5 animate-fade-in">
+      <span className={`text-[10px] font-mono tracking-wider mr-1 ${status.state === 'playing' ? 'text-green-400' : 'text-zinc-500'}`}>
+        {status.state === 'loading' ? 'LOADING' : status.state === 'paused' ? 'PAUSED' : 'READING'} {status.clip}/{status.total || '…'}
+      </span>
+      {status.state === 'paused' ? (
+        <button onClick={onResume} className={buttonClass} title="Resume"><IconPlay /></button>
+      ) : (
+        <button onClick={onPause} className={buttonClass} title="Pause"><IconPause /></button>
+      )}
+      <button onClick={onSkip} className={buttonClass} title="Skip sentence"><IconSkip /></button>
+      <button onClick={onStop} className={buttonClass} title="Stop reading"><IconX /></button>
+    </div>
+  );
+};
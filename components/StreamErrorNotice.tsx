@@ -0,0 +1,74 @@
+import React from 'react';
+import { StreamError, StreamErrorKind } from '../types';
+import { IconRefresh, IconSettings } from './Icons';
+
+const ERROR_STYLE: Record<StreamErrorKind, { title: string; hint: string; className: string }> = {
+  network: {
+    title: '网络连接中断',
+    hint: '请检查网络连接后重试。',
+    className: 'border-orange-500/30 bg-orange-500/10 text-orange-300',
+  },
+  auth: {
+    title: 'API Key 无效',
+    hint: '请在设置中检查或更换 API Key。',
+    className: 'border-red-500/30 bg-red-500/10 text-red-300',
+  },
+  quota: {
+    title: '请求过于频繁或配额已用尽',
+    hint: '请稍等片刻再试，或检查账户配额。',
+    className: 'border-yellow-500/30 bg-yellow-500/10 text-yellow-300',
+  },
+  safety: {
+    title: '回答被安全策略拦截',
+    hint: '请换一种方式描述问题。',
+    className: 'border-purple-500/30 bg-purple-500/10 text-purple-300',
+  },
+  model: {
+    title: '模型不存在',
+    hint: '请在设置中检查当前模式的模型名称，或切换模式。',
+    className: 'border-zinc-600 bg-zinc-800/50 text-zinc-300',
+  },
+  unavailable: {
+    title: '模型暂时不可用',
+    hint: '服务繁忙，可稍后重试或切换模式。',
+    className: 'border-zinc-600 bg-zinc-800/50 text-zinc-300',
+  },
+  unknown: {
+    title: '生成失败',
+    hint: '发生未知错误，请重试。',
+    className: 'border-red-500/30 bg-red-500/10 text-red-300',
+  },
+};
+
+export const StreamErrorNotice = ({ error, onRetry, onOpenSettings }: {
+  error: StreamError;
+  onRetry?: () => void; // Omitted when retrying isn't possible right now
+  onOpenSettings: () => void;
+}) => {
+  const style = ERROR_STYLE[error.kind] || ERROR_STYLE.unknown;
+  return (
+    <div className={`mt-3 p-3 rounded-xl border text-sm ${style.className}`}>
+      <div className="font-medium">{style.title}</div>
+      <div className="text-xs opacity-80 mt-0.5">{style.hint}</div>
+      <div className="text-[10px] font-mono opacity-50 mt-1 break-words line-clamp-2" title={error.message}>{error.message}</div>
+      <div className="flex gap-2 mt-2">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs bg-white/10 hover:bg-white/20 text-white transition-colors [&>svg]:w-3.5 [&>svg]:h-3.5"
+          >
+            <IconRefresh /> 重试
+          </button>
+        )}
+        {(error.kind === 'auth' || error.kind === 'model') && (
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs bg-white/10 hover:bg-white/20 text-white transition-colors [&>svg]:w-3.5 [&>svg]:h-3.5"
+          >
+            <IconSettings /> 设置
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
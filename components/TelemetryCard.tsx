@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { MetricId, MetricTrend, TelemetryAttachment } from '../types';
+import { getMetric } from '../services/metrics';
+import { IconActivity } from './Icons';
+
+export const TelemetryCard = ({ telemetry }: { telemetry: TelemetryAttachment }) => {
+  const [open, setOpen] = useState(false);
+  const ids = Object.keys(telemetry.trends) as MetricId[];
+
+  return (
+    <div className="mt-2 max-w-sm bg-zinc-950 border border-zinc-800 rounded-xl overflow-hidden text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-zinc-400 hover:text-white hover:bg-zinc-900 transition-colors [&>svg]:w-3.5 [&>svg]:h-3.5"
+      >
+        <IconActivity />
+        <span className="font-mono uppercase tracking-wider">System State</span>
+        <span className={`ml-1 px-1.5 rounded border text-[10px] font-mono ${telemetry.source === 'agent' ? 'text-green-400 border-green-500/30' : 'text-zinc-500 border-zinc-700'}`}>
+          {telemetry.source === 'agent' ? 'LIVE' : 'SIM'}
+        </span>
+        <span className="ml-auto text-zinc-600">{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 pt-1 border-t border-zinc-900">
+          <div className="text-zinc-500 mb-2 truncate">
+            {telemetry.device.cpuName} • {telemetry.device.gpuName}
+          </div>
+          <table className="w-full font-mono text-[11px]">
+            <thead>
+              <tr className="text-zinc-600 text-left">
+                <th className="font-normal pb-1">Metric</th>
+                <th className="font-normal pb-1 text-right">Now</th>
+                <th className="font-normal pb-1 text-right">Min</th>
+                <th className="font-normal pb-1 text-right">Avg</th>
+                <th className="font-normal pb-1 text-right">Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ids.map(id => {
+                const trend = telemetry.trends[id] as MetricTrend;
+                const { label, unit } = getMetric(id);
+                return (
+                  <tr key={id} className="text-zinc-300">
+                    <td className="py-0.5 font-sans">{label}</td>
+                    <td className="text-right">{Math.round(trend.current)}{unit}</td>
+                    <td className="text-right text-zinc-500">{Math.round(trend.min)}</td>
+                    <td className="text-right text-zinc-500">{Math.round(trend.avg)}</td>
+                    <td className="text-right text-zinc-500">{Math.round(trend.max)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="text-zinc-600 mt-2">
+            {new Date(telemetry.capturedAt).toLocaleTimeString()} • last {Math.round(telemetry.trendWindowMs / 60_000)} min
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
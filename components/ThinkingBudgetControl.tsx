@@ -0,0 +1,37 @@
+import React from 'react';
+import { THINKING_BUDGET_RANGE } from '../services/modeRegistry';
+import { formatTokens } from '../services/contextWindow';
+
+/** This conversation's thinking budget; null falls back to the mode's own setting. */
+export const ThinkingBudgetControl = ({ value, modeBudget, disabled, onChange }: {
+  value: number | null;
+  modeBudget: number; // -1 means the model decides
+  disabled: boolean;
+  onChange: (budget: number | null) => void;
+}) => {
+  const { min, max, step } = THINKING_BUDGET_RANGE;
+  const shown = value ?? (modeBudget > 0 ? Math.min(Math.max(modeBudget, min), max) : max);
+
+  return (
+    <div className="flex items-center gap-3 mb-2 px-2 text-[11px] font-mono uppercase tracking-wider text-zinc-500">
+      <span>Thinking Budget</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={shown}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 max-w-48 accent-white disabled:opacity-50"
+        title="本对话中模型可用于思考的 token 上限；越高越深入，也越慢、越贵"
+      />
+      <span className="w-12 text-zinc-300">{value === null && modeBudget < 0 ? 'Auto' : formatTokens(shown)}</span>
+      {value !== null && (
+        <button onClick={() => onChange(null)} disabled={disabled} className="normal-case tracking-normal text-zinc-500 hover:text-white disabled:opacity-50">
+          恢复模式默认
+        </button>
+      )}
+    </div>
+  );
+};
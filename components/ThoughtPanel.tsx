@@ -0,0 +1,48 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDuration } from '../services/usage';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+/**
+ * The model's reasoning summary above its answer. Open while the model is
+ * still thinking, collapsed once the answer starts unless the user opened it.
+ */
+export const ThoughtPanel = ({ thoughts, thinkingMs, active }: {
+  thoughts: string;
+  thinkingMs?: number; // Final duration; absent while thinking
+  active: boolean;
+}) => {
+  const [open, setOpen] = useState<boolean | null>(null); // null follows `active`
+  // Counts from the first thought, which is as close to the request as the panel sees
+  const startedAtRef = useRef(Date.now());
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setInterval(() => setElapsed(Date.now() - startedAtRef.current), 100);
+    return () => window.clearInterval(timer);
+  }, [active]);
+
+  const expanded = open ?? active;
+
+  return (
+    <div className="mb-3">
+      <button
+        onClick={() => setOpen(!expanded)}
+        className="flex items-center gap-2 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+      >
+        <span className={`text-[10px] transition-transform ${expanded ? 'rotate-90' : ''}`}>▶</span>
+        <span className="font-mono uppercase tracking-wider">Reasoning</span>
+        {active ? (
+          <span className="animate-pulse">思考中 {formatDuration(elapsed)}</span>
+        ) : thinkingMs !== undefined && (
+          <span>思考了 {formatDuration(thinkingMs)}</span>
+        )}
+      </button>
+      {expanded && (
+        <div className="mt-2 pl-3 border-l-2 border-zinc-800 text-sm text-zinc-500 [&_.markdown-body]:text-zinc-500">
+          <MarkdownRenderer content={thoughts} streaming={active} />
+        </div>
+      )}
+    </div>
+  );
+};
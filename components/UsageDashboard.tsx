@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Conversation, ConversationSummary, Message, ModeDefinition, ModeId, ModelPrice } from '../types';
+import { loadAllConversations } from '../services/conversationStore';
+import { formatTokens } from '../services/contextWindow';
+import {
+  DEFAULT_PRICES, UsageTotals, dailyUsage, formatCost, formatDuration, groupUsage, sumUsage, usageByMode, usageEntries
+} from '../services/usage';
+
+const RANGES = [
+  { days: 7, label: '7 天' },
+  { days: 30, label: '30 天' },
+];
+
+// Bars are stacked by mode; colors follow the mode's position in the registry
+const MODE_COLORS = ['bg-sky-400', 'bg-purple-400', 'bg-green-400', 'bg-amber-400', 'bg-pink-400', 'bg-teal-400'];
+
+const inputClass = "bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 outline-none focus:border-zinc-600";
+
+const averageFirstToken = (totals: UsageTotals) =>
+  totals.timedReplies > 0 ? formatDuration(totals.firstTokenMs / totals.timedReplies) : '—';
+
+const averageTotal = (totals: UsageTotals) =>
+  totals.timedReplies > 0 ? formatDuration(totals.totalMs / totals.timedReplies) : '—';
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="bg-zinc-900 rounded-2xl px-4 py-3 border border-zinc-800">
+    <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mb-1">{label}</span>
+    <span className="block text-xl font-bold text-white">{value}</span>
+    {detail && <span className="block text-xs text-zinc-600 mt-0.5">{detail}</span>}
+  </div>
+);
+
+/**
+ * Token and estimated cost totals from saved conversations, by day, mode and
+ * conversation, with the editable price table the estimates come from.
+ */
+export const UsageDashboard = ({ messages, activeConversation, mode, conversations, modes, prices, onPricesChange }: {
+  messages: Message[]; // Live messages of the open conversation, saved or not
+  activeConversation: { id: string; title: string; createdAt: number } | null;
+  mode: ModeId;
+  conversations: ConversationSummary[]; // Changes whenever the store does
+  modes: ModeDefinition[];
+  prices: ModelPrice[];
+  onPricesChange: (prices: ModelPrice[]) => void;
+}) => {
+  const [days, setDays] = useState(RANGES[0].days);
+  const [stored, setStored] = useState<Conversation[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAllConversations().then(all => { if (!cancelled) setStored(all); });
+    return () => { cancelled = true; };
+  }, [conversations]);
+
+  const entries = useMemo(() => {
+    const live: Conversation | null = messages.length > 0 ? {
+      id: activeConversation?.id ?? '',
+      title: activeConversation?.title ?? '当前对话',
+      createdAt: activeConversation?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+      mode,
+      messages,
+    } : null;
+    // The open conversation may be ahead of its saved copy
+    const sources = stored.filter(c => c.id !== live?.id);
+    if (live) sources.push(live);
+    return sources.flatMap(usageEntries);
+  }, [stored, messages, activeConversation, mode]);
+
+  const daily = useMemo(() => dailyUsage(entries, days, prices), [entries, days, prices]);
+  const inRange = useMemo(() => {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+    return entries.filter(e => e.timestamp >= since.getTime());
+  }, [entries, days]);
+  const totals = useMemo(() => sumUsage(inRange, prices), [inRange, prices]);
+  const byMode = useMemo(() => usageByMode(inRange, prices), [inRange, prices]);
+  const byConversation = useMemo(() => groupUsage(inRange, e => e.conversationId, prices).slice(0, 8), [inRange, prices]);
+
+  // Without any prices, bars fall back to token counts
+  const barValue = (t: UsageTotals) => totals.cost > 0 ? t.cost : t.promptTokens + t.outputTokens + t.thinkingTokens;
+  const maxBar = Math.max(...daily.map(d => barValue(d.totals)), 0);
+  const modeIndex = (id: string) => Math.max(modes.findIndex(m => m.id === id), 0) % MODE_COLORS.length;
+  const modeLabel = (id: string) => {
+    const definition = modes.find(m => m.id === id);
+    return definition ? `${definition.icon} ${definition.label}` : id;
+  };
+  const titleOf = (id: string) => inRange.find(e => e.conversationId === id)?.conversationTitle || id;
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) =>
+    onPricesChange(prices.map((p, i) => i === index ? { ...p, ...patch } : p));
+
+  return (
+    <div className="flex-1 overflow-y-auto pb-4">
+      <div className="flex gap-1 bg-zinc-900 rounded-full p-1 border border-zinc-800 w-fit mb-4">
+        {RANGES.map(r => (
+          <button
+            key={r.days}
+            onClick={() => setDays(r.days)}
+            className={`px-3 py-1 rounded-full text-xs font-mono transition-all ${days === r.days ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <Stat
+          label="Est. Cost"
+          value={formatCost(totals.cost)}
+          detail={totals.unpriced > 0 ? `${totals.unpriced} 条回答的模型未定价` : undefined}
+        />
+        <Stat label="Replies" value={String(totals.replies)} detail={totals.untracked > 0 ? `${totals.untracked} 条无 token 数据` : undefined} />
+        <Stat
+          label="Tokens"
+          value={formatTokens(totals.promptTokens + totals.outputTokens + totals.thinkingTokens)}
+          detail={`输入 ${formatTokens(totals.promptTokens)} · 输出 ${formatTokens(totals.outputTokens)} · 思考 ${formatTokens(totals.thinkingTokens)}`}
+        />
+        <Stat label="Avg TTFT" value={averageFirstToken(totals)} detail={`完整回答平均 ${averageTotal(totals)}`} />
+      </div>
+
+      <div className="bg-zinc-900 rounded-2xl px-4 py-3 border border-zinc-800 mb-4">
+        <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mb-3">
+          Daily {totals.cost > 0 ? 'Cost' : 'Tokens'}
+        </span>
+        <div className="flex items-end gap-1 h-32">
+          {daily.map(d => {
+            const value = barValue(d.totals);
+            return (
+              <div
+                key={d.day}
+                className="flex-1 h-full flex flex-col justify-end"
+                title={`${d.day}\n${d.byMode.map(m => `${modeLabel(m.key)}: ${formatCost(m.totals.cost)} · ${m.totals.replies} 条`).join('\n') || '无使用'}`}
+              >
+                <div className="flex flex-col-reverse rounded-t overflow-hidden" style={{ height: maxBar > 0 ? `${value / maxBar * 100}%` : 0 }}>
+                  {d.byMode.map(m => (
+                    <div
+                      key={m.key}
+                      className={MODE_COLORS[modeIndex(m.key)]}
+                      style={{ height: value > 0 ? `${barValue(m.totals) / value * 100}%` : 0 }}
+                    ></div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex justify-between mt-1 text-[10px] text-zinc-600 font-mono">
+          <span>{daily[0]?.day.slice(5)}</span>
+          <span>{daily[daily.length - 1]?.day.slice(5)}</span>
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 rounded-2xl px-4 py-3 border border-zinc-800 mb-4 overflow-x-auto">
+        <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mb-2">By Mode</span>
+        {byMode.length === 0 ? (
+          <p className="text-sm text-zinc-600 py-2">这段时间还没有记录到用量</p>
+        ) : (
+          <table className="w-full text-xs text-zinc-400">
+            <thead>
+              <tr className="text-zinc-500 text-left">
+                <th className="py-1 font-normal">模式</th>
+                <th className="py-1 font-normal text-right">回答</th>
+                <th className="py-1 font-normal text-right">输入</th>
+                <th className="py-1 font-normal text-right">输出</th>
+                <th className="py-1 font-normal text-right">思考</th>
+                <th className="py-1 font-normal text-right">TTFT</th>
+                <th className="py-1 font-normal text-right">耗时</th>
+                <th className="py-1 font-normal text-right">费用</th>
+                <th className="py-1 font-normal text-right">每条</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byMode.map(({ key, totals: t }) => (
+                <tr key={key} className="border-t border-zinc-800">
+                  <td className="py-1.5 text-zinc-300">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${MODE_COLORS[modeIndex(key)]}`}></span>
+                    {modeLabel(key)}
+                  </td>
+                  <td className="py-1.5 text-right font-mono">{t.replies}</td>
+                  <td className="py-1.5 text-right font-mono">{formatTokens(t.promptTokens)}</td>
+                  <td className="py-1.5 text-right font-mono">{formatTokens(t.outputTokens)}</td>
+                  <td className="py-1.5 text-right font-mono">{formatTokens(t.thinkingTokens)}</td>
+                  <td className="py-1.5 text-right font-mono">{averageFirstToken(t)}</td>
+                  <td className="py-1.5 text-right font-mono">{averageTotal(t)}</td>
+                  <td className="py-1.5 text-right font-mono text-zinc-200">{formatCost(t.cost)}</td>
+                  <td className="py-1.5 text-right font-mono">{t.replies > 0 ? formatCost(t.cost / t.replies) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {byConversation.length > 0 && (
+        <div className="bg-zinc-900 rounded-2xl px-4 py-3 border border-zinc-800 mb-4">
+          <span className="block text-xs text-zinc-500 font-mono uppercase tracking-wider mb-2">Top Conversations</span>
+          <ul className="flex flex-col">
+            {byConversation.map(({ key, totals: t }) => (
+              <li key={key} className="flex items-center gap-3 py-1.5 border-t border-zinc-800 first:border-t-0 text-xs">
+                <span className="flex-1 truncate text-zinc-300">{titleOf(key)}</span>
+                <span className="text-zinc-500 font-mono">{t.replies} 条 · {formatTokens(t.promptTokens + t.outputTokens + t.thinkingTokens)}</span>
+                <span className="w-16 text-right font-mono text-zinc-200">{formatCost(t.cost)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-zinc-900 rounded-2xl px-4 py-2 border border-zinc-800 mb-4">
+        <div className="flex items-center justify-between mt-2 mb-1">
+          <span className="text-xs text-zinc-500 font-mono uppercase tracking-wider">Prices (USD / 1M tokens)</span>
+          <button onClick={() => onPricesChange(DEFAULT_PRICES)} className="text-xs text-zinc-500 hover:text-white">恢复默认</button>
+        </div>
+        <p className="text-xs text-zinc-600 mb-2">思考 token 按输出价格计费；费用为估算值，以账单为准。</p>
+        {prices.map((price, i) => (
+          <div key={i} className="flex items-center gap-2 py-1">
+            <input
+              value={price.model}
+              onChange={(e) => updatePrice(i, { model: e.target.value })}
+              placeholder="model id"
+              className={`${inputClass} flex-1 min-w-0 font-mono`}
+            />
+            <input
+              type="number" min={0} step={0.01}
+              value={price.input}
+              onChange={(e) => updatePrice(i, { input: Math.max(Number(e.target.value) || 0, 0) })}
+              className={`${inputClass} w-20`}
+              title="Input"
+            />
+            <input
+              type="number" min={0} step={0.01}
+              value={price.output}
+              onChange={(e) => updatePrice(i, { output: Math.max(Number(e.target.value) || 0, 0) })}
+              className={`${inputClass} w-20`}
+              title="Output"
+            />
+            <button
+              onClick={() => onPricesChange(prices.filter((_, j) => j !== i))}
+              className="px-2 text-zinc-600 hover:text-red-400"
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onPricesChange([...prices, { model: '', input: 0, output: 0 }])}
+          className="text-xs text-zinc-400 hover:text-white py-2"
+        >
+          + 添加模型
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceRecorder, describeMicError } from '../services/voiceInput';
+import { transcribeAudio } from '../services/geminiService';
+import { normalizeError } from '../services/providers';
+import { SpeechStatus } from '../services/speechPlayer';
+import { toSpeechText } from '../services/speechText';
+import { BARGE_IN_VAD_OPTIONS, DEFAULT_VAD_OPTIONS, createVadState, stepVad } from '../services/vad';
+import { IconMic, IconSkip, IconX } from './Icons';
+
+type VoicePhase = 'listening' | 'transcribing' | 'thinking' | 'speaking' | 'muted';
+
+const PHASE_LABEL: Record<VoicePhase, string> = {
+  listening: '正在聆听…',
+  transcribing: '正在识别…',
+  thinking: '正在思考…',
+  speaking: '正在回答 · 开口即可打断',
+  muted: '麦克风已暂停',
+};
+
+// Restart an idle capture now and then so a quiet room doesn't build a huge recording
+const IDLE_RESTART_MS = 30_000;
+
+const lastChars = (text: string, count: number) =>
+  text.length > count ? `…${text.slice(-count)}` : text;
+
+/**
+ * Full-screen hands-free loop: listen until the user stops talking, send the
+ * transcript, let the reply be read aloud, then listen again. Talking over the
+ * reply (barge-in) stops playback and the running answer.
+ */
+export const VoiceConversation = ({ busy, speechStatus, userCaption, replyCaption, onSend, onBargeIn, onSkip, onClose }: {
+  busy: boolean; // An answer is being generated
+  speechStatus: SpeechStatus;
+  userCaption: string;
+  replyCaption: string;
+  onSend: (text: string) => void;
+  onBargeIn: () => void;
+  onSkip: () => void;
+  onClose: () => void;
+}) => {
+  const [transcribing, setTranscribing] = useState(false);
+  const [awaitingReply, setAwaitingReply] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [notice, setNotice] = useState('');
+  const callbacksRef = useRef({ onSend, onBargeIn });
+  callbacksRef.current = { onSend, onBargeIn };
+  const openRef = useRef(true);
+
+  // Queued speech waits for the answer's first sentence; until audio plays the model is still thinking
+  const speaking = speechStatus.state !== 'idle' && speechStatus.started;
+  const phase: VoicePhase = muted ? 'muted'
+    : transcribing ? 'transcribing'
+    : speaking ? 'speaking'
+    : busy || awaitingReply ? 'thinking'
+    : 'listening';
+
+  useEffect(() => () => { openRef.current = false; }, []);
+
+  // The sent message has been picked up once generation starts
+  useEffect(() => {
+    if (busy) setAwaitingReply(false);
+  }, [busy]);
+
+  // Each listening/speaking phase gets a fresh capture and detector
+  useEffect(() => {
+    if (phase !== 'listening' && phase !== 'speaking') return;
+
+    const recorder = new VoiceRecorder();
+    const options = phase === 'speaking' ? BARGE_IN_VAD_OPTIONS : DEFAULT_VAD_OPTIONS;
+    let vad = createVadState();
+    let frame = 0;
+    let active = true;
+
+    const finishUtterance = async () => {
+      active = false;
+      setTranscribing(true);
+      try {
+        const recording = await recorder.stop();
+        const text = await transcribeAudio(recording.blob, recording.mimeType);
+        // Closed while the transcript was on its way
+        if (!openRef.current) return;
+        if (text) {
+          setAwaitingReply(true);
+          callbacksRef.current.onSend(text);
+        } else {
+          setNotice('没有听清，请再说一遍');
+        }
+      } catch (error) {
+        setNotice(`识别失败: ${normalizeError(error).message}`);
+      } finally {
+        setTranscribing(false);
+      }
+    };
+
+    const tick = () => {
+      if (!active) return;
+      const current = recorder.level();
+      setLevel(current);
+      const result = stepVad(vad, current, performance.now(), options);
+      vad = result.state;
+
+      if (phase === 'speaking' && result.event === 'speech-start') {
+        // The phase change tears this capture down and starts a clean one
+        callbacksRef.current.onBargeIn();
+        return;
+      }
+      if (phase === 'listening') {
+        if (result.event === 'speech-start') setNotice('');
+        if (result.event === 'speech-end') {
+          finishUtterance();
+          return;
+        }
+        if (vad.speechStartedAt === null && recorder.elapsedMs > IDLE_RESTART_MS) {
+          recorder.cancel();
+          recorder.start()
+            .then(() => { if (active) vad = createVadState(); else recorder.cancel(); })
+            .catch(() => {});
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    recorder.start()
+      .then(() => { if (active) frame = requestAnimationFrame(tick); else recorder.cancel(); })
+      .catch(error => {
+        setNotice(describeMicError(error));
+        setMuted(true);
+      });
+
+    return () => {
+      // A finished utterance owns the recorder until it has been stopped
+      if (active) recorder.cancel();
+      active = false;
+      cancelAnimationFrame(frame);
+      setLevel(0);
+    };
+  }, [phase]);
+
+  const reply = lastChars(toSpeechText(replyCaption), 280);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-between px-6 py-10 animate-fade-in">
+      <div className="w-full flex justify-between items-center">
+        <span className="text-xs font-mono tracking-widest text-zinc-500 uppercase">Voice Mode</span>
+        <button onClick={onClose} className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800" title="Exit voice mode">
+          <IconX />
+        </button>
+      </div>
+
+      <div className="flex flex-col items-center gap-8">
+        <div className="relative w-40 h-40 flex items-center justify-center">
+          <span
+            className={`absolute inset-0 rounded-full transition-transform duration-75 ${
+              phase === 'speaking' ? 'bg-indigo-500/20' : phase === 'muted' ? 'bg-zinc-800/50' : 'bg-green-500/15'
+            } ${phase === 'thinking' || phase === 'transcribing' ? 'animate-pulse' : ''}`}
+            style={{ transform: `scale(${1 + level * 0.6})` }}
+          ></span>
+          <span className={`relative w-24 h-24 rounded-full flex items-center justify-center [&>svg]:w-10 [&>svg]:h-10 ${
+            phase === 'muted' ? 'bg-zinc-800 text-zinc-500' : phase === 'speaking' ? 'bg-indigo-500 text-white' : 'bg-white text-black'
+          }`}>
+            <IconMic />
+          </span>
+        </div>
+        <div className="text-sm text-zinc-400 font-medium">{PHASE_LABEL[phase]}</div>
+        {notice && <div className="text-xs text-yellow-400">{notice}</div>}
+      </div>
+
+      <div className="w-full max-w-xl flex flex-col gap-4 min-h-[10rem]">
+        {userCaption && (
+          <div className="text-right">
+            <span className="inline-block bg-zinc-900 text-zinc-300 text-sm rounded-2xl px-4 py-2 max-w-full break-words">{lastChars(userCaption, 160)}</span>
+          </div>
+        )}
+        {reply && <p className="text-lg text-white leading-relaxed break-words">{reply}</p>}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => setMuted(!muted)}
+          className={`px-4 py-2 rounded-full text-sm border transition-colors ${
+            muted ? 'bg-white text-black border-white' : 'border-zinc-700 text-zinc-300 hover:bg-zinc-800'
+          }`}
+        >
+          {muted ? '继续聆听' : '暂停聆听'}
+        </button>
+        {speaking && (
+          <button
+            onClick={onSkip}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm border border-zinc-700 text-zinc-300 hover:bg-zinc-800 [&>svg]:w-3.5 [&>svg]:h-3.5"
+          >
+            <IconSkip /> 跳过
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
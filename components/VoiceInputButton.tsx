@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceRecorder, MAX_RECORDING_MS, describeMicError, isVoiceInputSupported } from '../services/voiceInput';
+import { transcribeAudio } from '../services/geminiService';
+import { normalizeError } from '../services/providers';
+import { IconMic, IconX } from './Icons';
+
+type VoiceState = 'idle' | 'starting' | 'recording' | 'transcribing';
+
+// Holding longer than this is push-to-talk (release sends); a shorter tap toggles
+const HOLD_MS = 400;
+const MIN_RECORDING_MS = 500;
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Microphone button for the chat input. Hold to talk, or tap to start and tap
+ * again to finish. The recording is transcribed and handed to onTranscript.
+ */
+export const VoiceInputButton = ({ disabled, onTranscript, onError }: {
+  disabled?: boolean;
+  onTranscript: (text: string) => void;
+  onError: (message: string) => void;
+}) => {
+  const [state, setState] = useState<VoiceState>('idle');
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const stateRef = useRef<VoiceState>('idle');
+  const recorderRef = useRef<VoiceRecorder | null>(null);
+  const pressRef = useRef({ at: 0, started: false });
+  const frameRef = useRef(0);
+  // Transcription finishes later (or from the meter loop); use the latest callbacks
+  const callbacksRef = useRef({ onTranscript, onError });
+  callbacksRef.current = { onTranscript, onError };
+
+  const transition = (next: VoiceState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const stopMeter = () => {
+    cancelAnimationFrame(frameRef.current);
+    setLevel(0);
+    setElapsed(0);
+  };
+
+  const finish = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder || stateRef.current !== 'recording') return;
+    stopMeter();
+    transition('transcribing');
+    recorderRef.current = null;
+
+    try {
+      const recording = await recorder.stop();
+      if (recording.durationMs < MIN_RECORDING_MS) {
+        callbacksRef.current.onError('录音太短');
+        return;
+      }
+      const text = await transcribeAudio(recording.blob, recording.mimeType);
+      if (text) callbacksRef.current.onTranscript(text);
+      else callbacksRef.current.onError('没有识别到语音');
+    } catch (error) {
+      callbacksRef.current.onError(`转写失败: ${normalizeError(error).message}`);
+    } finally {
+      transition('idle');
+    }
+  };
+
+  const cancel = () => {
+    recorderRef.current?.cancel();
+    recorderRef.current = null;
+    stopMeter();
+    transition('idle');
+  };
+
+  const begin = async () => {
+    transition('starting');
+    const recorder = new VoiceRecorder();
+    try {
+      await recorder.start();
+    } catch (error) {
+      recorder.cancel();
+      transition('idle');
+      callbacksRef.current.onError(describeMicError(error));
+      return;
+    }
+    // Released (or cancelled) before the microphone was ready
+    if (stateRef.current !== 'starting') {
+      recorder.cancel();
+      return;
+    }
+    recorderRef.current = recorder;
+    transition('recording');
+
+    const tick = () => {
+      setLevel(recorder.level());
+      setElapsed(recorder.elapsedMs);
+      if (recorder.elapsedMs >= MAX_RECORDING_MS) {
+        finish();
+        return;
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    // Keep receiving pointerup even if the finger slides off the button
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const current = stateRef.current;
+    pressRef.current = { at: Date.now(), started: current === 'idle' };
+    if (current === 'idle') begin();
+  };
+
+  const handlePointerUp = () => {
+    const { at, started } = pressRef.current;
+    const held = Date.now() - at >= HOLD_MS;
+    if (stateRef.current === 'starting' && held) {
+      // Let go before the mic opened: treat as an aborted push-to-talk
+      transition('idle');
+      return;
+    }
+    if (stateRef.current === 'recording' && (!started || held)) finish();
+  };
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => () => {
+    cancelAnimationFrame(frameRef.current);
+    recorderRef.current?.cancel();
+  }, []);
+
+  if (!isVoiceInputSupported()) return null;
+
+  const active = state === 'recording' || state === 'starting';
+
+  return (
+    <div className="relative shrink-0 ml-2">
+      {active && (
+        <div className="absolute bottom-full right-0 mb-3 flex items-center gap-2 bg-zinc-900 border border-zinc-700 rounded-full pl-3 pr-1 py-1 shadow-xl animate-fade-in whitespace-nowrap">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+          <span className="text-xs font-mono text-zinc-300 tabular-nums">{formatElapsed(elapsed)}</span>
+          <div className="flex items-end gap-0.5 h-4">
+            {[0.15, 0.3, 0.45, 0.6, 0.75].map(threshold => (
+              <span
+                key={threshold}
+                className={`w-1 rounded-sm transition-colors ${level >= threshold ? 'bg-green-400' : 'bg-zinc-700'}`}
+                style={{ height: `${30 + threshold * 90}%` }}
+              ></span>
+            ))}
+          </div>
+          <span className="text-[10px] text-zinc-500">松开或再次点击结束</span>
+          <button
+            onClick={cancel}
+            className="p-1 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 [&>svg]:w-3 [&>svg]:h-3"
+            title="Cancel recording"
+          >
+            <IconX />
+          </button>
+        </div>
+      )}
+      <button
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={disabled || state === 'transcribing'}
+        title="Hold to talk, or tap to start and stop"
+        className={`relative w-8 h-8 rounded-full flex items-center justify-center transition-colors touch-none select-none disabled:opacity-50 [&>svg]:w-4 [&>svg]:h-4 ${
+          active ? 'bg-red-500 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+        }`}
+      >
+        {active && (
+          <span
+            className="absolute inset-0 rounded-full bg-red-500/40 pointer-events-none"
+            style={{ transform: `scale(${1 + level * 0.8})` }}
+          ></span>
+        )}
+        {state === 'transcribing' ? (
+          <span className="w-4 h-4 border-2 border-zinc-500 border-t-white rounded-full animate-spin"></span>
+        ) : (
+          <IconMic />
+        )}
+      </button>
+    </div>
+  );
+};
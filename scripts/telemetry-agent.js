@@ -0,0 +1,251 @@
+// V-D local telemetry agent (Linux).
+// Reads /proc and sysfs and serves snapshots to the MONITOR view:
+//   GET  http://localhost:7070/        -> one JSON snapshot (polling)
+//   WS   ws://localhost:7070/          -> a snapshot pushed every interval
+//
+// Usage: node scripts/telemetry-agent.js [--port 7070] [--interval 2000] [--disk /]
+//          [--host 127.0.0.1] [--origin http://localhost:3000,http://127.0.0.1:3000]
+// Snapshots name the machine's host, OS and hardware, so by default only this
+// machine can connect, and only pages served from --origin may read them.
+// No dependencies: the WebSocket side only implements what the monitor needs
+// (server -> client text frames).
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+
+const args = process.argv.slice(2);
+const arg = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+const PORT = Number(arg('port', 7070));
+const HOST = arg('host', '127.0.0.1');
+const ORIGINS = new Set(arg('origin', 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(o => o.trim()).filter(Boolean));
+const INTERVAL = Number(arg('interval', 2000));
+const DISK_PATH = arg('disk', '/');
+const GB = 1024 ** 3;
+
+// --- /proc & sysfs readers ---
+
+const readText = (path) => {
+  try {
+    return fs.readFileSync(path, 'utf8').trim();
+  } catch {
+    return null;
+  }
+};
+
+const readNumber = (path) => {
+  const text = readText(path);
+  const value = text === null ? NaN : Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const listDir = (path) => {
+  try {
+    return fs.readdirSync(path);
+  } catch {
+    return [];
+  }
+};
+
+let lastCpuTimes = null;
+
+const readCpuLoad = () => {
+  const line = readText('/proc/stat')?.split('\n').find(l => l.startsWith('cpu '));
+  if (!line) return 0;
+  const times = line.trim().split(/\s+/).slice(1).map(Number);
+  const idle = times[3] + (times[4] || 0); // idle + iowait
+  const total = times.reduce((a, b) => a + b, 0);
+
+  const previous = lastCpuTimes;
+  lastCpuTimes = { idle, total };
+  if (!previous || total === previous.total) return 0;
+  return (1 - (idle - previous.idle) / (total - previous.total)) * 100;
+};
+
+const readMemory = () => {
+  const info = {};
+  for (const line of (readText('/proc/meminfo') || '').split('\n')) {
+    const [key, value] = line.split(':');
+    if (value) info[key.trim()] = parseInt(value, 10) * 1024;
+  }
+  const total = info.MemTotal || os.totalmem();
+  const available = info.MemAvailable ?? os.freemem();
+  return { ramUsed: (total - available) / GB, ramTotal: total / GB };
+};
+
+const readDisk = () => {
+  try {
+    const stat = fs.statfsSync(DISK_PATH);
+    const total = stat.blocks * stat.bsize;
+    const free = stat.bavail * stat.bsize;
+    return { diskUsed: (total - free) / GB, diskTotal: total / GB };
+  } catch {
+    return { diskUsed: 0, diskTotal: 0 };
+  }
+};
+
+// hwmon chips are matched by name; the first temp*_input found wins
+const readHwmonTemp = (names) => {
+  for (const hwmon of listDir('/sys/class/hwmon')) {
+    const base = `/sys/class/hwmon/${hwmon}`;
+    if (!names.includes(readText(`${base}/name`))) continue;
+    const input = listDir(base).find(f => /^temp\d+_input$/.test(f));
+    const milli = input ? readNumber(`${base}/${input}`) : null;
+    if (milli !== null) return milli / 1000;
+  }
+  return null;
+};
+
+const readCpuTemp = () => {
+  const hwmon = readHwmonTemp(['coretemp', 'k10temp', 'zenpower', 'cpu_thermal']);
+  if (hwmon !== null) return hwmon;
+  const zone = readNumber('/sys/class/thermal/thermal_zone0/temp');
+  return zone !== null ? zone / 1000 : 0;
+};
+
+const findGpuDevice = () => {
+  for (const card of listDir('/sys/class/drm')) {
+    if (!/^card\d+$/.test(card)) continue;
+    const device = `/sys/class/drm/${card}/device`;
+    if (readText(`${device}/uevent`)) return device;
+  }
+  return null;
+};
+
+const readGpu = (device) => ({
+  // amdgpu exposes a busy percentage; other drivers report 0
+  gpuLoad: (device && readNumber(`${device}/gpu_busy_percent`)) || 0,
+  gpuTemp: readHwmonTemp(['amdgpu', 'nouveau', 'radeon']) || 0,
+});
+
+const readDevice = (gpuDevice) => {
+  const cpuinfo = readText('/proc/cpuinfo') || '';
+  const model = cpuinfo.match(/^model name\s*:\s*(.+)$/m)?.[1] || os.cpus()[0]?.model || 'Unknown CPU';
+  const maxKhz = readNumber('/sys/devices/system/cpu/cpu0/cpufreq/cpuinfo_max_freq');
+
+  const uevent = gpuDevice ? readText(`${gpuDevice}/uevent`) || '' : '';
+  const driver = uevent.match(/^DRIVER=(.+)$/m)?.[1];
+  const pciId = uevent.match(/^PCI_ID=(.+)$/m)?.[1];
+
+  return {
+    cpuName: model.trim(),
+    cpuClock: maxKhz ? `${(maxKhz / 1e6).toFixed(1)} GHz` : undefined,
+    gpuName: driver ? `${driver.toUpperCase()} GPU${pciId ? ` (${pciId})` : ''}` : 'Unknown GPU',
+    hostname: os.hostname(),
+    os: `${os.type()} ${os.release()}`,
+  };
+};
+
+const gpuDevice = findGpuDevice();
+const device = readDevice(gpuDevice);
+
+const round = (value) => Math.round(value * 10) / 10;
+
+const takeSnapshot = () => {
+  const { ramUsed, ramTotal } = readMemory();
+  const { diskUsed, diskTotal } = readDisk();
+  const { gpuLoad, gpuTemp } = readGpu(gpuDevice);
+  return {
+    device,
+    timestamp: Date.now(),
+    stats: {
+      cpuLoad: round(readCpuLoad()),
+      cpuTemp: round(readCpuTemp()),
+      gpuLoad: round(gpuLoad),
+      gpuTemp: round(gpuTemp),
+      ramUsed: round(ramUsed),
+      ramTotal: round(ramTotal),
+      diskUsed: round(diskUsed),
+      diskTotal: round(diskTotal),
+    },
+  };
+};
+
+// --- Server ---
+
+let latest = takeSnapshot();
+const sockets = new Set();
+
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+setInterval(() => {
+  latest = takeSnapshot();
+  const frame = encodeFrame(JSON.stringify(latest));
+  for (const socket of sockets) socket.write(frame);
+}, INTERVAL);
+
+// Browsers always send Origin cross-site; tools like curl send none and are let through
+const originAllowed = (req) => !req.headers.origin || ORIGINS.has(req.headers.origin);
+
+const server = http.createServer((req, res) => {
+  if (!originAllowed(req)) {
+    res.writeHead(403, { 'Content-Type': 'text/plain' });
+    res.end('Origin not allowed');
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': 'application/json',
+    ...(req.headers.origin && { 'Access-Control-Allow-Origin': req.headers.origin }),
+    'Vary': 'Origin',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(latest));
+});
+
+server.on('upgrade', (req, socket) => {
+  if (!originAllowed(req)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  sockets.add(socket);
+  socket.write(encodeFrame(JSON.stringify(latest)));
+
+  socket.on('data', (data) => {
+    // Opcode 0x8 = close; everything else from the client is ignored
+    if ((data[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0x00]));
+  });
+  socket.on('close', () => sockets.delete(socket));
+  socket.on('error', () => sockets.delete(socket));
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`V-D telemetry agent on http://${HOST}:${PORT} (ws://${HOST}:${PORT})`);
+  console.log(`Allowed origins: ${[...ORIGINS].join(', ')}`);
+  console.log(`CPU: ${device.cpuName} | GPU: ${device.gpuName}`);
+});
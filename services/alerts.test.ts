@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { AlertEvent, AlertRule, HardwareStats } from '../types';
+import { AlertStates, evaluateAlertRules } from './alerts';
+import { INITIAL_STATS } from './telemetry';
+
+const rule: AlertRule = {
+  id: 'gpu', target: 'gpuTemp', operator: '>', threshold: 85, durationSec: 0, hysteresis: 3, cooldownSec: 300, enabled: true,
+};
+
+const at = (gpuTemp: number): HardwareStats => ({ ...INITIAL_STATS, gpuTemp });
+
+// Feeds one sample per second and collects every event
+const run = (samples: number[], rules: AlertRule[] = [rule]) => {
+  let states: AlertStates = {};
+  const events: AlertEvent[] = [];
+  samples.forEach((value, i) => {
+    const result = evaluateAlertRules(rules, states, at(value), i * 1000);
+    states = result.states;
+    events.push(...result.events);
+  });
+  return { states, events };
+};
+
+const kinds = (events: AlertEvent[]) => events.map(e => `${e.kind}@${e.timestamp / 1000}`);
+
+describe('evaluateAlertRules', () => {
+  it('triggers once the threshold is crossed and resolves past the hysteresis band', () => {
+    const { events } = run([80, 90, 84, 82, 80]);
+    expect(kinds(events)).toEqual(['triggered@1', 'resolved@3']);
+  });
+
+  it('waits for the condition to hold for the whole duration', () => {
+    const { events } = run([90, 90, 80, 90, 90, 90, 90], [{ ...rule, durationSec: 2 }]);
+    expect(kinds(events)).toEqual(['triggered@5']);
+  });
+
+  it('stays silent for a flapping value inside the cooldown, resolutions included', () => {
+    const { events, states } = run([90, 80, 90, 80, 90, 80]);
+    expect(kinds(events)).toEqual(['triggered@0', 'resolved@1']);
+    expect(states.gpu).toMatchObject({ phase: 'idle', announced: false });
+  });
+
+  it('announces a re-fire again once the cooldown has passed', () => {
+    const samples = [90, 80, ...Array(299).fill(80), 90, 80];
+    const { events } = run(samples);
+    expect(kinds(events)).toEqual(['triggered@0', 'resolved@1', 'triggered@301', 'resolved@302']);
+  });
+
+  it('ignores disabled rules', () => {
+    expect(run([90, 80], [{ ...rule, enabled: false }]).events).toEqual([]);
+  });
+});
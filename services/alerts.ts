@@ -0,0 +1,192 @@
+import { AlertEvent, AlertRule, AlertTarget, HardwareStats } from "../types";
+import { METRICS } from "./metrics";
+
+export interface AlertRuleState {
+  phase: 'idle' | 'pending' | 'firing';
+  since: number; // When the current phase started
+  lastNotifiedAt: number;
+  announced: boolean; // Whether the current firing produced a triggered event
+}
+
+export type AlertStates = Record<string, AlertRuleState>;
+
+const RULES_KEY = 'vd.alerts.rules';
+const LOG_KEY = 'vd.alerts.log';
+const LOG_LIMIT = 200;
+
+// Raw stats fields that make sense as alert targets besides the monitor metrics
+const RAW_TARGETS: { id: keyof HardwareStats; label: string; unit: string }[] = [
+  { id: 'ramUsed', label: '已用内存', unit: ' GB' },
+  { id: 'diskUsed', label: '已用磁盘', unit: ' GB' },
+];
+
+export const ALERT_TARGETS: { id: AlertTarget; label: string; unit: string }[] = [
+  ...METRICS.map(m => ({ id: m.id, label: m.label, unit: m.unit })),
+  ...RAW_TARGETS,
+];
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'default-gpu-temp', target: 'gpuTemp', operator: '>', threshold: 85, durationSec: 30, hysteresis: 3, cooldownSec: 300, enabled: true },
+  { id: 'default-disk', target: 'diskUsage', operator: '>', threshold: 90, durationSec: 0, hysteresis: 1, cooldownSec: 3600, enabled: true },
+];
+
+export const readAlertTarget = (target: AlertTarget, stats: HardwareStats): number => {
+  const metric = METRICS.find(m => m.id === target);
+  return metric ? metric.read(stats) : stats[target as keyof HardwareStats];
+};
+
+export const describeTarget = (target: AlertTarget) =>
+  ALERT_TARGETS.find(t => t.id === target) || { id: target, label: target, unit: '' };
+
+export const describeRule = (rule: Pick<AlertRule, 'target' | 'operator' | 'threshold' | 'durationSec'>) => {
+  const { label, unit } = describeTarget(rule.target);
+  const duration = rule.durationSec > 0 ? ` 持续 ${rule.durationSec}s` : '';
+  return `${label} ${rule.operator} ${rule.threshold}${unit}${duration}`;
+};
+
+// --- Rule Evaluation ---
+
+const breached = (rule: AlertRule, value: number) =>
+  rule.operator === '>' ? value > rule.threshold : value < rule.threshold;
+
+const cleared = (rule: AlertRule, value: number) =>
+  rule.operator === '>' ? value <= rule.threshold - rule.hysteresis : value >= rule.threshold + rule.hysteresis;
+
+/**
+ * Advances every rule's state machine by one sample.
+ * idle -> pending when the condition starts holding, pending -> firing once it
+ * has held for durationSec, firing -> idle only after the value moves back past
+ * the hysteresis band. A rule that re-fires inside its cooldown fires silently,
+ * and so also resolves silently: the log never shows a resolution without its trigger.
+ */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  states: AlertStates,
+  stats: HardwareStats,
+  now: number = Date.now()
+): { states: AlertStates; events: AlertEvent[] } => {
+  const nextStates: AlertStates = {};
+  const events: AlertEvent[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const value = readAlertTarget(rule.target, stats);
+    const state = states[rule.id] || { phase: 'idle', since: now, lastNotifiedAt: -Infinity, announced: false };
+    let next = state;
+
+    const event = (kind: AlertEvent['kind']): AlertEvent => ({
+      id: `${rule.id}-${kind}-${now}`,
+      ruleId: rule.id,
+      kind,
+      target: rule.target,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      value,
+      timestamp: now,
+    });
+
+    if (state.phase === 'idle' && breached(rule, value)) {
+      next = { ...state, phase: 'pending', since: now };
+    } else if (state.phase === 'pending' && !breached(rule, value)) {
+      next = { ...state, phase: 'idle', since: now };
+    }
+
+    if (next.phase === 'pending' && now - next.since >= rule.durationSec * 1000) {
+      const notify = now - state.lastNotifiedAt >= rule.cooldownSec * 1000;
+      next = { phase: 'firing', since: now, lastNotifiedAt: notify ? now : state.lastNotifiedAt, announced: notify };
+      if (notify) events.push(event('triggered'));
+    } else if (state.phase === 'firing' && cleared(rule, value)) {
+      next = { ...state, phase: 'idle', since: now, announced: false };
+      if (state.announced) events.push(event('resolved'));
+    }
+
+    nextStates[rule.id] = next;
+  }
+
+  return { states: nextStates, events };
+};
+
+// --- Persistence ---
+
+const isValidRule = (rule: any): rule is AlertRule =>
+  rule && typeof rule.id === 'string'
+  && ALERT_TARGETS.some(t => t.id === rule.target)
+  && (rule.operator === '>' || rule.operator === '<')
+  && [rule.threshold, rule.durationSec, rule.hysteresis, rule.cooldownSec].every(n => Number.isFinite(n));
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    if (!raw) return DEFAULT_ALERT_RULES;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidRule) : DEFAULT_ALERT_RULES;
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const loadAlertLog = (): AlertEvent[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Prepends events (newest first) and persists the capped log. */
+export const appendAlertLog = (log: AlertEvent[], events: AlertEvent[]): AlertEvent[] => {
+  const next = [...[...events].reverse(), ...log].slice(0, LOG_LIMIT);
+  localStorage.setItem(LOG_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const clearAlertLog = () => {
+  localStorage.removeItem(LOG_KEY);
+};
+
+// --- Notifications ---
+
+export const formatAlertEvent = (event: AlertEvent) => {
+  const { label, unit } = describeTarget(event.target);
+  const value = `${Math.round(event.value * 10) / 10}${unit}`;
+  return event.kind === 'triggered'
+    ? `${label} ${value} (${event.operator} ${event.threshold}${unit})`
+    : `${label} 已恢复: ${value}`;
+};
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showBrowserNotification = (event: AlertEvent, onClick?: () => void) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const notification = new Notification('V-D 硬件告警', {
+    body: formatAlertEvent(event),
+    tag: event.ruleId,
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick?.();
+    notification.close();
+  };
+};
+
+export const buildAlertPrompt = (event: AlertEvent, stats: HardwareStats) => {
+  const { label } = describeTarget(event.target);
+  return [
+    `我的电脑触发了硬件告警：${formatAlertEvent(event)}。`,
+    `告警时间：${new Date(event.timestamp).toLocaleString()}。`,
+    `当前状态：CPU ${Math.round(stats.cpuLoad)}% / ${Math.round(stats.cpuTemp)}°C，GPU ${Math.round(stats.gpuLoad)}% / ${Math.round(stats.gpuTemp)}°C，`
+      + `内存 ${stats.ramUsed.toFixed(1)}/${stats.ramTotal} GB，磁盘 ${Math.round(stats.diskUsed)}/${Math.round(stats.diskTotal)} GB。`,
+    `请分析「${label}」异常的可能原因，并给出排查和处理步骤。`,
+  ].join('\n');
+};
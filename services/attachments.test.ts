@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Attachment, Message } from '../types';
+import { MAX_HISTORY_BYTES, MAX_TOTAL_BYTES, encodedSize, trimHistoryAttachments } from './attachments';
+
+const MB = 1024 * 1024;
+
+// A screenshot whose base64 payload is `encoded` characters long
+const image = (name: string, encoded: number): Attachment => ({
+  id: name, kind: 'image', name, mimeType: 'image/png', size: encoded * 3 / 4, data: 'A'.repeat(encoded),
+});
+
+const userMessage = (id: string, attachments: Attachment[]): Message => ({ id, role: 'user', text: `截图 ${id}`, attachments });
+const reply = (id: string): Message => ({ id, role: 'model', text: '收到' });
+
+describe('encodedSize', () => {
+  it('counts images by their base64 payload', () => {
+    expect(encodedSize(image('a.png', 4000))).toBe(4000);
+  });
+
+  it('counts text files as the base64 of their UTF-8 bytes', () => {
+    const log: Attachment = { id: 'l', kind: 'text', name: 'a.log', mimeType: 'text/plain', size: 6, data: '错误' };
+    expect(encodedSize(log)).toBe(8); // 6 bytes -> 8 base64 characters
+  });
+});
+
+describe('trimHistoryAttachments', () => {
+  it('keeps every attachment while the history fits', () => {
+    const history = [userMessage('1', [image('a.png', MB)]), reply('2'), userMessage('3', [image('b.png', MB)])];
+    expect(trimHistoryAttachments(history)).toEqual(history);
+  });
+
+  it('drops the oldest attachments first and names them in the text', () => {
+    const history: Message[] = [];
+    for (let i = 0; i < 6; i++) {
+      history.push(userMessage(`u${i}`, [image(`shot${i}.png`, 2 * MB)]), reply(`m${i}`));
+    }
+    const trimmed = trimHistoryAttachments(history);
+
+    const sent = trimmed.flatMap(m => m.attachments || []);
+    expect(sent.map(a => a.name)).toEqual(['shot3.png', 'shot4.png', 'shot5.png']);
+    expect(sent.reduce((sum, a) => sum + encodedSize(a), 0)).toBeLessThanOrEqual(MAX_HISTORY_BYTES);
+    expect(trimmed[0].text).toBe('截图 u0\n\n[较早的附件未再次发送: shot0.png]');
+    expect(trimmed[6]).toBe(history[6]);
+    // The stored conversation is left alone
+    expect(history[0].attachments).toHaveLength(1);
+  });
+
+  it('still fits the newest message and the trimmed history in one request', () => {
+    const history = Array.from({ length: 10 }, (_, i) => userMessage(`u${i}`, [image(`s${i}.png`, 3 * MB)]));
+    const replayed = trimHistoryAttachments(history).flatMap(m => m.attachments || []);
+    const total = replayed.reduce((sum, a) => sum + encodedSize(a), 0) + MAX_TOTAL_BYTES;
+    expect(total).toBeLessThan(20 * MB);
+  });
+});
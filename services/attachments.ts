@@ -0,0 +1,117 @@
+import { Attachment, Message } from "../types";
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+export const MAX_TEXT_BYTES = 512 * 1024;
+// Inline request payloads are capped at 20 MB, counted after base64 encoding.
+// One message's attachments get most of it; earlier ones replayed with the
+// history share the rest, leaving room for the text of the conversation.
+export const MAX_TOTAL_BYTES = 12 * 1024 * 1024;
+export const MAX_HISTORY_BYTES = 6 * 1024 * 1024;
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/heic', 'image/heif'];
+const TEXT_EXTENSIONS = ['txt', 'log', 'dmp', 'xml', 'json', 'csv', 'ini', 'cfg', 'reg', 'ps1', 'bat', 'cmd', 'md'];
+
+export const ACCEPTED_FILE_TYPES = [...IMAGE_TYPES, ...TEXT_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+export type AttachmentResult = { attachment: Attachment } | { error: string };
+
+export const formatAttachmentSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Validates a picked file and loads it into an Attachment, or explains why it can't be attached. */
+export const readAttachment = async (file: File): Promise<AttachmentResult> => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  try {
+    if (IMAGE_TYPES.includes(file.type)) {
+      if (file.size > MAX_IMAGE_BYTES) {
+        return { error: `${file.name} 超过图片大小上限 ${formatAttachmentSize(MAX_IMAGE_BYTES)}` };
+      }
+      const dataUrl = await readAsDataUrl(file);
+      return {
+        attachment: { id, kind: 'image', name: file.name, mimeType: file.type, size: file.size, data: dataUrl.split(',')[1] || '' },
+      };
+    }
+
+    if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extensionOf(file.name))) {
+      if (file.size > MAX_TEXT_BYTES) {
+        return { error: `${file.name} 超过文本文件大小上限 ${formatAttachmentSize(MAX_TEXT_BYTES)}` };
+      }
+      const text = await file.text();
+      // Raw minidumps and other binaries decode to NUL-laden garbage
+      if (text.includes('\u0000')) {
+        return { error: `${file.name} 是二进制文件，请上传文本摘要（如 WinDbg !analyze 输出）` };
+      }
+      return {
+        attachment: { id, kind: 'text', name: file.name, mimeType: 'text/plain', size: file.size, data: text },
+      };
+    }
+
+    return { error: `不支持的文件类型：${file.name}` };
+  } catch (error) {
+    console.error("Attachment read error:", error);
+    return { error: `无法读取 ${file.name}` };
+  }
+};
+
+export const attachmentDataUrl = (attachment: Attachment) =>
+  `data:${attachment.mimeType};base64,${attachment.data}`;
+
+const toBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/** Inline payload for the model; text files are re-encoded as UTF-8 base64. */
+export const attachmentInlineData = (attachment: Attachment) => ({
+  mimeType: attachment.mimeType,
+  data: attachment.kind === 'image' ? attachment.data : toBase64(attachment.data),
+});
+
+/** Bytes the attachment adds to a request once base64-encoded. */
+export const encodedSize = (attachment: Attachment) => {
+  if (attachment.kind === 'image') return attachment.data.length;
+  return Math.ceil(new TextEncoder().encode(attachment.data).length / 3) * 4;
+};
+
+/**
+ * Copies of the messages with only the newest attachments that fit the budget
+ * still attached. The rest are named in the text instead, so a conversation
+ * with many screenshots never grows past the provider's request limit.
+ */
+export const trimHistoryAttachments = (messages: Message[], budget = MAX_HISTORY_BYTES): Message[] => {
+  let remaining = budget;
+  const trimmed = [...messages];
+  for (let i = trimmed.length - 1; i >= 0; i--) {
+    const msg = trimmed[i];
+    if (!msg.attachments?.length) continue;
+    const kept: Attachment[] = [];
+    const omitted: string[] = [];
+    for (const attachment of [...msg.attachments].reverse()) {
+      const size = encodedSize(attachment);
+      if (size <= remaining) {
+        remaining -= size;
+        kept.unshift(attachment);
+      } else {
+        omitted.unshift(attachment.name);
+      }
+    }
+    if (omitted.length > 0) {
+      trimmed[i] = { ...msg, attachments: kept, text: `${msg.text}\n\n[较早的附件未再次发送: ${omitted.join(', ')}]` };
+    }
+  }
+  return trimmed;
+};
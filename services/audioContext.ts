@@ -0,0 +1,11 @@
+let context: AudioContext | null = null;
+
+/**
+ * The app's one AudioContext. Browsers cap how many can exist, so playback and
+ * microphone analysis share it. Created lazily; resume it from a user gesture.
+ */
+export const getAudioContext = (): AudioContext => {
+  if (!context) context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  if (context.state === 'suspended') context.resume().catch(() => {});
+  return context;
+};
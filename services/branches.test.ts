@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '../types';
+import { forkAt, switchBranch } from './branches';
+
+const user = (id: string, text = `问题 ${id}`): Message => ({ id, role: 'user', text });
+const model = (id: string, text = `回答 ${id}`): Message => ({ id, role: 'model', text });
+
+const texts = (messages: Message[]) => messages.map(m => m.text);
+
+// u1 m2 u3 m4, then u3 edited to u5 with reply m6
+const forked = () => {
+  const original = [user('1'), model('2'), user('3'), model('4')];
+  const { history, head } = forkAt(original, 2, user('5', '问题 3（修改）'));
+  return { original, history, head, messages: [...history, head, model('6')] };
+};
+
+describe('forkAt', () => {
+  it('keeps the history before the fork and makes the edit the latest branch', () => {
+    const { history, head } = forked();
+    expect(texts(history)).toEqual(['问题 1', '回答 2']);
+    expect(head).toMatchObject({ id: '5', text: '问题 3（修改）', branchIndex: 1 });
+    expect(head.branches!.map(texts)).toEqual([['问题 3', '回答 4'], ['问题 3（修改）']]);
+  });
+
+  it('stores tails without fork metadata', () => {
+    const { head } = forked();
+    expect(head.branches!.flat().some(m => 'branches' in m || 'branchIndex' in m)).toBe(false);
+  });
+
+  it('adds further edits as siblings of the same fork', () => {
+    const { messages } = forked();
+    const { head } = forkAt(messages, 2, user('7', '问题 3（再改）'));
+    expect(head.branchIndex).toBe(2);
+    expect(head.branches!.map(texts)).toEqual([['问题 3', '回答 4'], ['问题 3（修改）', '回答 6'], ['问题 3（再改）']]);
+  });
+});
+
+describe('switchBranch', () => {
+  it('swaps in a sibling tail and keeps the current one reachable', () => {
+    const { messages } = forked();
+    const back = switchBranch(messages, 2, 0);
+    expect(texts(back)).toEqual(['问题 1', '回答 2', '问题 3', '回答 4']);
+    expect(back[2]).toMatchObject({ id: '3', branchIndex: 0 });
+    expect(back[2].branches!.map(texts)).toEqual([['问题 3', '回答 4'], ['问题 3（修改）', '回答 6']]);
+
+    expect(texts(switchBranch(back, 2, 1))).toEqual(['问题 1', '回答 2', '问题 3（修改）', '回答 6']);
+  });
+
+  it('keeps replies added after switching in that branch', () => {
+    const { messages } = forked();
+    const back = [...switchBranch(messages, 2, 0), user('8'), model('9')];
+    const again = switchBranch(switchBranch(back, 2, 1), 2, 0);
+    expect(texts(again)).toEqual(['问题 1', '回答 2', '问题 3', '回答 4', '问题 8', '回答 9']);
+  });
+
+  it('ignores a branch that does not exist', () => {
+    const { messages } = forked();
+    expect(switchBranch(messages, 2, 5)).toBe(messages);
+  });
+});
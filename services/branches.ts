@@ -0,0 +1,40 @@
+import { Message } from "../types";
+
+// The active head keeps the fork metadata; stored tails carry only their content
+const stripFork = ({ branches, branchIndex, ...rest }: Message): Message => rest;
+
+/** Snapshot of the current tail starting at index, plus its sibling list. */
+const currentBranches = (messages: Message[], index: number): { branches: Message[][]; active: number } => {
+  const head = messages[index];
+  const tail = [stripFork(head), ...messages.slice(index + 1)];
+  const branches = head.branches ? [...head.branches] : [tail];
+  const active = head.branchIndex ?? 0;
+  branches[active] = tail;
+  return { branches, active };
+};
+
+/**
+ * Replaces the user message at index with an edited copy, keeping the old
+ * tail reachable as a sibling branch. Returns the history before the fork and
+ * the new head, which becomes the latest branch.
+ */
+export const forkAt = (messages: Message[], index: number, edited: Message): { history: Message[]; head: Message } => {
+  const { branches } = currentBranches(messages, index);
+  const newTail = [stripFork(edited)];
+  return {
+    history: messages.slice(0, index),
+    head: { ...stripFork(edited), branches: [...branches, newTail], branchIndex: branches.length },
+  };
+};
+
+/** Swaps the tail after the fork at index for one of its siblings. */
+export const switchBranch = (messages: Message[], index: number, target: number): Message[] => {
+  const { branches } = currentBranches(messages, index);
+  const next = branches[target];
+  if (!next) return messages;
+  return [
+    ...messages.slice(0, index),
+    { ...next[0], branches, branchIndex: target },
+    ...next.slice(1),
+  ];
+};
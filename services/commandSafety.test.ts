@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCommand, detectShellLanguage } from './commandSafety';
+
+// [fence language, code] pairs per rule: every positive must trigger it, no negative may
+const CASES: Record<string, { flagged: [string, string][]; clean: [string, string][] }> = {
+  'format-volume': {
+    flagged: [
+      ['cmd', 'format d: /fs:ntfs /q'],
+      ['cmd', '    format D: /q'],
+      ['cmd', 'echo y | format e: /q'],
+      ['cmd', 'if exist e:\\ format e: /q /y'],
+      ['cmd', '@format f: /q'],
+      ['powershell', 'Format-Volume -DriveLetter D -FileSystem NTFS'],
+      ['powershell', 'Get-Disk 1 | Clear-Disk -RemoveData'],
+      ['bash', 'sudo mkfs.ext4 /dev/sdb1'],
+    ],
+    clean: [
+      ['powershell', 'Get-Date -Format "yyyy-MM-dd"'],
+      ['powershell', 'Get-Process | Format-Table Name, CPU'],
+      ['cmd', 'echo 请勿运行 format c: 以外的命令 > note.txt'],
+    ],
+  },
+  'diskpart-clean': {
+    flagged: [
+      ['cmd', 'diskpart\nselect disk 1\nclean'],
+      ['cmd', 'select disk 2\nclean all'],
+      ['cmd', 'select partition 3\ndelete partition override'],
+      ['diskpart', 'select disk 0\nclean'],
+      ['', 'select disk 0\nclean'],
+    ],
+    clean: [
+      ['cmd', 'cleanmgr /sageset:1'],
+      ['powershell', 'Remove-Item $env:TEMP\\clean -Force'],
+    ],
+  },
+  'disk-overwrite': {
+    flagged: [
+      ['bash', 'sudo dd if=ubuntu.iso of=/dev/sdb bs=4M'],
+      ['bash', 'cat image.bin > /dev/nvme0n1'],
+    ],
+    clean: [
+      ['bash', 'dd if=/dev/zero of=./test.img bs=1M count=100'],
+      ['bash', 'echo hi > /dev/null'],
+    ],
+  },
+  'recursive-delete-cmd': {
+    flagged: [
+      ['cmd', 'del /s /q C:\\Windows\\Temp\\*'],
+      ['cmd', '    del /s /q %TEMP%\\*'],
+      ['cmd', 'rd /s /q C:\\Windows.old'],
+      ['cmd', 'for /d %%d in (C:\\Temp\\*) do rmdir /s /q "%%d"'],
+      ['cmd', 'if exist C:\\old rd /s /q C:\\old'],
+      ['cmd', 'if not exist "D:\\keep me" rmdir /s /q D:\\work'],
+      ['cmd', 'cd C:\\cache && erase /s /q *.*'],
+      ['cmd', 'cmd /c "del /s /q C:\\logs\\*.log"'],
+      ['cmd', 'del ^\n  /s /q C:\\Temp\\*'],
+      ['powershell', 'cmd /c rd /s /q C:\\old'],
+      ['batchfile', 'del /s /q C:\\Windows'],
+      ['bat', 'rd /s /q C:\\old'],
+      ['winbatch', 'del /s /q C:\\Windows'],
+    ],
+    clean: [
+      ['cmd', 'del /q %TEMP%\\setup.log'],
+      ['cmd', 'dir /s C:\\Users\\*.pst'],
+      ['cmd', 'rem del /s /q C:\\Windows'],
+      ['cmd', 'echo Use sfc /scannow to verify'],
+    ],
+  },
+  'remove-item-recurse': {
+    flagged: [
+      ['powershell', 'Remove-Item -Path C:\\Temp\\* -Recurse -Force'],
+      ['powershell', 'Remove-Item C:\\Temp\\cache `\n    -Recurse -Force'],
+      ['powershell', 'Get-ChildItem C:\\Temp |\n  Remove-Item -Recurse'],
+      ['powershell', 'rm $dir -r'],
+      ['powershell', 'ri C:\\x -rec -force'],
+      ['powershell', 'Remove-Item C:\\x -Recurs'],
+      ['powershell', 'Remove-Item C:\\x -Recurse:$true'],
+      ['posh', 'Remove-Item -Recurse -Force C:\\'],
+      ['pwsh', 'Remove-Item -Recurse -Force C:\\'],
+      ['ps1con', 'Remove-Item -Recurse -Force C:\\'],
+    ],
+    clean: [
+      ['powershell', 'Remove-Item C:\\Temp\\setup.log'],
+      ['powershell', 'Get-ChildItem -Recurse C:\\Logs'],
+      ['powershell', '# Remove-Item C:\\ -Recurse'],
+      ['powershell', 'Remove-Item C:\\x -ReadOnlyX'],
+      ['powershell', 'Remove-Item C:\\x -Recursive'],
+    ],
+  },
+  'rm-rf': {
+    flagged: [
+      ['bash', 'rm -rf ~/.cache/thumbnails'],
+      ['bash', 'sudo rm -Rf /var/lib/apt/lists/*'],
+      ['bash', 'rm -fR build'],
+      ['bash', 'rm -r -f /tmp/x'],
+      ['bash', 'rm --recursive --force ./dist'],
+      ['bash', 'sudo rm \\\n  -rf /opt/old'],
+      ['', '#!/bin/bash\nrm -rf "$DIR"'],
+    ],
+    clean: [
+      ['bash', 'rm -r ./build'],
+      ['bash', 'rm -f stale.pid'],
+      ['bash', '# rm -rf / would be a disaster'],
+      ['powershell', 'rm -rf C:\\Temp'], // PowerShell has no -rf; remove-item-recurse covers -r
+    ],
+  },
+  'find-delete': {
+    flagged: [
+      ['bash', 'find / -delete'],
+      ['bash', 'find ~/Downloads -name "*.tmp" -mtime +7 -delete'],
+      ['bash', 'sudo find /var/log -type f -exec rm -f {} \\;'],
+      ['', 'find . -name node_modules -execdir rm -r {} +'],
+    ],
+    clean: [
+      ['bash', 'find / -name "*.log" -size +100M'],
+      ['bash', 'find . -type f -exec ls -l {} \\;'],
+      ['cmd', 'find "error" setup.log'],
+    ],
+  },
+  'diskpart-script': {
+    flagged: [
+      ['cmd', 'diskpart /s script.txt'],
+      ['powershell', 'diskpart.exe /s "C:\\Temp\\wipe.txt"'],
+      ['', 'diskpart /s clean.txt > log.txt'],
+    ],
+    clean: [
+      ['cmd', 'diskpart'],
+      ['cmd', 'echo list disk > list.txt'],
+    ],
+  },
+  'bcdedit-modify': {
+    flagged: [
+      ['cmd', 'bcdedit /set {current} safeboot minimal'],
+      ['cmd', 'bcdedit /deletevalue {current} safeboot'],
+      ['powershell', 'bcdedit.exe /default {abc}'],
+    ],
+    clean: [
+      ['cmd', 'bcdedit /enum'],
+      ['cmd', 'bcdedit /v'],
+    ],
+  },
+  'bootloader-rewrite': {
+    flagged: [
+      ['cmd', 'bootrec /fixmbr'],
+      ['cmd', 'bootrec /rebuildbcd'],
+      ['cmd', 'bcdboot C:\\Windows /s S: /f UEFI'],
+    ],
+    clean: [
+      ['cmd', 'bootrec /scanos'],
+    ],
+  },
+  'registry-delete': {
+    flagged: [
+      ['cmd', 'reg delete "HKLM\\SYSTEM\\CurrentControlSet\\Services\\foo" /f'],
+      ['powershell', 'Remove-Item -Path HKLM:\\SOFTWARE\\Vendor -Recurse'],
+      ['reg', 'Windows Registry Editor Version 5.00\n\n[-HKEY_CURRENT_USER\\Software\\Foo]'],
+      ['reg', 'Windows Registry Editor Version 5.00\n\n[HKEY_CURRENT_USER\\Software\\Foo]\n"Bar"=-'],
+      ['regedit', '[-HKEY_LOCAL_MACHINE\\SOFTWARE\\Foo]'],
+    ],
+    clean: [
+      ['cmd', 'reg query "HKLM\\SOFTWARE\\Microsoft\\Windows NT\\CurrentVersion"'],
+      ['cmd', 'reg export HKCU\\Software\\Foo backup.reg'],
+    ],
+  },
+  'registry-modify': {
+    flagged: [
+      ['cmd', 'reg add "HKLM\\SYSTEM\\CurrentControlSet\\Control\\GraphicsDrivers" /v TdrDelay /t REG_DWORD /d 8 /f'],
+      ['powershell', 'Set-ItemProperty -Path HKLM:\\SYSTEM\\Foo -Name Bar -Value 1'],
+      ['reg', 'Windows Registry Editor Version 5.00\n\n[HKEY_LOCAL_MACHINE\\SOFTWARE\\Foo]\n"A"=dword:00000001'],
+    ],
+    clean: [
+      ['powershell', 'Get-ItemProperty -Path HKLM:\\SOFTWARE\\Foo'],
+      ['powershell', 'Set-ItemProperty -Path C:\\file.txt -Name IsReadOnly -Value $true'],
+    ],
+  },
+  'shadow-copy-delete': {
+    flagged: [
+      ['cmd', 'vssadmin delete shadows /all /quiet'],
+      ['cmd', 'wmic shadowcopy delete'],
+      ['powershell', 'Get-CimInstance Win32_ShadowCopy | Remove-CimInstance'],
+    ],
+    clean: [
+      ['cmd', 'vssadmin list shadows'],
+    ],
+  },
+  'wipe-free-space': {
+    flagged: [['cmd', 'cipher /w:C:\\']],
+    clean: [['cmd', 'cipher /e secret']],
+  },
+  'remote-script': {
+    flagged: [
+      ['powershell', 'iwr https://example.com/x.ps1 | iex'],
+      ['powershell', 'Invoke-WebRequest https://example.com/x.ps1 `\n  | Invoke-Expression'],
+      ['powershell', 'irm https://example.com/x.ps1 |\n  iex'],
+      ['powershell', 'iex (New-Object Net.WebClient).DownloadString("https://example.com/x.ps1")'],
+      ['bash', 'curl -fsSL https://example.com/install.sh | sudo bash'],
+    ],
+    clean: [
+      ['powershell', 'Invoke-WebRequest https://example.com/x.ps1 -OutFile x.ps1'],
+      ['bash', 'curl -fsSL https://example.com/install.sh -o install.sh'],
+    ],
+  },
+  'execution-policy': {
+    flagged: [['powershell', 'Set-ExecutionPolicy Bypass -Scope Process -Force']],
+    clean: [['powershell', 'Set-ExecutionPolicy RemoteSigned -Scope CurrentUser']],
+  },
+  'security-disable': {
+    flagged: [
+      ['powershell', 'Set-MpPreference -DisableRealtimeMonitoring $true'],
+      ['cmd', 'netsh advfirewall set allprofiles state off'],
+      ['cmd', 'reg add HKLM\\SOFTWARE\\Microsoft\\Windows\\CurrentVersion\\Policies\\System /v EnableLUA /t REG_DWORD /d 0 /f'],
+    ],
+    clean: [
+      ['powershell', 'Set-MpPreference -DisableRealtimeMonitoring $false'],
+      ['cmd', 'netsh advfirewall set allprofiles state on'],
+    ],
+  },
+  'ownership-change': {
+    flagged: [
+      ['cmd', 'takeown /f C:\\Windows\\System32\\drivers /r /d y'],
+      ['cmd', 'icacls C:\\Windows /grant Everyone:F /t'],
+      ['bash', 'sudo chmod -R 777 /var/www'],
+      ['bash', 'sudo chown -R user:user /usr'],
+    ],
+    clean: [
+      ['cmd', 'takeown /f C:\\file.txt'],
+      ['bash', 'chmod 644 notes.txt'],
+    ],
+  },
+  'service-delete': {
+    flagged: [
+      ['cmd', 'sc delete BadService'],
+      ['powershell', 'Remove-Service -Name BadService'],
+    ],
+    clean: [['cmd', 'sc query wuauserv']],
+  },
+  'force-shutdown': {
+    flagged: [
+      ['cmd', 'shutdown /r /t 0'],
+      ['cmd', 'taskkill /im explorer.exe /f'],
+      ['powershell', 'Stop-Process -Name chrome -Force'],
+      ['powershell', 'Stop-Process -Name chrome -fo'],
+      ['powershell', 'Restart-Computer'],
+    ],
+    clean: [
+      ['cmd', 'tasklist /fi "imagename eq chrome.exe"'],
+      ['powershell', 'Get-Process chrome'],
+    ],
+  },
+};
+
+const ruleIds = (fence: string, code: string) => analyzeCommand(code, fence).findings.map(f => f.ruleId);
+
+describe.each(Object.entries(CASES))('rule %s', (ruleId, { flagged, clean }) => {
+  it.each(flagged)('flags [%s] %s', (fence, code) => {
+    expect(ruleIds(fence, code)).toContain(ruleId);
+  });
+
+  it.each(clean)('does not flag [%s] %s', (fence, code) => {
+    expect(ruleIds(fence, code)).not.toContain(ruleId);
+  });
+});
+
+describe('analyzeCommand', () => {
+  it('rates a block by its worst finding and lists high findings first', () => {
+    const analysis = analyzeCommand('shutdown /r /t 0\nrd /s /q C:\\old', 'cmd');
+    expect(analysis.level).toBe('high');
+    expect(analysis.findings.map(f => f.level)).toEqual(['high', 'caution']);
+  });
+
+  it('rates harmless commands as safe', () => {
+    expect(analyzeCommand('ipconfig /all\nsfc /scannow', 'cmd')).toMatchObject({ level: 'safe', findings: [] });
+  });
+
+  it('reports the first line of a continued command with the joined text', () => {
+    const [finding] = analyzeCommand('Write-Host "清理"\nRemove-Item C:\\Temp `\n  -Recurse -Force', 'powershell').findings;
+    expect(finding).toMatchObject({ ruleId: 'remove-item-recurse', line: 2, excerpt: 'Remove-Item C:\\Temp  -Recurse -Force' });
+  });
+
+  it('skips code blocks in languages that are not shells', () => {
+    expect(analyzeCommand('import shutil\nshutil.rmtree("/")  # rm -rf /', 'python').level).toBe('safe');
+    expect(analyzeCommand('{ "cmd": "format c: /q" }', 'json').level).toBe('safe');
+  });
+
+  it('rates unrecognised fence labels by their content', () => {
+    expect(analyzeCommand('select disk 0\nclean', 'diskpart').level).toBe('high');
+    expect(analyzeCommand('del /s /q C:\\Windows', 'batchfile').level).toBe('high');
+    expect(analyzeCommand('Remove-Item -Recurse -Force C:\\', 'posh').level).toBe('high');
+    expect(analyzeCommand('rm -rf /', 'fish').level).toBe('high');
+  });
+});
+
+describe('detectShellLanguage', () => {
+  it('trusts an explicit fence language', () => {
+    expect(detectShellLanguage('rm -rf x', 'powershell')).toBe('powershell');
+    expect(detectShellLanguage('ls', 'posh')).toBe('powershell');
+    expect(detectShellLanguage('echo', 'batchfile')).toBe('cmd');
+    expect(detectShellLanguage('clean', 'diskpart')).toBe('cmd');
+    expect(detectShellLanguage('[HKEY_CURRENT_USER\\Software]', 'regedit')).toBe('reg');
+  });
+
+  it('guesses from the content of unrecognised fences but not of other languages', () => {
+    expect(detectShellLanguage('Get-ChildItem -Recurse', 'ps1con')).toBe('powershell');
+    expect(detectShellLanguage('sudo apt update', 'python')).toBe('unknown');
+  });
+
+  it('guesses from the content of generic fences', () => {
+    expect(detectShellLanguage('Get-ChildItem -Recurse', 'shell')).toBe('powershell');
+    expect(detectShellLanguage('@echo off\ndel /q %TEMP%\\*')).toBe('cmd');
+    expect(detectShellLanguage('sudo apt update')).toBe('bash');
+    expect(detectShellLanguage('Windows Registry Editor Version 5.00')).toBe('reg');
+  });
+});
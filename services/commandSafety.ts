@@ -0,0 +1,337 @@
+// Local, rule-based review of code blocks before they are pasted into an (often elevated) shell.
+
+export type ShellLanguage = 'powershell' | 'cmd' | 'bash' | 'reg' | 'unknown';
+
+export type RiskLevel = 'safe' | 'caution' | 'high';
+
+export interface CommandFinding {
+  ruleId: string;
+  level: Exclude<RiskLevel, 'safe'>;
+  title: string;
+  explanation: string;
+  line: number; // 1-based
+  excerpt: string;
+}
+
+export interface CommandAnalysis {
+  language: ShellLanguage;
+  level: RiskLevel;
+  findings: CommandFinding[];
+}
+
+export const SHELL_LABELS: Record<ShellLanguage, string> = {
+  powershell: 'PowerShell',
+  cmd: 'CMD',
+  bash: 'Bash',
+  reg: 'REG',
+  unknown: 'Shell',
+};
+
+export const RISK_LABELS: Record<RiskLevel, string> = {
+  safe: '安全',
+  caution: '注意',
+  high: '高风险',
+};
+
+// --- Language Detection ---
+
+// Fence info strings the model uses for each shell
+const FENCE_LANGUAGES: Record<string, ShellLanguage> = {
+  powershell: 'powershell', ps: 'powershell', ps1: 'powershell', pwsh: 'powershell', posh: 'powershell',
+  cmd: 'cmd', bat: 'cmd', batch: 'cmd', batchfile: 'cmd', dos: 'cmd', doscon: 'cmd', diskpart: 'cmd',
+  bash: 'bash', sh: 'bash', zsh: 'bash', ksh: 'bash', shellsession: 'bash',
+  reg: 'reg', registry: 'reg', regedit: 'reg',
+};
+
+// Source and data languages nobody pastes into a shell. Every other label,
+// known or not, is judged by its content.
+const NON_SHELL_FENCES = new Set([
+  'json', 'jsonc', 'json5', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html', 'css', 'csv', 'markdown', 'md', 'diff',
+  'python', 'py', 'javascript', 'js', 'jsx', 'typescript', 'ts', 'tsx', 'java', 'kotlin', 'c', 'cpp', 'c++',
+  'csharp', 'cs', 'go', 'rust', 'rs', 'ruby', 'rb', 'php', 'lua', 'swift', 'sql',
+]);
+
+const LANGUAGE_SIGNALS: { language: Exclude<ShellLanguage, 'unknown'>; pattern: RegExp; weight: number }[] = [
+  { language: 'reg', pattern: /^Windows Registry Editor Version|^REGEDIT4/m, weight: 10 },
+  { language: 'reg', pattern: /^\[-?HKEY_[A-Z_]+\\/m, weight: 5 },
+  { language: 'powershell', pattern: /\b(Get|Set|New|Remove|Start|Stop|Restart|Invoke|Clear|Format|Test|Enable|Disable|Add|Optimize|Repair)-[A-Z][A-Za-z]+/, weight: 3 },
+  { language: 'powershell', pattern: /\$[A-Za-z_][\w]*\s*=|\$env:|\|\s*(Where|Select|ForEach|Sort)-Object\b/, weight: 3 },
+  { language: 'powershell', pattern: /\s-(Recurse|Force|Path|Name|Confirm)\b/, weight: 1 },
+  { language: 'cmd', pattern: /^\s*@?echo off\b|^\s*(rem|::)\s/im, weight: 4 },
+  { language: 'cmd', pattern: /%[A-Za-z_]+%|^\s*set \/[ap]\b/im, weight: 3 },
+  { language: 'cmd', pattern: /\b(del|erase|rd|rmdir|copy|xcopy|robocopy|dir|attrib|sfc|chkdsk|bcdedit|diskpart|reg|netsh|ipconfig)\b[^\n]*\s\/[A-Za-z?]/i, weight: 2 },
+  { language: 'bash', pattern: /^#!\/(usr\/)?bin\/(env\s+)?(ba|z)?sh/m, weight: 10 },
+  { language: 'bash', pattern: /^\s*(sudo|apt(-get)?|yum|dnf|pacman|brew|chmod|chown|export|grep|ls|cat)\s/m, weight: 3 },
+  { language: 'bash', pattern: /\$\(|\$\{[A-Za-z_]+\}|\s-[a-zA-Z]{2,}\s/, weight: 1 },
+];
+
+const isNonShellFence = (fenceLanguage: string) => NON_SHELL_FENCES.has(fenceLanguage.trim().toLowerCase());
+
+/**
+ * Best guess at which shell a block is written for. An explicit fence language
+ * wins; generic or unrecognised ones ("shell", "diskpart", none) fall back to
+ * scoring the content.
+ */
+export const detectShellLanguage = (code: string, fenceLanguage = ''): ShellLanguage => {
+  const fence = fenceLanguage.trim().toLowerCase();
+  if (FENCE_LANGUAGES[fence]) return FENCE_LANGUAGES[fence];
+  if (NON_SHELL_FENCES.has(fence)) return 'unknown';
+
+  const scores: Partial<Record<ShellLanguage, number>> = {};
+  for (const signal of LANGUAGE_SIGNALS) {
+    if (signal.pattern.test(code)) scores[signal.language] = (scores[signal.language] || 0) + signal.weight;
+  }
+  let best: ShellLanguage = 'unknown';
+  let bestScore = 0;
+  for (const [language, score] of Object.entries(scores) as [ShellLanguage, number][]) {
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// --- Rules ---
+
+interface SafetyRule {
+  id: string;
+  level: CommandFinding['level'];
+  title: string;
+  explanation: string;
+  pattern: RegExp;
+  // Limits rules whose syntax means something harmless elsewhere; unset applies everywhere
+  languages?: ShellLanguage[];
+}
+
+const REGISTRY_ROOT = String.raw`(HKLM|HKCU|HKCR|HKU|HKCC|HKEY_[A-Z_]+)`;
+
+// Where a cmd command can start: a line, after a separator, a for loop's do,
+// an if condition, else, or cmd /c. Keeps words like "format" in arguments out.
+const CMD_START = String.raw`(^\s*|[;&|(]\s*|\bdo\s+|\belse\s+|\bcmd(\.exe)?\s+\/[ck]\s+"?|\bif\s+(\/i\s+)?(not\s+)?(exist\s+("[^"]*"|\S+)|errorlevel\s+\d+|defined\s+\S+|("[^"]*"|\S+)\s*==\s*("[^"]*"|\S+))\s+)@?`;
+
+const RULES: SafetyRule[] = [
+  {
+    id: 'format-volume',
+    level: 'high',
+    title: '格式化磁盘',
+    explanation: '会清空整个分区或磁盘上的所有数据，且无法撤销。',
+    pattern: new RegExp(String.raw`${CMD_START}format(\.com)?\s+[a-z]:|\b(Format-Volume|Clear-Disk|Initialize-Disk)\b|\bmkfs(\.\w+)?\s`, 'im'),
+  },
+  {
+    id: 'diskpart-clean',
+    level: 'high',
+    title: 'DiskPart 清除或删除分区',
+    explanation: 'clean 会抹掉所选磁盘的全部分区表，delete 会删除分区；选错磁盘会丢失所有数据。',
+    pattern: /^\s*(clean(\s+all)?|delete\s+(partition|volume|disk)\b.*)\s*$|\bdiskpart\b.*\bclean\b/im,
+    languages: ['cmd', 'unknown'],
+  },
+  {
+    id: 'disk-overwrite',
+    level: 'high',
+    title: '直接写入磁盘设备',
+    explanation: '向块设备直接写入会覆盖分区表和文件系统。',
+    pattern: /\bdd\b[^\n]*\bof=\/dev\/|>\s*\/dev\/(sd|nvme|hd)[a-z0-9]*/i,
+  },
+  {
+    id: 'recursive-delete-cmd',
+    level: 'high',
+    title: '递归删除文件',
+    explanation: '/s 会删除目录及其所有子目录中的文件，不经过回收站。',
+    pattern: new RegExp(String.raw`${CMD_START}(del|erase|rd|rmdir)\b[^\n]*\s\/s\b`, 'im'),
+    languages: ['cmd', 'powershell', 'unknown'],
+  },
+  {
+    id: 'remove-item-recurse',
+    level: 'high',
+    title: '递归删除文件 (Remove-Item -Recurse)',
+    explanation: '会删除目标路径下的全部内容，不经过回收站；路径或变量为空时可能删除意料之外的目录。',
+    // PowerShell accepts any unambiguous prefix of a parameter name (-r, -rec, …)
+    pattern: /\b(Remove-Item|ri|rm|rmdir|rd|del|erase)\b[^\n]*\s-r(e(c(u(r(se?)?)?)?)?)?\b/i,
+    languages: ['powershell', 'unknown'],
+  },
+  {
+    id: 'rm-rf',
+    level: 'high',
+    title: '强制递归删除 (rm -rf)',
+    explanation: '不经确认删除目录树中的一切，路径写错或变量为空时后果严重。',
+    pattern: /\brm\s+(-[a-zA-Z]*r[a-zA-Z]*f|-[a-zA-Z]*f[a-zA-Z]*r|-r\s+-f|-f\s+-r|--recursive\s+--force|--force\s+--recursive)\b/i,
+    languages: ['bash', 'unknown'],
+  },
+  {
+    id: 'find-delete',
+    level: 'high',
+    title: '批量删除查找结果 (find -delete)',
+    explanation: '会删除 find 匹配到的每一个文件，不经确认；条件写错时可能删掉整个目录树。',
+    pattern: /\bfind\b[^\n]*\s(-delete\b|-exec(dir)?\s+rm\b)/i,
+    languages: ['bash', 'unknown'],
+  },
+  {
+    id: 'diskpart-script',
+    level: 'high',
+    title: '运行 DiskPart 脚本',
+    explanation: 'diskpart /s 会不经确认执行脚本里的全部命令（包括 clean 和 delete）；运行前请先打开脚本检查所选磁盘。',
+    pattern: /\bdiskpart(\.exe)?\b[^\n]*\s\/s\b/i,
+  },
+  {
+    id: 'bcdedit-modify',
+    level: 'high',
+    title: '修改启动配置 (bcdedit)',
+    explanation: '错误的启动配置可能导致系统无法启动，需要用恢复环境修复。',
+    pattern: /\bbcdedit(\.exe)?\b[^\n]*\/(set|delete|deletevalue|import|create|copy|default|bootsequence|displayorder)\b/i,
+  },
+  {
+    id: 'bootloader-rewrite',
+    level: 'caution',
+    title: '重写引导记录',
+    explanation: '会改写磁盘的引导扇区或 BCD，多系统环境下可能导致其他系统无法启动。',
+    pattern: /\bbootrec\b[^\n]*\/(fixmbr|fixboot|rebuildbcd)|\bbcdboot\b/i,
+  },
+  {
+    id: 'registry-delete',
+    level: 'high',
+    title: '删除注册表项',
+    explanation: '删除系统或驱动相关的注册表项可能导致程序失效或系统无法启动。建议先用 reg export 备份。',
+    pattern: new RegExp(String.raw`\breg(\.exe)?\s+delete\b|\bRemove-Item(Property)?\b[^\n]*\b${REGISTRY_ROOT}:?\\|^\[-HKEY_|^"[^"\n]*"=-\s*$|^@=-\s*$`, 'im'),
+  },
+  {
+    id: 'registry-modify',
+    level: 'caution',
+    title: '修改注册表',
+    explanation: '修改系统级注册表值会影响所有用户，修改前请确认键值来源可靠并做好备份。',
+    pattern: new RegExp(String.raw`\breg(\.exe)?\s+(add|import|restore|load)\b|\b(Set|New)-ItemProperty\b[^\n]*\b${REGISTRY_ROOT}:?\\|^\[HKEY_LOCAL_MACHINE\\`, 'im'),
+  },
+  {
+    id: 'shadow-copy-delete',
+    level: 'high',
+    title: '删除卷影副本 / 还原点',
+    explanation: '会删除系统还原点和文件历史版本，出问题后将无法回滚。',
+    pattern: /\bvssadmin\b[^\n]*\bdelete\s+shadows\b|\bwmic\s+shadowcopy\s+delete\b|\bGet-CimInstance\b[^\n]*Win32_ShadowCopy[^\n]*Remove-CimInstance/i,
+  },
+  {
+    id: 'wipe-free-space',
+    level: 'caution',
+    title: '擦除可用空间',
+    explanation: 'cipher /w 会长时间占用磁盘并使已删除文件彻底无法恢复。',
+    pattern: /\bcipher\b[^\n]*\/w\b/i,
+  },
+  {
+    id: 'remote-script',
+    level: 'high',
+    title: '下载并执行远程脚本',
+    explanation: '直接执行网络上的脚本，无法事先审查内容；请先下载并检查脚本再运行。',
+    pattern: /\b(iwr|irm|Invoke-WebRequest|Invoke-RestMethod|curl|wget)\b[^\n]*\|\s*(iex|Invoke-Expression|(sudo\s+)?(ba|z)?sh)\b|\b(iex|Invoke-Expression)\b[^\n]*\b(DownloadString|iwr|irm|Invoke-WebRequest|Invoke-RestMethod)\b/i,
+  },
+  {
+    id: 'execution-policy',
+    level: 'caution',
+    title: '放宽脚本执行策略',
+    explanation: 'Bypass/Unrestricted 会允许运行任何未签名脚本，完成后建议恢复默认策略。',
+    pattern: /\bSet-ExecutionPolicy\b[^\n]*\b(Bypass|Unrestricted)\b/i,
+  },
+  {
+    id: 'security-disable',
+    level: 'caution',
+    title: '关闭系统安全防护',
+    explanation: '关闭 Defender、防火墙或 UAC 会让系统暴露于恶意软件，排障结束后请重新开启。',
+    pattern: /\bSet-MpPreference\b[^\n]*-Disable\w+\s+\$?true|\bnetsh\s+advfirewall\s+set\b[^\n]*\bstate\s+off|\bEnableLUA\b[^\n]*\b0\b/i,
+  },
+  {
+    id: 'ownership-change',
+    level: 'caution',
+    title: '批量修改权限或所有权',
+    explanation: '对系统目录递归修改所有权或权限可能破坏 Windows 组件的访问控制。',
+    pattern: /\btakeown\b[^\n]*\/r\b|\bicacls\b[^\n]*\/(grant|reset|setowner)[^\n]*\/t\b|\bchmod\s+-R\s+777\b|\bchown\s+-R\b/i,
+  },
+  {
+    id: 'service-delete',
+    level: 'caution',
+    title: '删除系统服务',
+    explanation: '删除服务后需要重新安装对应软件或驱动才能恢复。',
+    pattern: /\bsc(\.exe)?\s+delete\b|\bRemove-Service\b/i,
+  },
+  {
+    id: 'force-shutdown',
+    level: 'caution',
+    title: '强制关机或结束进程',
+    explanation: '未保存的工作会丢失。',
+    pattern: /\bshutdown\b[^\n]*\/[rsp]\b|\b(Restart|Stop)-Computer\b|\btaskkill\b[^\n]*\/f\b|\bStop-Process\b[^\n]*\s-f(o(r(ce?)?)?)?\b/i,
+  },
+];
+
+const LEVEL_ORDER: RiskLevel[] = ['safe', 'caution', 'high'];
+
+// Comment lines are explanation, not commands
+const isComment = (line: string, language: ShellLanguage) => {
+  const trimmed = line.trim();
+  if (language === 'cmd') return /^(rem\s|::)/i.test(trimmed);
+  if (language === 'reg') return trimmed.startsWith(';');
+  return trimmed.startsWith('#') && !trimmed.startsWith('#!');
+};
+
+// Trailing characters that carry a command onto the next line; a trailing pipe is kept
+const CONTINUATIONS: Record<ShellLanguage, RegExp> = {
+  powershell: /(`|\|)\s*$/,
+  cmd: /\^$/,
+  bash: /(\\|\|)\s*$/,
+  reg: /\\$/,
+  unknown: /(`|\^|\\|\|)\s*$/,
+};
+
+/** Joins continued lines so a command split across them is checked as one; line is 1-based. */
+const logicalLines = (code: string, language: ShellLanguage): { text: string; line: number }[] => {
+  const result: { text: string; line: number }[] = [];
+  let current: { text: string; line: number } | null = null;
+  code.split('\n').forEach((raw, i) => {
+    const text: string = current ? `${current.text} ${raw.trim()}` : raw;
+    const line = current ? current.line : i + 1;
+    const continued = !isComment(text, language) && text.match(CONTINUATIONS[language]);
+    if (continued) {
+      current = { text: continued[0].trim() === '|' ? text.trimEnd() : text.slice(0, continued.index), line };
+    } else {
+      result.push({ text, line });
+      current = null;
+    }
+  });
+  if (current) result.push(current);
+  return result;
+};
+
+/** Runs every applicable rule on each command; the block's level is its worst finding. */
+export const analyzeCommand = (code: string, fenceLanguage = ''): CommandAnalysis => {
+  const language = detectShellLanguage(code, fenceLanguage);
+  const findings: CommandFinding[] = [];
+  // Source code in other languages (python, json, …) isn't pasted into a shell
+  if (isNonShellFence(fenceLanguage)) {
+    return { language, level: 'safe', findings };
+  }
+  const lines = logicalLines(code, language);
+
+  for (const rule of RULES) {
+    if (rule.languages && !rule.languages.includes(language)) continue;
+    const match = lines.find(({ text }) => !isComment(text, language) && rule.pattern.test(text));
+    if (!match) continue;
+    findings.push({
+      ruleId: rule.id,
+      level: rule.level,
+      title: rule.title,
+      explanation: rule.explanation,
+      line: match.line,
+      excerpt: match.text.trim(),
+    });
+  }
+
+  findings.sort((a, b) => LEVEL_ORDER.indexOf(b.level) - LEVEL_ORDER.indexOf(a.level));
+  const level = findings.reduce<RiskLevel>(
+    (worst, f) => LEVEL_ORDER.indexOf(f.level) > LEVEL_ORDER.indexOf(worst) ? f.level : worst,
+    'safe'
+  );
+  return { language, level, findings };
+};
+
+/** Text for the confirmation shown before a high-risk block is copied. */
+export const describeFindings = (analysis: CommandAnalysis): string => [
+  `此 ${SHELL_LABELS[analysis.language]} 命令包含${RISK_LABELS[analysis.level]}操作：`,
+  '',
+  ...analysis.findings.map(f => `• ${f.title}（第 ${f.line} 行: ${f.excerpt}）\n  ${f.explanation}`),
+].join('\n');
@@ -0,0 +1,149 @@
+import { ContextSummary, Message } from "../types";
+import { composePromptText } from "./diagnostics";
+
+// Rough token accounting for chat history. Exact counts need a round trip to
+// the provider, so this errs slightly high: a CJK character is about one
+// token, other text about four characters per token.
+
+export const CONTEXT_BUDGETS: { value: number; label: string }[] = [
+  { value: 8000, label: '8K' },
+  { value: 16000, label: '16K' },
+  { value: 32000, label: '32K' },
+  { value: 64000, label: '64K' },
+  { value: 128000, label: '128K' },
+];
+
+export const DEFAULT_CONTEXT_BUDGET = 32000;
+
+// Share of the budget kept verbatim after summarizing; the rest is headroom until the next pass
+const RECENT_SHARE = 0.5;
+// Gemini bills an image at a flat rate regardless of its size
+const IMAGE_TOKENS = 258;
+// Role markers and turn separators
+const MESSAGE_OVERHEAD = 4;
+
+// CJK punctuation, kana, Han, full-width forms and hangul
+const CJK = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef\uac00-\ud7af]/g;
+
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjk = text.match(CJK)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+// Messages are replaced rather than mutated, so an object seen before has the same cost
+const messageTokens = new WeakMap<Message, number>();
+
+/** Estimated tokens a message costs when replayed as history, attachments included. */
+export const estimateMessageTokens = (message: Message): number => {
+  const cached = messageTokens.get(message);
+  if (cached !== undefined) return cached;
+  const text = message.role === 'user' ? composePromptText(message) : message.text;
+  const attachments = (message.attachments || []).reduce((sum, a) =>
+    sum + estimateTokens(a.name) + (a.kind === 'image' ? IMAGE_TOKENS : estimateTokens(a.data)), 0);
+  const tokens = estimateTokens(text) + attachments + MESSAGE_OVERHEAD;
+  messageTokens.set(message, tokens);
+  return tokens;
+};
+
+/** A summary only applies while the message it ends at is still in the conversation. */
+export const isSummaryValid = (messages: Message[], summary: ContextSummary | null | undefined): summary is ContextSummary =>
+  !!summary && messages.some(m => m.id === summary.throughId);
+
+/** Whether a message was folded into the summary and is no longer sent to the model. */
+export const summarizedIds = (messages: Message[], summary: ContextSummary | null | undefined): Set<string> => {
+  const ids = new Set<string>();
+  if (!isSummaryValid(messages, summary)) return ids;
+  for (const message of messages) {
+    if (!message.pinned) ids.add(message.id);
+    if (message.id === summary.throughId) break;
+  }
+  return ids;
+};
+
+/** The messages actually replayed to the model: pinned ones plus everything after the summary. */
+export const activeHistory = (messages: Message[], summary: ContextSummary | null | undefined): Message[] => {
+  const summarized = summarizedIds(messages, summary);
+  return messages.filter(m => !summarized.has(m.id));
+};
+
+export interface ContextUsage {
+  tokens: number; // History plus summary, as sent with the next turn
+  summaryTokens: number;
+  budget: number;
+  messageCount: number; // Messages sent verbatim
+  summarizedCount: number;
+}
+
+export const measureContext = (messages: Message[], summary: ContextSummary | null | undefined, budget: number): ContextUsage => {
+  const active = activeHistory(messages, summary);
+  const valid = isSummaryValid(messages, summary);
+  const summaryTokens = valid ? estimateTokens(summary.text) : 0;
+  return {
+    tokens: active.reduce((sum, m) => sum + estimateMessageTokens(m), summaryTokens),
+    summaryTokens,
+    budget,
+    messageCount: active.length,
+    summarizedCount: valid ? summary.summarizedCount : 0,
+  };
+};
+
+export interface SummarizationPlan {
+  toSummarize: Message[];
+  throughId: string;
+}
+
+/**
+ * Decides which turns to fold into the summary once the history is over
+ * budget. The most recent turns, up to half the budget, stay verbatim; the
+ * cut always lands before a user message so a question keeps its answer.
+ * Returns null when nothing needs to (or can) be summarized.
+ */
+export const planSummarization = (
+  messages: Message[],
+  summary: ContextSummary | null | undefined,
+  budget: number
+): SummarizationPlan | null => {
+  if (measureContext(messages, summary, budget).tokens <= budget) return null;
+
+  const summarized = summarizedIds(messages, summary);
+  let recent = 0;
+  let cut = messages.length;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (summarized.has(message.id)) break;
+    if (!message.pinned) recent += estimateMessageTokens(message);
+    if (recent > budget * RECENT_SHARE) break;
+    if (message.role === 'user') cut = i;
+  }
+  // Always leave the latest exchange alone, however long it is
+  if (cut === messages.length) {
+    cut = messages.map(m => m.role).lastIndexOf('user');
+    if (cut <= 0) return null;
+  }
+
+  const toSummarize = messages.slice(0, cut).filter(m => !m.pinned && !summarized.has(m.id) && m.text.length > 0);
+  if (toSummarize.length === 0) return null;
+  return { toSummarize, throughId: messages[cut - 1].id };
+};
+
+/** The request sent to the summarizer: the previous summary plus the turns to fold in. */
+export const buildSummaryPrompt = (previous: ContextSummary | null | undefined, messages: Message[]): string => {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? '用户' : 'V-D'}：${m.role === 'user' ? composePromptText(m) : m.text}`)
+    .join('\n\n');
+  return [
+    '请把下面的电脑故障排查对话压缩成一份供后续对话参考的摘要。',
+    '要求：',
+    '- 保留设备信息（型号、系统版本、硬件配置）、报错代码和关键现象。',
+    '- 列出已经尝试过的步骤及其结果，以及得出的结论。',
+    '- 列出尚未解决的问题和下一步计划。',
+    '- 不要寒暄，不要编造对话中没有的内容，使用简洁的要点。',
+    previous?.text ? `\n此前的摘要（请合并进新摘要）：\n${previous.text}` : '',
+    `\n需要压缩的对话：\n${transcript}`,
+  ].join('\n');
+};
+
+/** Compact token count for labels: 950, 12.3k, 128k. */
+export const formatTokens = (tokens: number): string =>
+  tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(tokens < 10000 ? 1 : 0).replace(/\.0$/, '')}k`;
@@ -0,0 +1,152 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { ChatMode, Conversation, Message } from '../types';
+import { parseConversationImport, toHTML, toJSON, toMarkdown } from './conversationExport';
+
+const telemetry = {
+  source: 'agent',
+  status: 'online',
+  device: { cpuName: 'AMD Ryzen 7 7800X3D', gpuName: 'NVIDIA RTX 4070' },
+  stats: { cpuLoad: 30, cpuTemp: 60, gpuLoad: 20, gpuTemp: 50, ramUsed: 12, ramTotal: 32, diskUsed: 400, diskTotal: 1000 },
+  trends: { cpuTemp: { current: 60, min: 55, avg: 58, max: 71 } },
+  trendWindowMs: 300_000,
+  capturedAt: 1_700_000_000_000,
+};
+
+const conversation = (messages: Message[]): Conversation => ({
+  id: 'conv-1',
+  title: '蓝屏排查',
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_000_000,
+  mode: ChatMode.FAST,
+  messages,
+});
+
+const exported = (message: Record<string, unknown>) => JSON.stringify({
+  format: 'v-d-conversation',
+  version: 1,
+  exportedAt: 0,
+  conversation: { title: '导入', mode: ChatMode.FAST, messages: [{ id: '1', role: 'user', text: '电脑很卡', ...message }] },
+});
+
+describe('parseConversationImport', () => {
+  it('round-trips an exported conversation', () => {
+    const original = conversation([
+      { id: '1', role: 'user', text: '温度高', isDiagnostic: true, telemetry: telemetry as any },
+      { id: '2', role: 'model', text: '请清灰', sources: [{ uri: 'https://example.com', title: '指南' }] },
+    ]);
+    const result = parseConversationImport(toJSON(original));
+    expect('conversation' in result && result.conversation.messages).toEqual(original.messages);
+  });
+
+  it('accepts valid telemetry and attachments', () => {
+    const attachment = { id: 'a1', kind: 'text', name: 'log.txt', mimeType: 'text/plain', size: 12, data: 'error' };
+    expect(parseConversationImport(exported({ telemetry, attachments: [attachment] }))).toHaveProperty('conversation');
+  });
+
+  it('rejects trends for metrics this build does not know', () => {
+    const result = parseConversationImport(exported({ telemetry: { ...telemetry, trends: { foo: {} } } }));
+    expect(result).toEqual({ error: 'messages[0].telemetry 无效' });
+  });
+
+  it('rejects trends with missing or non-numeric values', () => {
+    for (const trend of [{}, { current: '60', min: 55, avg: 58, max: 71 }, { current: 60, min: 55, avg: null, max: 71 }]) {
+      const result = parseConversationImport(exported({ telemetry: { ...telemetry, trends: { cpuTemp: trend } } }));
+      expect(result).toEqual({ error: 'messages[0].telemetry 无效' });
+    }
+  });
+
+  it('rejects telemetry with a malformed device or stats', () => {
+    for (const broken of [
+      { ...telemetry, device: { cpuName: {}, gpuName: 'GPU' } },
+      { ...telemetry, device: { ...telemetry.device, os: 7 } },
+      { ...telemetry, stats: { ...telemetry.stats, ramTotal: 'lots' } },
+      { ...telemetry, capturedAt: undefined },
+    ]) {
+      expect(parseConversationImport(exported({ telemetry: broken }))).toEqual({ error: 'messages[0].telemetry 无效' });
+    }
+  });
+
+  it('rejects attachments without an id or a numeric size', () => {
+    const attachment = { id: 'a1', kind: 'image', name: 'shot.png', mimeType: 'image/png', size: 10, data: 'AAAA' };
+    for (const broken of [{ ...attachment, id: undefined }, { ...attachment, size: undefined }, { ...attachment, size: '10' }]) {
+      expect(parseConversationImport(exported({ attachments: [broken] }))).toEqual({ error: 'messages[0].attachments 无效' });
+    }
+  });
+
+  it('rejects attachment types the app would not have accepted', () => {
+    const image = { id: 'a1', kind: 'image', name: 'shot.png', mimeType: 'image/png', size: 10, data: 'AAAA' };
+    const text = { id: 'a2', kind: 'text', name: 'log.txt', mimeType: 'text/plain', size: 5, data: 'error' };
+    for (const broken of [
+      { ...image, mimeType: 'text/html' },
+      { ...image, mimeType: 'image/svg+xml' },
+      { ...image, mimeType: undefined },
+      { ...text, mimeType: 'text/html' },
+      { ...text, kind: 'video' },
+    ]) {
+      expect(parseConversationImport(exported({ attachments: [broken] }))).toEqual({ error: 'messages[0].attachments 无效' });
+    }
+  });
+
+  it('checks the types of usage, stopped and thinkingMs', () => {
+    const usage = {
+      mode: ChatMode.FAST, model: 'gemini-2.5-flash', totalMs: 1200, firstTokenMs: 300,
+      tokens: { promptTokens: 10, outputTokens: 20, thinkingTokens: 0 },
+    };
+    expect(parseConversationImport(exported({ role: 'model', usage, stopped: true, thinkingMs: 250 }))).toHaveProperty('conversation');
+    expect(parseConversationImport(exported({ role: 'model', usage: { ...usage, tokens: undefined, firstTokenMs: undefined } })))
+      .toHaveProperty('conversation');
+
+    for (const broken of [
+      { ...usage, tokens: { ...usage.tokens, outputTokens: '20' } },
+      { ...usage, tokens: {} },
+      { ...usage, firstTokenMs: null },
+      { ...usage, mode: undefined },
+      { ...usage, totalMs: NaN },
+    ]) {
+      expect(parseConversationImport(exported({ role: 'model', usage: broken }))).toEqual({ error: 'messages[0].usage 无效' });
+    }
+    expect(parseConversationImport(exported({ stopped: 'yes' }))).toEqual({ error: 'messages[0].stopped 无效' });
+    expect(parseConversationImport(exported({ thinkingMs: '250' }))).toEqual({ error: 'messages[0].thinkingMs 无效' });
+  });
+});
+
+describe('source links in exports', () => {
+  const withSources = conversation([{
+    id: '2',
+    role: 'model',
+    text: '答案',
+    sources: [
+      { uri: 'javascript:alert(document.cookie)', title: '恶意链接' },
+      { uri: 'data:text/html,<script>alert(1)</script>', title: '' },
+      { uri: 'https://support.example.com/kb', title: '官方文档' },
+    ],
+  }]);
+
+  it('renders unsafe schemes in the HTML report as plain text', () => {
+    const html = toHTML(withSources);
+    expect(html).not.toMatch(/href="(javascript|data):/i);
+    expect(html).toContain('<li>恶意链接</li>');
+    expect(html).toContain('<li>data:text/html,&lt;script&gt;alert(1)&lt;/script&gt;</li>');
+    expect(html).toContain('<a href="https://support.example.com/kb" rel="noopener noreferrer">官方文档</a>');
+  });
+
+  it('escapes the conversation mode in the HTML report', () => {
+    const html = toHTML({ ...conversation([]), mode: '<img src=x onerror=alert(1)>' });
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('模式 &lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('sanitizes model markdown in the HTML report', () => {
+    const html = toHTML(conversation([{ id: '2', role: 'model', text: '<img src=x onerror="alert(1)"> [点我](javascript:alert(1))' }]));
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('drops unsafe links from the Markdown export', () => {
+    const markdown = toMarkdown(withSources);
+    expect(markdown).toContain('1. 恶意链接\n');
+    expect(markdown).toContain('3. [官方文档](https://support.example.com/kb)');
+    expect(markdown).not.toContain('](javascript:');
+  });
+});
@@ -0,0 +1,278 @@
+import { ContextSummary, Conversation, Message, SearchSource } from "../types";
+import { isPlaybookProgress } from "./playbooks";
+import { markdownToSafeHtml, safeUrl } from "./markdown";
+import { METRICS } from "./metrics";
+import { STAT_FIELDS } from "./telemetry";
+import { THINKING_BUDGET_RANGE } from "./modeRegistry";
+import { IMAGE_TYPES } from "./attachments";
+
+const EXPORT_FORMAT = 'v-d-conversation';
+const EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  conversation: Conversation;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const messageTime = (msg: Message) => Number(msg.id) || 0;
+
+// --- Markdown ---
+
+export const toMarkdown = (conversation: Conversation): string => {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `- 模式: ${conversation.mode}`,
+    `- 创建时间: ${formatTime(conversation.createdAt)}`,
+    `- 导出时间: ${formatTime(Date.now())}`,
+    '',
+  ];
+
+  for (const msg of conversation.messages) {
+    const time = messageTime(msg) ? ` · ${formatTime(messageTime(msg))}` : '';
+    lines.push('---', '', `**${msg.role === 'user' ? 'User' : 'V-D'}**${time}`, '', msg.text, '');
+
+    if (msg.attachments?.length) {
+      lines.push(`> 附件: ${msg.attachments.map(a => a.name).join(', ')}`, '');
+    }
+    if (msg.stopped) {
+      lines.push('> _已停止生成_', '');
+    }
+    if (msg.error) {
+      lines.push(`> _生成失败 (${msg.error.kind}): ${msg.error.message}_`, '');
+    }
+    if (msg.sources?.length) {
+      lines.push('**Citations**', '');
+      msg.sources.forEach((source, i) => {
+        const url = safeUrl(source.uri);
+        lines.push(`${i + 1}. ${url === null ? source.title || source.uri : `[${source.title || source.uri}](${url})`}`);
+      });
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+};
+
+// --- JSON ---
+
+export const toJSON = (conversation: Conversation): string => {
+  const payload: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    // Blob URLs are meaningless outside this session
+    conversation: { ...conversation, messages: conversation.messages.map(({ audioUrl, ...m }) => m) },
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Everything below is read without further checks when the message is shown or replayed to the model
+const isTelemetry = (value: unknown): boolean => {
+  if (!isObject(value) || !isObject(value.stats) || !isObject(value.trends) || !isObject(value.device)) return false;
+  if (typeof value.source !== 'string' || typeof value.status !== 'string') return false;
+  if (!isFiniteNumber(value.trendWindowMs) || !isFiniteNumber(value.capturedAt)) return false;
+  const { device, stats, trends } = value;
+  if (typeof device.cpuName !== 'string' || typeof device.gpuName !== 'string'
+    || ![device.cpuClock, device.hostname, device.os].every(isOptionalString)) return false;
+  if (!STAT_FIELDS.every(field => isFiniteNumber(stats[field]))) return false;
+  return Object.entries(trends).every(([id, trend]) =>
+    METRICS.some(m => m.id === id) && isObject(trend)
+    && [trend.current, trend.min, trend.avg, trend.max].every(isFiniteNumber));
+};
+
+// Image data is shown as a data: URL built from mimeType; text files are always read as text/plain
+const isAttachment = (value: unknown): boolean =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string'
+  && (value.kind === 'image' ? IMAGE_TYPES.includes(value.mimeType) : value.kind === 'text' && value.mimeType === 'text/plain')
+  && isFiniteNumber(value.size) && value.size >= 0 && typeof value.data === 'string';
+
+const isUsage = (value: unknown): boolean =>
+  isObject(value) && typeof value.mode === 'string' && typeof value.model === 'string' && isFiniteNumber(value.totalMs)
+  && (value.firstTokenMs === undefined || isFiniteNumber(value.firstTokenMs))
+  && (value.tokens === undefined || (isObject(value.tokens)
+    && [value.tokens.promptTokens, value.tokens.outputTokens, value.tokens.thinkingTokens].every(isFiniteNumber)));
+
+const validateMessage = (value: unknown, path: string): string | null => {
+  if (!isObject(value)) return `${path} 不是对象`;
+  if (typeof value.id !== 'string') return `${path}.id 缺失`;
+  if (value.role !== 'user' && value.role !== 'model') return `${path}.role 无效`;
+  if (typeof value.text !== 'string') return `${path}.text 缺失`;
+
+  if (value.sources !== undefined) {
+    if (!Array.isArray(value.sources) || !value.sources.every((s: any) => isObject(s) && typeof s.uri === 'string')) {
+      return `${path}.sources 无效`;
+    }
+  }
+  if (value.attachments !== undefined) {
+    if (!Array.isArray(value.attachments) || !value.attachments.every(isAttachment)) return `${path}.attachments 无效`;
+  }
+  if (value.error !== undefined && !(isObject(value.error) && typeof value.error.kind === 'string' && typeof value.error.message === 'string')) {
+    return `${path}.error 无效`;
+  }
+  if (value.telemetry !== undefined && !isTelemetry(value.telemetry)) {
+    return `${path}.telemetry 无效`;
+  }
+  if (value.pinned !== undefined && typeof value.pinned !== 'boolean') return `${path}.pinned 无效`;
+  if (value.stopped !== undefined && typeof value.stopped !== 'boolean') return `${path}.stopped 无效`;
+  if (value.thinkingMs !== undefined && !isFiniteNumber(value.thinkingMs)) return `${path}.thinkingMs 无效`;
+  if (value.thoughts !== undefined && typeof value.thoughts !== 'string') return `${path}.thoughts 无效`;
+  if (value.route !== undefined && !(isObject(value.route) && typeof value.route.mode === 'string' && typeof value.route.reason === 'string')) {
+    return `${path}.route 无效`;
+  }
+  if (value.usage !== undefined && !isUsage(value.usage)) return `${path}.usage 无效`;
+  if (value.branches !== undefined) {
+    if (!Array.isArray(value.branches)) return `${path}.branches 无效`;
+    for (let b = 0; b < value.branches.length; b++) {
+      const branch = value.branches[b];
+      if (!Array.isArray(branch)) return `${path}.branches[${b}] 无效`;
+      for (let i = 0; i < branch.length; i++) {
+        const error = validateMessage(branch[i], `${path}.branches[${b}][${i}]`);
+        if (error) return error;
+      }
+    }
+    if (typeof value.branchIndex !== 'number' || !value.branches[value.branchIndex]) return `${path}.branchIndex 无效`;
+  }
+  return null;
+};
+
+const isContextSummary = (value: unknown): value is ContextSummary =>
+  isObject(value) && typeof value.text === 'string' && typeof value.throughId === 'string'
+  && typeof value.summarizedCount === 'number' && typeof value.createdAt === 'number';
+
+const isThinkingBudget = (value: unknown): value is number =>
+  typeof value === 'number' && value >= THINKING_BUDGET_RANGE.min && value <= THINKING_BUDGET_RANGE.max;
+
+/**
+ * Parses and validates an exported JSON file.
+ * The conversation gets a fresh id so importing never overwrites an existing one.
+ */
+export const parseConversationImport = (raw: string): { conversation: Conversation } | { error: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { error: '文件不是有效的 JSON' };
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) return { error: '不是 V-D 对话导出文件' };
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) return { error: `不支持的导出版本: ${data.version}` };
+
+  const conv = data.conversation;
+  if (!isObject(conv)) return { error: 'conversation 字段缺失' };
+  // Unknown mode ids (e.g. a custom mode from another machine) fall back at open time
+  if (typeof conv.mode !== 'string' || !conv.mode) return { error: 'mode 字段缺失' };
+  if (!Array.isArray(conv.messages)) return { error: 'messages 字段缺失' };
+
+  for (let i = 0; i < conv.messages.length; i++) {
+    const error = validateMessage(conv.messages[i], `messages[${i}]`);
+    if (error) return { error };
+  }
+
+  const now = Date.now();
+  return {
+    conversation: {
+      id: `conv-${now}`,
+      title: typeof conv.title === 'string' && conv.title.trim() ? conv.title : '导入的对话',
+      createdAt: typeof conv.createdAt === 'number' ? conv.createdAt : now,
+      updatedAt: now,
+      mode: conv.mode,
+      messages: conv.messages,
+      // Progress for a playbook this build doesn't know is simply not shown
+      playbook: isPlaybookProgress(conv.playbook) ? conv.playbook : undefined,
+      contextSummary: isContextSummary(conv.contextSummary) ? conv.contextSummary : undefined,
+      thinkingBudget: isThinkingBudget(conv.thinkingBudget) ? conv.thinkingBudget : undefined,
+    },
+  };
+};
+
+// --- HTML Report ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const REPORT_STYLE = `
+  body { font-family: 'Inter', system-ui, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 20px; color: #18181b; line-height: 1.6; }
+  header { border-bottom: 2px solid #18181b; padding-bottom: 12px; margin-bottom: 24px; }
+  header h1 { margin: 0 0 4px; font-size: 1.5em; }
+  .meta { color: #71717a; font-size: 0.85em; }
+  .msg { margin-bottom: 24px; }
+  .role { font-weight: 700; font-size: 0.9em; margin-bottom: 6px; }
+  .role span { color: #a1a1aa; font-weight: 400; margin-left: 8px; }
+  .user .body { background: #f4f4f5; padding: 12px 16px; border-radius: 12px; white-space: pre-wrap; }
+  pre { background: #18181b; color: #e4e4e7; padding: 12px; border-radius: 8px; overflow-x: auto; }
+  code { font-family: 'JetBrains Mono', Menlo, monospace; font-size: 0.85em; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #e4e4e7; padding: 4px 8px; }
+  .note { color: #71717a; font-size: 0.85em; }
+  .sources { font-size: 0.85em; border-top: 1px solid #e4e4e7; margin-top: 8px; padding-top: 8px; }
+  footer { margin-top: 40px; color: #a1a1aa; font-size: 0.8em; text-align: center; }
+`;
+
+// Sources come from the model or an imported file; unsafe schemes become plain text
+const sourceLink = (source: SearchSource) => {
+  const label = escapeHtml(source.title || source.uri);
+  const url = safeUrl(source.uri);
+  return url === null ? label : `<a href="${escapeHtml(url)}" rel="noopener noreferrer">${label}</a>`;
+};
+
+export const toHTML = (conversation: Conversation): string => {
+  const body = conversation.messages.map(msg => {
+    const time = messageTime(msg) ? `<span>${escapeHtml(formatTime(messageTime(msg)))}</span>` : '';
+    const content = msg.role === 'user' ? escapeHtml(msg.text) : markdownToSafeHtml(msg.text);
+    const attachments = msg.attachments?.length
+      ? `<div class="note">附件: ${msg.attachments.map(a => escapeHtml(a.name)).join(', ')}</div>` : '';
+    const stopped = msg.stopped ? '<div class="note">已停止生成</div>' : '';
+    const failed = msg.error ? `<div class="note">生成失败 (${escapeHtml(msg.error.kind)}): ${escapeHtml(msg.error.message)}</div>` : '';
+    const sources = msg.sources?.length
+      ? `<div class="sources"><strong>Citations</strong><ol>${msg.sources.map(s =>
+          `<li>${sourceLink(s)}</li>`).join('')}</ol></div>`
+      : '';
+    return `<div class="msg ${msg.role}"><div class="role">${msg.role === 'user' ? '客户' : 'V-D'}${time}</div>`
+      + `<div class="body">${content}</div>${attachments}${stopped}${failed}${sources}</div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(conversation.title)} - V-D 诊断报告</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(conversation.title)}</h1>
+<div class="meta">V-D 诊断报告 · 模式 ${escapeHtml(conversation.mode)} · ${escapeHtml(formatTime(conversation.createdAt))}</div>
+</header>
+${body}
+<footer>由 V-D 电脑疑难解答生成 · ${escapeHtml(formatTime(Date.now()))}</footer>
+</body>
+</html>`;
+};
+
+// --- File Helpers ---
+
+export const exportFileName = (conversation: Conversation, extension: string) => {
+  const safeTitle = conversation.title.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'conversation';
+  return `V-D_${safeTitle}.${extension}`;
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
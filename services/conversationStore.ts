@@ -0,0 +1,113 @@
+import { Conversation, ConversationSummary, Message } from "../types";
+
+const DB_NAME = 'v-d';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// --- IndexedDB Helpers ---
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+function wrap<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return wrap(fn(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Blob URLs (TTS audio) don't survive a reload, so never persist them
+const serializeMessages = (messages: Message[]): Message[] =>
+  messages.map(({ audioUrl, ...rest }) => rest);
+
+// --- Store Exports ---
+
+export const deriveTitle = (messages: Message[]): string => {
+  const firstUser = messages.find(m => m.role === 'user');
+  const text = firstUser?.text.replace(/\s+/g, ' ').trim() || '新对话';
+  return text.length > 30 ? `${text.slice(0, 30)}…` : text;
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  try {
+    const all = await withStore<Conversation[]>('readonly', store => store.getAll());
+    return all
+      .map(({ messages, ...summary }) => ({ ...summary, messageCount: messages.length }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error("Conversation list error:", error);
+    return [];
+  }
+};
+
+// Full conversations including messages, for cross-conversation search
+export const loadAllConversations = async (): Promise<Conversation[]> => {
+  try {
+    return await withStore<Conversation[]>('readonly', store => store.getAll());
+  } catch (error) {
+    console.error("Conversation load error:", error);
+    return [];
+  }
+};
+
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  try {
+    const conversation = await withStore<Conversation | undefined>('readonly', store => store.get(id));
+    return conversation || null;
+  } catch (error) {
+    console.error("Conversation load error:", error);
+    return null;
+  }
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.put({
+      ...conversation,
+      messages: serializeMessages(conversation.messages),
+    }));
+  } catch (error) {
+    console.error("Conversation save error:", error);
+  }
+};
+
+export const renameConversation = async (id: string, title: string): Promise<void> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return;
+  await saveConversation({ ...conversation, title: title.trim() || conversation.title });
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("Conversation delete error:", error);
+  }
+};
@@ -0,0 +1,55 @@
+import { DeviceIdentity, HardwareStats, Message, MetricId, MetricTrend, TelemetryAttachment, TelemetrySource, TelemetryStatus } from "../types";
+import { METRICS, MetricsHistory, getMetric, samplesInWindow, summarizeSamples } from "./metrics";
+
+const TREND_WINDOW = 5 * 60_000;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const buildTelemetryAttachment = (
+  stats: HardwareStats,
+  device: DeviceIdentity,
+  history: MetricsHistory,
+  source: TelemetrySource,
+  status: TelemetryStatus
+): TelemetryAttachment => {
+  const now = Date.now();
+  const trends: Partial<Record<MetricId, MetricTrend>> = {};
+
+  for (const metric of METRICS) {
+    const summary = summarizeSamples(samplesInWindow(history[metric.id], TREND_WINDOW, now));
+    const current = round(metric.read(stats));
+    trends[metric.id] = summary
+      ? { current, min: round(summary.min), avg: round(summary.avg), max: round(summary.max) }
+      : { current, min: current, avg: current, max: current };
+  }
+
+  return { source, status, device, stats, trends, trendWindowMs: TREND_WINDOW, capturedAt: now };
+};
+
+/** Renders the attachment as the structured block the model receives. */
+export const formatTelemetryBlock = (attachment: TelemetryAttachment): string => {
+  const { device, stats } = attachment;
+  const rows = (Object.keys(attachment.trends) as MetricId[]).map(id => {
+    const trend = attachment.trends[id] as MetricTrend;
+    const { label, unit } = getMetric(id);
+    return `| ${label} | ${trend.current}${unit} | ${trend.min}${unit} | ${trend.avg}${unit} | ${trend.max}${unit} |`;
+  });
+
+  return [
+    '<system_state>',
+    `采集时间: ${new Date(attachment.capturedAt).toLocaleString()}`,
+    `数据来源: ${attachment.source === 'agent' ? '本地遥测代理（真实数据）' : '模拟数据（非真实硬件）'}，连接状态: ${attachment.status}`,
+    `设备: CPU ${device.cpuName}${device.cpuClock ? ` @ ${device.cpuClock}` : ''}; GPU ${device.gpuName}${device.os ? `; OS ${device.os}` : ''}`,
+    `内存: ${round(stats.ramUsed)} / ${round(stats.ramTotal)} GB; 磁盘: ${Math.round(stats.diskUsed)} / ${Math.round(stats.diskTotal)} GB`,
+    `| 指标 | 当前 | 最近${Math.round(attachment.trendWindowMs / 60_000)}分钟最低 | 平均 | 最高 |`,
+    '|---|---|---|---|---|',
+    ...rows,
+    '</system_state>',
+  ].join('\n');
+};
+
+/** The text actually sent to the model for a user message, including any attached system state. */
+export const composePromptText = (message: Pick<Message, 'text' | 'isDiagnostic' | 'telemetry'>): string => {
+  if (!message.isDiagnostic || !message.telemetry) return message.text;
+  return `${message.text}\n\n以下是我电脑当前的硬件监测数据，请结合这些数据诊断：\n${formatTelemetryBlock(message.telemetry)}`;
+};
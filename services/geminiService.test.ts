@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatMode, Message } from '../types';
+import { RetryNotice, sendMessageStream } from './geminiService';
+import { getMode } from './modeRegistry';
+import { MockProviderOptions, createMockProvider } from './providers/mock';
+import { ProviderError } from './providers';
+
+const message: Message = { id: '1', role: 'user', text: '电脑 开机 很慢' };
+const fullReply = '**[mock · FAST · #1]**\n\n> 电脑 开机 很慢';
+
+const mockSession = (options: MockProviderOptions = {}) =>
+  createMockProvider({ chunkDelayMs: 5, ...options })
+    .createSession({ mode: getMode(ChatMode.FAST), systemInstruction: '', history: [] });
+
+// Drains the stream, letting fake timers run the chunk delays and retry backoff
+const collect = async (stream: AsyncGenerator<{ text: string }>) => {
+  let text = '';
+  let error: unknown;
+  const done = (async () => {
+    try {
+      for await (const chunk of stream) text += chunk.text;
+    } catch (e) {
+      error = e;
+    }
+  })();
+  await vi.runAllTimersAsync();
+  await done;
+  return { text, error };
+};
+
+describe('sendMessageStream with the mock provider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff jitter
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('streams the whole reply in chunks', async () => {
+    const chunks: string[] = [];
+    const done = (async () => {
+      for await (const chunk of sendMessageStream(mockSession(), message)) chunks.push(chunk.text);
+    })();
+    await vi.runAllTimersAsync();
+    await done;
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.join('')).toBe(fullReply);
+  });
+
+  it('retries a transient failure before any text with exponential backoff', async () => {
+    const notices: RetryNotice[] = [];
+    const session = mockSession({ failWith: 'network', failBeforeText: true, failCount: 2 });
+    const { text, error } = await collect(sendMessageStream(session, message, undefined, n => notices.push(n)));
+
+    expect(error).toBeUndefined();
+    expect(text).toBe(fullReply);
+    expect(notices.map(n => [n.attempt, n.delayMs, n.error.kind])).toEqual([[2, 1000, 'network'], [3, 2000, 'network']]);
+  });
+
+  it('gives up after the last attempt with the provider error', async () => {
+    const notices: RetryNotice[] = [];
+    const session = mockSession({ failWith: 'unavailable', failBeforeText: true });
+    const { text, error } = await collect(sendMessageStream(session, message, undefined, n => notices.push(n)));
+
+    expect(text).toBe('');
+    expect(error).toBeInstanceOf(ProviderError);
+    expect((error as ProviderError).kind).toBe('unavailable');
+    expect(notices).toHaveLength(2);
+  });
+
+  it.each(['auth', 'model'] as const)('does not retry %s errors the user has to fix', async (kind) => {
+    const onRetry = vi.fn();
+    const session = mockSession({ failWith: kind, failBeforeText: true });
+    const { error } = await collect(sendMessageStream(session, message, undefined, onRetry));
+
+    expect((error as ProviderError).kind).toBe(kind);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('does not retry once text has been shown', async () => {
+    const onRetry = vi.fn();
+    const { text, error } = await collect(sendMessageStream(mockSession({ failWith: 'network' }), message, undefined, onRetry));
+
+    expect(text).toBe('**[mock ');
+    expect((error as ProviderError).kind).toBe('network');
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('stops quietly with the partial answer when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    let text = '';
+    const done = (async () => {
+      for await (const chunk of sendMessageStream(mockSession(), message, controller.signal)) {
+        text += chunk.text;
+        if (text.includes('FAST')) controller.abort();
+      }
+    })();
+    await vi.runAllTimersAsync();
+    await expect(done).resolves.toBeUndefined();
+    expect(text).toBe('**[mock · FAST ');
+  });
+
+  it('stops quietly when aborted during the backoff', async () => {
+    const controller = new AbortController();
+    const session = mockSession({ failWith: 'quota', failBeforeText: true });
+    const { text, error } = await collect(sendMessageStream(session, message, controller.signal, () => controller.abort()));
+
+    expect(text).toBe('');
+    expect(error).toBeUndefined();
+  });
+});
@@ -1,188 +1,237 @@
-import { GoogleGenAI, Chat, GenerateContentResponse, Modality, Content } from "@google/genai";
-import { ChatMode, Message, SearchSource } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Modality } from "@google/genai";
+import { ChatMode, ContextSummary, Message, ModeId, RouteDecision } from "../types";
+import { getMode, withThinkingBudget } from "./modeRegistry";
+import { getSettings, languageInstruction } from "./settings";
+import { activeHistory, buildSummaryPrompt, isSummaryValid } from "./contextWindow";
+import { TRIAGE_INSTRUCTION, parseTriageReply } from "./modeRouter";
+import { trimHistoryAttachments } from "./attachments";
+import { ChatSession, ProviderError, StreamChunk, getActiveProvider, getGeminiClient, normalizeError, isTransientError } from "./providers";
 
 // --- TTS Helper Functions ---
-async function decodeAudioData(base64Data: string, sampleRate: number = 24000): Promise<AudioBuffer> {
-  const binaryString = atob(base64Data);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
-  
-  // Convert raw PCM (Int16) to AudioBuffer
-  // Note: API returns raw PCM 16-bit little-endian
-  const dataInt16 = new Int16Array(bytes.buffer);
-  const buffer = audioContext.createBuffer(1, dataInt16.length, sampleRate);
-  const channelData = buffer.getChannelData(0);
-  
-  for (let i = 0; i < dataInt16.length; i++) {
-    channelData[i] = dataInt16[i] / 32768.0;
-  }
-  
-  return buffer;
-}
 
-async function bufferToBlob(buffer: AudioBuffer): Promise<Blob> {
-  // Simple WAV encoder for browser playback compatibility
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const out = new ArrayBuffer(length);
-  const view = new DataView(out);
-  const channels = [];
-  let sample;
-  let offset = 0;
+// The TTS model returns raw 16-bit little-endian mono PCM; wrap it in a WAV
+// header so an <audio> element can play it without decoding.
+function pcmToWav(base64Data: string, sampleRate: number = 24000): Blob {
+  const pcm = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
+  const header = new DataView(new ArrayBuffer(44));
   let pos = 0;
+  const setUint16 = (data: number) => { header.setUint16(pos, data, true); pos += 2; };
+  const setUint32 = (data: number) => { header.setUint32(pos, data, true); pos += 4; };
 
-  // write WAVE header
   setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
+  setUint32(36 + pcm.length); // file length - 8
   setUint32(0x45564157); // "WAVE"
-
   setUint32(0x20746d66); // "fmt " chunk
   setUint32(16); // length = 16
   setUint16(1); // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit (hardcoded in this example)
-
+  setUint16(1); // mono
+  setUint32(sampleRate);
+  setUint32(sampleRate * 2); // avg. bytes/sec
+  setUint16(2); // block-align
+  setUint16(16); // 16-bit
   setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
-
-  for (let i = 0; i < buffer.numberOfChannels; i++) channels.push(buffer.getChannelData(i));
-
-  while (pos < buffer.length) {
-    for (let i = 0; i < numOfChan; i++) {
-      sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
-      view.setInt16(44 + offset, sample, true);
-      offset += 2;
-    }
-    pos++;
-  }
-
-  function setUint16(data: number) {
-    view.setUint16(pos, data, true);
-    pos += 2;
-  }
+  setUint32(pcm.length);
 
-  function setUint32(data: number) {
-    view.setUint32(pos, data, true);
-    pos += 4;
-  }
-
-  return new Blob([out], { type: 'audio/wav' });
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
 }
 
 // --- Service Exports ---
 
-export const generateSpeech = async (text: string): Promise<string | null> => {
+/** Synthesizes one clip of speech; callers split long answers into sentences first. */
+export const synthesizeSpeech = async (text: string, voice: string = getSettings().ttsVoice): Promise<Blob | null> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await getGeminiClient().models.generateContent({
       model: "gemini-2.5-flash-preview-tts",
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, // Voices: Puck, Charon, Kore, Fenrir, Zephyr
+            prebuiltVoiceConfig: { voiceName: voice },
           },
         },
       },
     });
 
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
-      const audioBuffer = await decodeAudioData(base64Audio);
-      const blob = await bufferToBlob(audioBuffer);
-      return URL.createObjectURL(blob);
-    }
-    return null;
+    return base64Audio ? pcmToWav(base64Audio) : null;
   } catch (error) {
     console.error("TTS Generation Error:", error);
     return null;
   }
 };
 
-export const createChatSession = (mode: ChatMode, historyMessages: Message[] = []): Chat => {
-  let modelName = 'gemini-2.5-flash-lite'; // Default: Fast
-  let config: any = {};
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
 
-  const systemInstruction = `
+/**
+ * Transcribes recorded speech with a multimodal model. Always uses Gemini,
+ * whichever chat provider is active. Throws a ProviderError on failure.
+ */
+export const transcribeAudio = async (audio: Blob, mimeType: string): Promise<string> => {
+  try {
+    const response = await getGeminiClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: [{
+        parts: [
+          { inlineData: { mimeType: mimeType.split(';')[0], data: await blobToBase64(audio) } },
+          { text: "逐字转写这段录音，保留原语言，技术术语和命令按常见写法书写。只输出转写文本；没有可辨认的语音时输出空字符串。" },
+        ],
+      }],
+      config: { temperature: 0, thinkingConfig: { thinkingBudget: 0 } },
+    });
+    return (response.text || '').trim();
+  } catch (error) {
+    throw normalizeError(error);
+  }
+};
+
+// Per-conversation state that shapes a session beyond its history
+export interface SessionContext {
+  summary?: ContextSummary | null;
+  thinkingBudget?: number | null; // Replaces the mode's budget in modes that think
+}
+
+/**
+ * Starts a chat that replays the given history. With a summary, turns it
+ * covers are replaced by the summary text in the system instruction.
+ */
+export const createChatSession = (
+  mode: ModeId,
+  historyMessages: Message[] = [],
+  { summary, thinkingBudget }: SessionContext = {}
+): ChatSession => {
+  const definition = withThinkingBudget(getMode(mode), thinkingBudget);
+  const { answerLanguage } = getSettings();
+  const summarized = isSummaryValid(historyMessages, summary);
+
+  let systemInstruction = `
     你是一个名为 "V-D" 的专业电脑技术助手。
     你的目标是帮助用户解决Windows PC硬件、软件、驱动程序和性能方面的问题。
     
     身份与风格：
-    - 必须始终使用简体中文回答。
+    - ${languageInstruction(answerLanguage)}
     - 专业、简洁、直接。
     - 关键命令使用代码块，步骤使用编号列表。
-    - 当前运行模式: ${mode}
+    - 当前运行模式: ${definition.id}
   `;
+  if (summarized) systemInstruction += `\n此前对话的摘要（较早的消息已省略）：\n${summary.text}\n`;
+
+  return getActiveProvider().createSession({
+    mode: definition,
+    systemInstruction,
+    // A turn stopped before any text arrived has nothing to replay
+    history: trimHistoryAttachments(
+      (summarized ? activeHistory(historyMessages, summary) : historyMessages).filter(msg => msg.text.length > 0)
+    ),
+  });
+};
 
-  switch (mode) {
-    case ChatMode.FAST:
-      modelName = 'gemini-2.5-flash-lite';
-      break;
-    case ChatMode.PRO:
-      modelName = 'gemini-3-pro-preview';
-      break;
-    case ChatMode.SEARCH:
-      modelName = 'gemini-3-flash-preview';
-      config.tools = [{ googleSearch: {} }];
-      break;
-    case ChatMode.THINKING:
-      modelName = 'gemini-3-pro-preview';
-      config.thinkingConfig = { thinkingBudget: 32768 };
-      break;
+// A single request outside the conversation, answered by the fast mode of the active provider
+const askFastModel = async (systemInstruction: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+  const session = getActiveProvider().createSession({ mode: getMode(ChatMode.FAST), systemInstruction, history: [] });
+  const request: Message = { id: `aux-${Date.now()}`, role: 'user', text: prompt };
+  let text = '';
+  try {
+    for await (const chunk of session.sendMessageStream(request, signal)) text += chunk.text;
+  } catch (error) {
+    throw normalizeError(error);
   }
-
-  config.systemInstruction = systemInstruction;
-
-  // Map internal Message type to SDK Content type for history
-  const history: Content[] = historyMessages.map(msg => ({
-    role: msg.role,
-    parts: [{ text: msg.text }]
-  }));
-
-  return ai.chats.create({
-    model: modelName,
-    history: history,
-    config: config,
-  });
+  return text.trim();
 };
 
-export async function* sendMessageStream(chat: Chat, message: string): AsyncGenerator<{text: string, sources?: SearchSource[]}, void, unknown> {
+/**
+ * Folds older turns (and the previous summary, if any) into a new summary.
+ * Throws a ProviderError on failure.
+ */
+export const summarizeConversation = (
+  previous: ContextSummary | null | undefined,
+  messages: Message[],
+  signal?: AbortSignal
+): Promise<string> =>
+  askFastModel(
+    '你负责为电脑技术支持对话撰写摘要。只输出摘要本身，使用与对话相同的语言。',
+    buildSummaryPrompt(previous, messages),
+    signal
+  );
+
+const TRIAGE_TIMEOUT_MS = 5000;
+const TRIAGE_MAX_CHARS = 2000;
+
+/**
+ * Asks the fast model which mode should answer a message. Resolves to null
+ * when it fails, times out or answers something unusable; routing then
+ * keeps the rule-based pick.
+ */
+export const triageMessage = async (text: string, signal?: AbortSignal): Promise<RouteDecision | null> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TRIAGE_TIMEOUT_MS);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
   try {
-    const resultStream = await chat.sendMessageStream({ message });
-    
-    for await (const chunk of resultStream) {
-      const responseChunk = chunk as GenerateContentResponse;
-      
-      // Extract text
-      const text = responseChunk.text;
-      
-      // Extract grounding metadata if available (for Search mode)
-      let sources: SearchSource[] | undefined;
-      const groundingChunks = responseChunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      
-      if (groundingChunks) {
-        sources = groundingChunks
-          .map((c: any) => c.web ? { uri: c.web.uri, title: c.web.title } : null)
-          .filter((s: any) => s !== null) as SearchSource[];
-      }
+    const reply = await askFastModel(TRIAGE_INSTRUCTION, text.slice(0, TRIAGE_MAX_CHARS), controller.signal);
+    return controller.signal.aborted ? null : parseTriageReply(reply);
+  } catch (error) {
+    console.warn("Mode triage failed:", error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
 
-      if (text || sources) {
-        yield { text: text || '', sources };
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export interface RetryNotice {
+  attempt: number; // The attempt about to start
+  maxAttempts: number;
+  delayMs: number;
+  error: ProviderError;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/**
+ * Streams the answer, retrying transient failures with exponential backoff.
+ * Throws a ProviderError when it gives up; returns quietly when aborted.
+ */
+export async function* sendMessageStream(
+  session: ChatSession,
+  message: Message,
+  signal?: AbortSignal,
+  onRetry?: (notice: RetryNotice) => void
+): AsyncGenerator<StreamChunk, void, unknown> {
+  for (let attempt = 1; ; attempt++) {
+    let received = false;
+    try {
+      for await (const chunk of session.sendMessageStream(message, signal)) {
+        received = true;
+        yield chunk;
       }
+      return;
+    } catch (error) {
+      // A user-initiated stop is not a connection failure
+      if (signal?.aborted) return;
+      const providerError = normalizeError(error);
+      console.error(`LLM stream error (${providerError.kind}, attempt ${attempt}):`, providerError);
+
+      // Once text is on screen a retry would repeat it, so leave that to the user
+      if (received || !isTransientError(providerError.kind) || attempt >= MAX_ATTEMPTS) throw providerError;
+
+      const delayMs = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.round(Math.random() * 250);
+      onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, delayMs, error: providerError });
+      await sleep(delayMs, signal);
+      if (signal?.aborted) return;
     }
-  } catch (error) {
-    console.error("Gemini API Stream Error:", error);
-    yield { text: "\n\n**连接中断**: 请检查网络或稍后重试。" };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { safeUrl, splitMarkdownBlocks, stabilizeStreamingBlock } from './markdown';
+
+describe('splitMarkdownBlocks', () => {
+  it('splits on blank lines', () => {
+    expect(splitMarkdownBlocks('# 标题\n\n第一段\n\n第二段')).toEqual(['# 标题\n', '第一段\n', '第二段']);
+  });
+
+  it('keeps blank lines inside a code fence in one block', () => {
+    const fence = '```powershell\nGet-Process\n\nStop-Process -Id 1\n```';
+    expect(splitMarkdownBlocks(`说明\n\n${fence}\n\n结束`)).toEqual(['说明\n', `${fence}\n`, '结束']);
+  });
+
+  it('keeps an unclosed fence open to the end of the message', () => {
+    const blocks = splitMarkdownBlocks('步骤：\n\n```bash\nsudo apt update\n\nsudo apt upgrade');
+    expect(blocks).toEqual(['步骤：\n', '```bash\nsudo apt update\n\nsudo apt upgrade']);
+  });
+
+  it('does not close a fence with a shorter or different marker', () => {
+    const blocks = splitMarkdownBlocks('````\n```\n~~~\n\n仍是代码\n````\n\n正文');
+    expect(blocks[0]).toBe('````\n```\n~~~\n\n仍是代码\n````\n');
+    expect(blocks[blocks.length - 1]).toBe('正文');
+  });
+
+  it('treats a closing fence on the last line as still open', () => {
+    // The line may be the start of a longer marker or an info string
+    expect(splitMarkdownBlocks('```\ncode\n```')).toEqual(['```\ncode\n```']);
+  });
+
+  it('keeps indented continuation lines with their list item', () => {
+    expect(splitMarkdownBlocks('1. 打开设备管理器\n\n   找到显示适配器\n\n2. 更新驱动')).toEqual([
+      '1. 打开设备管理器\n\n   找到显示适配器\n',
+      '2. 更新驱动',
+    ]);
+  });
+
+  it('keeps documents with reference-style links whole', () => {
+    const markdown = '见[官网][1]。\n\n其他段落\n\n[1]: https://example.com';
+    expect(splitMarkdownBlocks(markdown)).toEqual([markdown]);
+  });
+});
+
+describe('stabilizeStreamingBlock', () => {
+  it('holds back a partly typed fence line', () => {
+    expect(stabilizeStreamingBlock('运行：\n``')).toBe('运行：');
+    expect(stabilizeStreamingBlock('```power')).toBe('');
+  });
+
+  it('shows an unclosed fence once its opening line is complete', () => {
+    expect(stabilizeStreamingBlock('```bash\nsudo apt upd')).toBe('```bash\nsudo apt upd');
+  });
+
+  it('leaves pipes inside a code block alone', () => {
+    expect(stabilizeStreamingBlock('```\nls | grep x\n| a')).toBe('```\nls | grep x');
+    expect(stabilizeStreamingBlock('```\nls | grep x\n| a |\n')).toBe('```\nls | grep x\n| a |\n');
+  });
+
+  it('holds back a table until its delimiter row arrives', () => {
+    expect(stabilizeStreamingBlock('| 型号 | 功耗 |')).toBe('');
+    expect(stabilizeStreamingBlock('对比：\n| 型号 | 功耗 |\n')).toBe('对比：');
+    expect(stabilizeStreamingBlock('对比：\n| 型号 | 功耗 |\n|---')).toBe('对比：');
+  });
+
+  it('shows complete rows of a table and holds back the partial one', () => {
+    const head = '| 型号 | 功耗 |\n| --- | :---: |\n| 4070 | 200W |';
+    expect(stabilizeStreamingBlock(`${head}\n| 4080 | 3`)).toBe(head);
+    expect(stabilizeStreamingBlock(`${head}\n`)).toBe(`${head}\n`);
+  });
+
+  it('does not mistake a header followed by text for a table', () => {
+    expect(stabilizeStreamingBlock('| 不是表格 |\n普通文字')).toBe('| 不是表格 |\n普通文字');
+  });
+
+  it('passes ordinary text through', () => {
+    expect(stabilizeStreamingBlock('正在检查驱动')).toBe('正在检查驱动');
+  });
+});
+
+describe('safeUrl', () => {
+  it('allows web and mail links and relative URLs', () => {
+    expect(safeUrl('https://example.com/a')).toBe('https://example.com/a');
+    expect(safeUrl('mailto:support@example.com')).toBe('mailto:support@example.com');
+    expect(safeUrl('#section')).toBe('#section');
+  });
+
+  it('rejects script and data URLs, including obfuscated schemes', () => {
+    expect(safeUrl('javascript:alert(1)')).toBeNull();
+    expect(safeUrl(' JaVa\tScRiPt:alert(1)')).toBeNull();
+    expect(safeUrl('data:text/html,<script>')).toBeNull();
+    expect(safeUrl('data:image/png;base64,AAAA', 'image')).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+import { parse } from 'marked';
+
+// Model output and search-grounded snippets are untrusted: marked passes raw
+// HTML through, so everything it produces is filtered against an allowlist.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'del', 's', 'code', 'pre', 'kbd', 'sup', 'sub',
+  'blockquote', 'ul', 'ol', 'li', 'a', 'img', 'input',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+// Removed together with their content; any other unknown tag is unwrapped to its text
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'form', 'input', 'button', 'textarea', 'select', 'option', 'svg', 'math',
+  'template', 'noscript', 'link', 'meta', 'base', 'title', 'head',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  code: ['class'],
+  ol: ['start'],
+  th: ['align'],
+  td: ['align'],
+  input: ['type', 'checked', 'disabled'],
+};
+
+const LINK_SCHEMES = new Set(['http', 'https', 'mailto']);
+const IMAGE_SCHEMES = new Set(['http', 'https']);
+
+/**
+ * The URL if its scheme is allowed, otherwise null. Relative links and
+ * fragments pass; javascript:, data:, vbscript: and friends do not.
+ */
+export const safeUrl = (url: string, kind: 'link' | 'image' = 'link'): string | null => {
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:")
+  const compact = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (!scheme) return kind === 'image' ? null : url.trim();
+  return (kind === 'image' ? IMAGE_SCHEMES : LINK_SCHEMES).has(scheme) ? url.trim() : null;
+};
+
+const cleanAttributes = (el: Element, tag: string) => {
+  const allowed = ALLOWED_ATTRIBUTES[tag] || [];
+  for (const attr of Array.from(el.attributes)) {
+    if (!allowed.includes(attr.name)) el.removeAttribute(attr.name);
+  }
+
+  if (tag === 'a') {
+    const href = el.getAttribute('href');
+    const url = href === null ? null : safeUrl(href);
+    if (url === null) el.removeAttribute('href');
+    else el.setAttribute('href', url);
+    el.setAttribute('target', '_blank');
+    el.setAttribute('rel', 'noopener noreferrer');
+  }
+  if (tag === 'img') {
+    const url = safeUrl(el.getAttribute('src') || '', 'image');
+    if (url === null) el.removeAttribute('src');
+    else el.setAttribute('src', url);
+    el.setAttribute('loading', 'lazy');
+    el.setAttribute('referrerpolicy', 'no-referrer');
+  }
+  if (tag === 'code') {
+    // Only the fence language marker survives
+    const language = el.getAttribute('class')?.match(/\blanguage-[\w+#.-]+/)?.[0];
+    if (language) el.setAttribute('class', language);
+    else el.removeAttribute('class');
+  }
+  if (tag === 'ol' && !/^\d+$/.test(el.getAttribute('start') || '')) el.removeAttribute('start');
+  if ((tag === 'th' || tag === 'td') && !/^(left|center|right)$/.test(el.getAttribute('align') || '')) {
+    el.removeAttribute('align');
+  }
+};
+
+const cleanNode = (node: Node) => {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove(); // Comments, processing instructions
+      continue;
+    }
+
+    const el = child as Element;
+    const tag = el.tagName.toLowerCase();
+    // Task list checkboxes are the only inputs marked emits
+    const taskCheckbox = tag === 'input' && el.getAttribute('type') === 'checkbox';
+    if (DROPPED_TAGS.has(tag) && !taskCheckbox) {
+      el.remove();
+      continue;
+    }
+
+    cleanNode(el);
+    if (!ALLOWED_TAGS.has(tag)) {
+      el.replaceWith(...Array.from(el.childNodes));
+      continue;
+    }
+    cleanAttributes(el, tag);
+    if (taskCheckbox) el.setAttribute('disabled', '');
+  }
+};
+
+/** Parses untrusted HTML into a detached, allowlisted body element. */
+export const sanitizeToElement = (html: string): HTMLElement => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  cleanNode(doc.body);
+  return doc.body;
+};
+
+export const sanitizeHtml = (html: string): string => sanitizeToElement(html).innerHTML;
+
+/** Markdown to sanitized HTML, for contexts that need a string (exports). */
+export const markdownToSafeHtml = (markdown: string): string => sanitizeHtml(parse(markdown) as string);
+
+// --- Streaming ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]\n]+\]:\s*\S/m;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+
+/**
+ * Splits markdown into top-level blocks that render the same on their own as
+ * they do together: boundaries are blank lines (or a closing fence) outside
+ * code fences, unless the next line is indented and so continues the block.
+ * Every block but the last is final once streaming has moved past it.
+ */
+export const splitMarkdownBlocks = (markdown: string): string[] => {
+  // Reference-style links resolve across the whole document
+  if (LINK_DEFINITION.test(markdown)) return [markdown];
+
+  const lines = markdown.split('\n');
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  let pendingBreak = false;
+
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join('\n'));
+    current = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const last = i === lines.length - 1;
+
+    if (pendingBreak && line.trim() !== '' && !/^\s/.test(line)) flush();
+    pendingBreak = false;
+
+    const marker = line.match(FENCE)?.[1];
+    if (fence) {
+      current.push(line);
+      // A closing fence must use the same character and be at least as long
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker && !last) {
+        fence = null;
+        pendingBreak = true;
+      }
+      continue;
+    }
+    if (marker) {
+      // Fences can interrupt a paragraph; indented ones belong to the list item above
+      if (!/^\s/.test(line) && current.some(l => l.trim() !== '')) flush();
+      fence = marker;
+      current.push(line);
+      continue;
+    }
+
+    current.push(line);
+    if (line.trim() === '') pendingBreak = true;
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Trims the trailing block of a message that is still streaming so it never
+ * renders half-formed syntax: a partly typed fence or table row is held back
+ * until its line is complete, and a table waits for its delimiter row.
+ */
+export const stabilizeStreamingBlock = (block: string): string => {
+  let text = block;
+  const lastBreak = text.lastIndexOf('\n');
+  const partialLine = text.slice(lastBreak + 1);
+  // `, ``, ```power… or | cell… mean different things once the line is finished
+  if (/^\s*([`~]|\|)/.test(partialLine)) text = lastBreak < 0 ? '' : text.slice(0, lastBreak);
+
+  // Pipes inside a code block are just code
+  if (FENCE.test(text.trimStart())) return text;
+  const rows = text.replace(/\n+$/, '').split('\n');
+  let start = rows.length;
+  while (start > 0 && /^\s*\|/.test(rows[start - 1])) start--;
+  const table = rows.slice(start);
+  if (table.length > 0 && (table.length < 2 || !TABLE_DELIMITER.test(table[1]))) {
+    return rows.slice(0, start).join('\n');
+  }
+  return text;
+};
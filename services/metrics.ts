@@ -0,0 +1,139 @@
+import { HardwareStats, MetricId, MetricThresholds } from "../types";
+
+export interface MetricDefinition {
+  id: MetricId;
+  label: string;
+  unit: '%' | '°C';
+  scaleMax: number; // Upper bound of the chart axis
+  defaultWarning: number;
+  read: (stats: HardwareStats) => number;
+  detail?: (stats: HardwareStats) => string;
+}
+
+export interface MetricSample {
+  t: number;
+  value: number;
+}
+
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+const percent = (used: number, total: number) => (total > 0 ? (used / total) * 100 : 0);
+
+export const METRICS: MetricDefinition[] = [
+  { id: 'cpuLoad', label: 'CPU 使用率', unit: '%', scaleMax: 100, defaultWarning: 90, read: s => s.cpuLoad },
+  { id: 'cpuTemp', label: 'CPU 温度', unit: '°C', scaleMax: 110, defaultWarning: 85, read: s => s.cpuTemp },
+  { id: 'gpuLoad', label: 'GPU 使用率', unit: '%', scaleMax: 100, defaultWarning: 95, read: s => s.gpuLoad },
+  { id: 'gpuTemp', label: 'GPU 温度', unit: '°C', scaleMax: 110, defaultWarning: 85, read: s => s.gpuTemp },
+  {
+    id: 'ramUsage', label: '内存占用', unit: '%', scaleMax: 100, defaultWarning: 85,
+    read: s => percent(s.ramUsed, s.ramTotal),
+    detail: s => `${s.ramUsed.toFixed(1)} / ${s.ramTotal.toFixed(0)} GB`,
+  },
+  {
+    id: 'diskUsage', label: '磁盘占用', unit: '%', scaleMax: 100, defaultWarning: 90,
+    read: s => percent(s.diskUsed, s.diskTotal),
+    detail: s => `${Math.round(s.diskUsed)} / ${Math.round(s.diskTotal)} GB`,
+  },
+];
+
+export const getMetric = (id: MetricId): MetricDefinition =>
+  METRICS.find(m => m.id === id) as MetricDefinition;
+
+export const HISTORY_WINDOWS = [
+  { label: '1m', ms: 60_000 },
+  { label: '5m', ms: 5 * 60_000 },
+  { label: '15m', ms: 15 * 60_000 },
+];
+
+// Enough for 15 minutes at one sample per second
+const HISTORY_CAPACITY = 900;
+
+// --- Ring Buffer ---
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private head = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T) {
+    this.items[this.head] = item;
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /** Items from oldest to newest. */
+  toArray(): T[] {
+    const start = (this.head - this.count + this.capacity) % this.capacity;
+    const out: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      out.push(this.items[(start + i) % this.capacity] as T);
+    }
+    return out;
+  }
+
+  get size() {
+    return this.count;
+  }
+}
+
+// --- History ---
+
+export type MetricsHistory = Record<MetricId, RingBuffer<MetricSample>>;
+
+export const createMetricsHistory = (capacity: number = HISTORY_CAPACITY): MetricsHistory =>
+  Object.fromEntries(METRICS.map(m => [m.id, new RingBuffer<MetricSample>(capacity)])) as MetricsHistory;
+
+export const recordSnapshot = (history: MetricsHistory, stats: HardwareStats, timestamp: number = Date.now()) => {
+  for (const metric of METRICS) {
+    history[metric.id].push({ t: timestamp, value: metric.read(stats) });
+  }
+};
+
+export const samplesInWindow = (buffer: RingBuffer<MetricSample>, windowMs: number, now: number = Date.now()): MetricSample[] =>
+  buffer.toArray().filter(s => s.t >= now - windowMs);
+
+export const summarizeSamples = (samples: MetricSample[]): MetricSummary | null => {
+  if (samples.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const { value } of samples) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+  }
+  return { min, avg: sum / samples.length, max };
+};
+
+// --- Warning Thresholds ---
+
+const THRESHOLDS_KEY = 'vd.monitor.thresholds';
+
+export const DEFAULT_THRESHOLDS: MetricThresholds =
+  Object.fromEntries(METRICS.map(m => [m.id, m.defaultWarning])) as MetricThresholds;
+
+export const loadThresholds = (): MetricThresholds => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(THRESHOLDS_KEY) || '{}');
+    const thresholds = { ...DEFAULT_THRESHOLDS };
+    for (const metric of METRICS) {
+      const value = Number(parsed[metric.id]);
+      if (Number.isFinite(value) && value > 0) thresholds[metric.id] = value;
+    }
+    return thresholds;
+  } catch {
+    return DEFAULT_THRESHOLDS;
+  }
+};
+
+export const saveThresholds = (thresholds: MetricThresholds) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
@@ -0,0 +1,110 @@
+import { ChatMode, ModeDefinition, ModeId } from "../types";
+
+const MODES_KEY = 'vd.modes';
+
+export const BUILT_IN_MODES: ModeDefinition[] = [
+  { id: ChatMode.FAST, label: 'Fast (Flash-Lite)', icon: '⚡', model: 'gemini-2.5-flash-lite', tools: [] },
+  { id: ChatMode.PRO, label: 'Pro (Gemini 3)', icon: '🧠', model: 'gemini-3-pro-preview', tools: [] },
+  { id: ChatMode.SEARCH, label: 'Search', icon: '🔍', model: 'gemini-3-flash-preview', tools: ['googleSearch'] },
+  { id: ChatMode.THINKING, label: 'Thinking', icon: '🤔', model: 'gemini-3-pro-preview', tools: [], thinkingBudget: 32768 },
+];
+
+export const isBuiltInMode = (id: ModeId) => BUILT_IN_MODES.some(m => m.id === id);
+
+// --- Thinking ---
+
+// Range offered for a conversation's own budget; -1 (dynamic) stays a per-mode setting
+export const THINKING_BUDGET_RANGE = { min: 1024, max: 32768, step: 1024 };
+
+/** Whether the mode lets the model think, so a conversation may tune its budget. */
+export const modeThinks = (mode: ModeDefinition) => mode.thinkingBudget !== undefined && mode.thinkingBudget !== 0;
+
+/** The mode with a conversation's budget applied; modes that don't think are left alone. */
+export const withThinkingBudget = (mode: ModeDefinition, budget: number | null | undefined): ModeDefinition =>
+  modeThinks(mode) && typeof budget === 'number' ? { ...mode, thinkingBudget: budget } : mode;
+
+// --- Validation ---
+
+const isInteger = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/** Returns a list of problems; an empty list means the entry is usable. */
+export const validateModeEntry = (entry: unknown): string[] => {
+  if (!entry || typeof entry !== 'object') return ['not an object'];
+  const mode = entry as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof mode.id !== 'string' || !/^[A-Za-z0-9_-]{1,32}$/.test(mode.id)) errors.push('id must be 1-32 letters, digits, - or _');
+  else if (mode.id === ChatMode.AUTO) errors.push('id AUTO is reserved for automatic routing');
+  if (typeof mode.label !== 'string' || !mode.label.trim() || mode.label.length > 40) errors.push('label must be 1-40 characters');
+  if (typeof mode.icon !== 'string' || !mode.icon.trim() || [...mode.icon].length > 4) errors.push('icon must be 1-4 characters');
+  if (typeof mode.model !== 'string' || !mode.model.trim()) errors.push('model is required');
+  if (!Array.isArray(mode.tools) || !mode.tools.every(t => t === 'googleSearch')) errors.push('tools may only contain googleSearch');
+  if (mode.thinkingBudget !== undefined && !isInteger(mode.thinkingBudget, -1, 32768)) errors.push('thinkingBudget must be -1 to 32768');
+  if (mode.temperature !== undefined && !(typeof mode.temperature === 'number' && mode.temperature >= 0 && mode.temperature <= 2)) errors.push('temperature must be 0 to 2');
+  if (mode.maxOutputTokens !== undefined && !isInteger(mode.maxOutputTokens, 1, 65536)) errors.push('maxOutputTokens must be 1 to 65536');
+
+  return errors;
+};
+
+// --- Registry ---
+
+export interface ModeRegistry {
+  modes: ModeDefinition[];
+  entries: ModeDefinition[]; // User overrides and additions, as stored
+  errors: string[]; // Stored entries that were rejected on load
+}
+
+const buildRegistry = (entries: ModeDefinition[], errors: string[] = []): ModeRegistry => {
+  const modes = [...BUILT_IN_MODES];
+  for (const entry of entries) {
+    const index = modes.findIndex(m => m.id === entry.id);
+    if (index >= 0) modes[index] = entry;
+    else modes.push(entry);
+  }
+  return { modes, entries, errors };
+};
+
+/**
+ * Loads user entries on top of the built-ins. Invalid entries are dropped
+ * (and reported) so a bad edit can never break startup.
+ */
+export const loadModeRegistry = (): ModeRegistry => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(MODES_KEY) || '[]');
+  } catch {
+    return buildRegistry([], ['Stored modes are not valid JSON and were ignored']);
+  }
+  if (!Array.isArray(stored)) return buildRegistry([], ['Stored modes are not a list and were ignored']);
+
+  const entries: ModeDefinition[] = [];
+  const errors: string[] = [];
+  stored.forEach((entry, i) => {
+    const problems = validateModeEntry(entry);
+    if (problems.length > 0) {
+      errors.push(`Mode #${i + 1} (${(entry as any)?.id ?? '?'}): ${problems.join('; ')}`);
+    } else if (!entries.some(e => e.id === (entry as ModeDefinition).id)) {
+      entries.push(entry as ModeDefinition);
+    }
+  });
+  if (errors.length > 0) console.warn("Invalid mode entries ignored:", errors);
+
+  return buildRegistry(entries, errors);
+};
+
+let registry = loadModeRegistry();
+
+export const getModeRegistry = () => registry;
+
+export const getModes = () => registry.modes;
+
+/** Falls back to the first built-in mode for ids that no longer exist. */
+export const getMode = (id: ModeId): ModeDefinition =>
+  registry.modes.find(m => m.id === id) || BUILT_IN_MODES[0];
+
+export const saveModeEntries = (entries: ModeDefinition[]): ModeRegistry => {
+  localStorage.setItem(MODES_KEY, JSON.stringify(entries));
+  registry = buildRegistry(entries);
+  return registry;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMode } from '../types';
+import { RoutingRule, classifyMessage, countSymptoms, parseTriageReply } from './modeRouter';
+
+const classify = (text: string, extra: { attachmentCount?: number; hasTelemetry?: boolean } = {}) =>
+  classifyMessage({ text, attachmentCount: 0, hasTelemetry: false, ...extra });
+
+describe('classifyMessage', () => {
+  it('sends driver version questions to SEARCH', () => {
+    expect(classify('RTX 4070 的最新驱动版本是多少？').mode).toBe(ChatMode.SEARCH);
+    expect(classify('Where can I download the latest driver version for my AMD GPU?').mode).toBe(ChatMode.SEARCH);
+  });
+
+  it('sends several symptoms at once to THINKING', () => {
+    const decision = classify('玩游戏时经常蓝屏，有时直接黑屏然后自动重启');
+    expect(countSymptoms('玩游戏时经常蓝屏，有时直接黑屏然后自动重启')).toBe(3);
+    expect(decision.mode).toBe(ChatMode.THINKING);
+    expect(decision.reason).toContain('多个症状');
+  });
+
+  it('sends a short how-to to FAST with confidence', () => {
+    const decision = classify('怎么打开设备管理器？');
+    expect(decision).toMatchObject({ mode: ChatMode.FAST, source: 'rules', confident: true });
+  });
+
+  it('routes messages with attachments to PRO', () => {
+    expect(classify('帮我看看这个', { attachmentCount: 1 }).mode).toBe(ChatMode.PRO);
+  });
+
+  it('falls back to FAST without a matching rule, unsure for long messages', () => {
+    expect(classify('你好')).toMatchObject({ mode: ChatMode.FAST, confident: true });
+    expect(classify('我'.repeat(100))).toMatchObject({ mode: ChatMode.FAST, confident: false });
+  });
+
+  it('joins the reasons of every rule that voted for the winner', () => {
+    const decision = classify('蓝屏和死机，代码 0x0000007E');
+    expect(decision.mode).toBe(ChatMode.THINKING);
+    expect(decision.reason).toBe('多个症状同时出现，需要综合推理；需要分析错误代码或转储文件');
+  });
+});
+
+describe('classifyMessage scoring', () => {
+  const rule = (mode: RoutingRule['mode'], weight: number): RoutingRule => ({
+    id: `${mode}-${weight}`, mode, weight, reason: mode, matches: () => true,
+  });
+  const input = { text: 'x', attachmentCount: 0, hasTelemetry: false };
+
+  it('breaks ties toward the heavier mode', () => {
+    expect(classifyMessage(input, [rule(ChatMode.FAST, 2), rule(ChatMode.PRO, 2)]).mode).toBe(ChatMode.PRO);
+    expect(classifyMessage(input, [rule(ChatMode.PRO, 1), rule(ChatMode.THINKING, 1)]).mode).toBe(ChatMode.THINKING);
+    expect(classifyMessage(input, [rule(ChatMode.THINKING, 3), rule(ChatMode.SEARCH, 3)]).mode).toBe(ChatMode.THINKING);
+  });
+
+  it('is confident only with a margin of two over the runner-up', () => {
+    expect(classifyMessage(input, [rule(ChatMode.PRO, 2)]).confident).toBe(true);
+    expect(classifyMessage(input, [rule(ChatMode.PRO, 3), rule(ChatMode.SEARCH, 2)]).confident).toBe(false);
+    expect(classifyMessage(input, [rule(ChatMode.PRO, 4), rule(ChatMode.SEARCH, 2)]).confident).toBe(true);
+    expect(classifyMessage(input, [rule(ChatMode.FAST, 2), rule(ChatMode.PRO, 2)]).confident).toBe(false);
+  });
+});
+
+describe('parseTriageReply', () => {
+  it('reads a bare JSON decision', () => {
+    expect(parseTriageReply('{"mode": "SEARCH", "reason": "需要最新驱动信息"}'))
+      .toEqual({ mode: ChatMode.SEARCH, reason: '需要最新驱动信息', source: 'triage' });
+  });
+
+  it('finds the JSON inside prose or a code fence', () => {
+    expect(parseTriageReply('好的，我的判断如下：\n```json\n{"mode":"thinking","reason":"多个症状"}\n```\n希望有帮助。'))
+      .toEqual({ mode: ChatMode.THINKING, reason: '多个症状', source: 'triage' });
+  });
+
+  it('fills in a reason when the model leaves it out', () => {
+    expect(parseTriageReply('{"mode":"PRO","reason":"  "}')).toEqual({ mode: ChatMode.PRO, reason: '由模型判断', source: 'triage' });
+  });
+
+  it('rejects replies without a usable mode', () => {
+    expect(parseTriageReply('我认为应该用 PRO 模式')).toBeNull();
+    expect(parseTriageReply('{"mode": "AUTO", "reason": "x"}')).toBeNull();
+    expect(parseTriageReply('{"mode": "ULTRA"}')).toBeNull();
+    expect(parseTriageReply('{"mode": 3}')).toBeNull();
+    expect(parseTriageReply('{mode: PRO}')).toBeNull();
+    expect(parseTriageReply('')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { ChatMode, RouteDecision } from "../types";
+
+// Picks a built-in mode for a message when the user chose Auto. The rules are
+// pure functions of the message so they can be checked in isolation; the
+// optional model triage only runs when they are unsure.
+
+export const AUTO_MODE = { id: ChatMode.AUTO, label: 'Auto', icon: '✨' };
+
+export type RoutedMode = ChatMode.FAST | ChatMode.PRO | ChatMode.SEARCH | ChatMode.THINKING;
+
+export const ROUTED_MODES: RoutedMode[] = [ChatMode.FAST, ChatMode.PRO, ChatMode.SEARCH, ChatMode.THINKING];
+
+export interface RoutingInput {
+  text: string;
+  attachmentCount: number;
+  hasTelemetry: boolean;
+}
+
+export interface RoutingRule {
+  id: string;
+  mode: RoutedMode;
+  weight: number;
+  reason: string;
+  matches: (input: RoutingInput) => boolean;
+}
+
+const matchesAny = (patterns: RegExp[]) => ({ text }: RoutingInput) => patterns.some(p => p.test(text));
+
+// Distinct symptoms; two or more at once usually need reasoning across causes
+const SYMPTOMS: RegExp[] = [
+  /蓝屏|bsod|stop\s*code/i, /死机|卡死|freez/i, /重启|reboot/i, /黑屏|无显示|no signal/i,
+  /花屏|闪屏|artifact/i, /卡顿|掉帧|stutter|\blag/i, /过热|温度高|发烫|overheat/i, /噪音|异响|啸叫|noise/i,
+  /无法开机|开不了机|不开机|won'?t boot/i, /断网|掉线|网络断|disconnect/i, /无法启动|启动不了|启动失败/i,
+  /崩溃|闪退|crash/i, /没声音|无声|爆音/i, /usb.{0,6}(识别|断开)|无法识别/i,
+];
+
+export const countSymptoms = (text: string): number => SYMPTOMS.filter(p => p.test(text)).length;
+
+export const ROUTING_RULES: RoutingRule[] = [
+  {
+    id: 'current-info',
+    mode: ChatMode.SEARCH,
+    weight: 3,
+    reason: '涉及最新版本、发布或新闻，需要联网查询',
+    matches: matchesAny([
+      /最新|最近(发布|更新)|新版|今年|今天|本周|新闻|发布会|刚发布|上市/,
+      /\b(latest|newest|release[sd]?|news|announce[sd]?)\b/i,
+      /(驱动|bios|固件|firmware|driver).{0,8}(版本|下载|更新|version|download|update)/i,
+      /\bkb\d{6,8}\b/i,
+      /价格|多少钱|售价|price/i,
+    ]),
+  },
+  {
+    id: 'multi-symptom',
+    mode: ChatMode.THINKING,
+    weight: 3,
+    reason: '多个症状同时出现，需要综合推理',
+    matches: ({ text }) => countSymptoms(text) >= 2,
+  },
+  {
+    id: 'crash-analysis',
+    mode: ChatMode.THINKING,
+    weight: 2,
+    reason: '需要分析错误代码或转储文件',
+    matches: matchesAny([
+      /0x[0-9a-f]{6,8}/i,
+      /minidump|\.dmp\b|windbg|memory\.dmp|事件查看器.{0,10}(错误|id)|event id/i,
+      /[A-Z]{3,}(_[A-Z]+){2,}/, // Stop codes such as IRQL_NOT_LESS_OR_EQUAL
+    ]),
+  },
+  {
+    id: 'intermittent',
+    mode: ChatMode.THINKING,
+    weight: 1,
+    reason: '问题时有时无，排查需要更多推理',
+    matches: matchesAny([/偶尔|时不时|间歇|不定期|随机|有时候.{0,8}(有时|又)|intermittent|randomly/i]),
+  },
+  {
+    id: 'attachments',
+    mode: ChatMode.PRO,
+    weight: 2,
+    reason: '附带截图或日志，需要更强的理解能力',
+    matches: ({ attachmentCount }) => attachmentCount > 0,
+  },
+  {
+    id: 'telemetry',
+    mode: ChatMode.PRO,
+    weight: 1,
+    reason: '附带硬件状态，需要结合数据分析',
+    matches: ({ hasTelemetry }) => hasTelemetry,
+  },
+  {
+    id: 'explain-compare',
+    mode: ChatMode.PRO,
+    weight: 2,
+    reason: '需要解释原理或比较方案',
+    matches: matchesAny([
+      /为什么|原理|区别|对比|比较|哪个好|怎么选|优缺点|值得|推荐.{0,6}(配置|方案)|升级方案/,
+      /\b(why|difference|compare|versus|vs\.?|pros and cons|recommend)\b/i,
+    ]),
+  },
+  {
+    id: 'long-question',
+    mode: ChatMode.PRO,
+    weight: 1,
+    reason: '问题描述较长，细节较多',
+    matches: ({ text }) => text.length > 200,
+  },
+  {
+    id: 'quick-howto',
+    mode: ChatMode.FAST,
+    weight: 2,
+    reason: '简短的操作类问题',
+    matches: ({ text }) => text.length <= 60
+      && /怎么(打开|关闭|设置|查看|找到)|在哪|快捷键|是什么|如何(打开|查看)|\bhow (do i|to) (open|find|check)\b|shortcut/i.test(text),
+  },
+];
+
+// Below this margin over the runner-up (or with no rule at all) the pick is a guess
+const CONFIDENT_MARGIN = 2;
+
+/**
+ * Scores each mode by the rules that match and picks the best one. With no
+ * match the message is treated as a simple question for FAST.
+ */
+export const classifyMessage = (input: RoutingInput, rules: RoutingRule[] = ROUTING_RULES): RouteDecision & { confident: boolean } => {
+  const scores = new Map<RoutedMode, number>(ROUTED_MODES.map(mode => [mode, 0]));
+  const reasons = new Map<RoutedMode, string[]>();
+  for (const rule of rules) {
+    if (!rule.matches(input)) continue;
+    scores.set(rule.mode, scores.get(rule.mode)! + rule.weight);
+    reasons.set(rule.mode, [...(reasons.get(rule.mode) || []), rule.reason]);
+  }
+
+  // Ties go to the heavier mode, the later one in ROUTED_MODES
+  const ranked = [...ROUTED_MODES].reverse().sort((a, b) => scores.get(b)! - scores.get(a)!);
+  const [best, runnerUp] = ranked;
+  const top = scores.get(best)!;
+  if (top === 0) {
+    return { mode: ChatMode.FAST, reason: '一般性问题，快速回答即可', source: 'rules', confident: input.text.length <= 60 };
+  }
+  return {
+    mode: best,
+    reason: reasons.get(best)!.join('；'),
+    source: 'rules',
+    confident: top - scores.get(runnerUp)! >= CONFIDENT_MARGIN,
+  };
+};
+
+// --- Model triage ---
+
+export const TRIAGE_INSTRUCTION = [
+  '你负责为电脑技术支持问题选择回答模式，只输出一行 JSON：{"mode": "...", "reason": "..."}。',
+  'mode 取值：',
+  '- FAST：简单、常见、可以直接回答的问题。',
+  '- PRO：需要较强理解或解释的问题，如分析日志、比较方案。',
+  '- SEARCH：依赖最新信息的问题，如驱动版本、新硬件、新闻、价格。',
+  '- THINKING：多个症状交织、需要逐步推理排查的复杂故障。',
+  'reason 用一句简体中文说明理由。',
+].join('\n');
+
+/** Reads the triage model's answer; null when it isn't a usable decision. */
+export const parseTriageReply = (reply: string): RouteDecision | null => {
+  const json = reply.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    const mode = typeof parsed.mode === 'string' ? parsed.mode.trim().toUpperCase() : '';
+    if (!ROUTED_MODES.includes(mode as RoutedMode)) return null;
+    const reason = typeof parsed.reason === 'string' && parsed.reason.trim() ? parsed.reason.trim().slice(0, 80) : '由模型判断';
+    return { mode: mode as RoutedMode, reason, source: 'triage' };
+  } catch {
+    return null;
+  }
+};
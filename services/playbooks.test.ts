@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Playbook } from '../types';
+import { PLAYBOOKS, answerStep, buildStepPrompt, isPlaybookProgress, startPlaybook, validatePlaybook } from './playbooks';
+
+describe('playbook definitions', () => {
+  it.each(PLAYBOOKS.map(p => [p.id, p] as const))('%s is structurally valid', (_id, playbook) => {
+    expect(validatePlaybook(playbook)).toEqual([]);
+  });
+
+  it('have unique ids', () => {
+    expect(new Set(PLAYBOOKS.map(p => p.id)).size).toBe(PLAYBOOKS.length);
+  });
+
+  it('reach every step from the start', () => {
+    for (const playbook of PLAYBOOKS) {
+      const reached = new Set<string>();
+      const visit = (id: string | null) => {
+        if (id === null || reached.has(id)) return;
+        reached.add(id);
+        playbook.steps.find(s => s.id === id)?.options.forEach(o => visit(o.next));
+      };
+      visit(playbook.startStepId);
+      expect(playbook.steps.map(s => s.id).filter(id => !reached.has(id)), playbook.id).toEqual([]);
+    }
+  });
+});
+
+describe('validatePlaybook', () => {
+  it('reports duplicate steps, dangling branches, empty steps and a missing start', () => {
+    const broken: Playbook = {
+      id: 'broken', title: '', icon: '', summary: '', startStepId: 'missing',
+      steps: [
+        { id: 'a', title: '', instruction: '', question: '', options: [{ label: '是', next: 'nowhere' }] },
+        { id: 'a', title: '', instruction: '', question: '', options: [] },
+      ],
+    };
+    expect(validatePlaybook(broken)).toEqual([
+      'broken: duplicate step "a"',
+      'broken/a: no options',
+      'broken: unknown start step "missing"',
+      'broken/a: unknown next step "nowhere"',
+    ]);
+  });
+});
+
+describe('isPlaybookProgress', () => {
+  const playbook = PLAYBOOKS[0];
+  const progress = answerStep(playbook, startPlaybook(playbook), 0);
+
+  it('accepts progress produced by answering steps', () => {
+    expect(isPlaybookProgress(startPlaybook(playbook))).toBe(true);
+    expect(isPlaybookProgress(progress)).toBe(true);
+    expect(isPlaybookProgress({ ...progress, currentStepId: null, outcome: '需要更换电源' })).toBe(true);
+  });
+
+  it('rejects answers that are not recorded answers', () => {
+    expect(isPlaybookProgress({ ...progress, answers: [1, 2] })).toBe(false);
+    expect(isPlaybookProgress({ ...progress, answers: [null] })).toBe(false);
+    expect(isPlaybookProgress({ ...progress, answers: [{ stepId: 'a', answer: 3, at: 0 }] })).toBe(false);
+    expect(isPlaybookProgress({ ...progress, answers: [{ stepId: 'a', answer: '是' }] })).toBe(false);
+  });
+
+  it('rejects a malformed outcome or step', () => {
+    expect(isPlaybookProgress({ ...progress, outcome: { text: 'x' } })).toBe(false);
+    expect(isPlaybookProgress({ ...progress, currentStepId: 3 })).toBe(false);
+    expect(isPlaybookProgress(null)).toBe(false);
+  });
+
+  it('keeps step titles in prompts built from valid progress', () => {
+    expect(buildStepPrompt(playbook, progress)).toContain(`- ${playbook.steps.find(s => s.id === playbook.startStepId)!.title}: `);
+  });
+});
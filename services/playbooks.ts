@@ -0,0 +1,396 @@
+import { Playbook, PlaybookAnswer, PlaybookProgress, PlaybookStep } from "../types";
+
+// --- Definitions ---
+
+export const PLAYBOOKS: Playbook[] = [
+  {
+    id: 'bsod',
+    title: '电脑蓝屏',
+    icon: '🟦',
+    summary: '从停止代码出发，排查驱动、系统文件、内存与磁盘',
+    startStepId: 'record-code',
+    steps: [
+      {
+        id: 'record-code',
+        title: '记录蓝屏代码',
+        instruction: '记下蓝屏界面上的停止代码（如 CRITICAL_PROCESS_DIED）和出错模块名。如果已经重启，可以在事件查看器中查找 BugCheck 记录。',
+        command: "Get-WinEvent -FilterHashtable @{LogName='System'; Id=1001} -MaxEvents 5 | Format-List TimeCreated, Message",
+        expected: '能看到最近一次蓝屏的停止代码和参数',
+        question: '电脑现在能正常进入桌面吗？',
+        options: [
+          { label: '能进入桌面，只是偶尔蓝屏', next: 'recent-changes' },
+          { label: '反复蓝屏，无法进入桌面', next: 'safe-mode' },
+        ],
+      },
+      {
+        id: 'safe-mode',
+        title: '进入安全模式',
+        instruction: '连续三次在开机时强制关机进入 Windows 恢复环境，依次选择 疑难解答 > 高级选项 > 启动设置 > 重启，然后按 4 进入安全模式。',
+        expected: '安全模式只加载基本驱动，可以正常进入桌面',
+        question: '安全模式下系统稳定吗？',
+        options: [
+          { label: '稳定，没有蓝屏', next: 'recent-changes' },
+          { label: '安全模式也蓝屏', next: 'memory-test' },
+        ],
+      },
+      {
+        id: 'recent-changes',
+        title: '回滚最近的变更',
+        instruction: '回想蓝屏开始前安装的驱动、Windows 更新或软件（尤其是杀毒、超频、RGB 控制工具），将其卸载或回滚；也可以使用系统还原点。',
+        command: 'Get-HotFix | Sort-Object InstalledOn -Descending | Select-Object -First 5',
+        question: '回滚后还会蓝屏吗？',
+        options: [
+          { label: '不再蓝屏', next: null, outcome: '蓝屏由最近的驱动、更新或软件变更引起，已通过回滚解决。' },
+          { label: '仍然蓝屏', next: 'system-files' },
+        ],
+      },
+      {
+        id: 'system-files',
+        title: '修复系统文件',
+        instruction: '以管理员身份打开终端，先运行 SFC 扫描，再用 DISM 修复系统映像。',
+        command: 'sfc /scannow\nDISM /Online /Cleanup-Image /RestoreHealth',
+        expected: '“Windows 资源保护未找到任何完整性冲突”或“已成功修复”',
+        question: '修复完成后还会蓝屏吗？',
+        options: [
+          { label: '问题解决了', next: null, outcome: '系统文件损坏导致蓝屏，已通过 SFC/DISM 修复。' },
+          { label: '仍然蓝屏', next: 'memory-test' },
+        ],
+      },
+      {
+        id: 'memory-test',
+        title: '内存诊断',
+        instruction: '运行 Windows 内存诊断并重启检测；如果开启了 XMP/EXPO，先在 BIOS 中关闭后再观察。',
+        command: 'mdsched.exe',
+        expected: '重启后提示“未检测到内存错误”',
+        question: '内存诊断结果如何？',
+        options: [
+          { label: '检测到内存错误', next: null, outcome: '内存故障或不稳定。请重新插拔内存条、逐根测试，必要时更换。' },
+          { label: '未发现错误', next: 'disk-check' },
+        ],
+      },
+      {
+        id: 'disk-check',
+        title: '检查磁盘',
+        instruction: '扫描系统盘文件系统错误，并查看硬盘自检健康状态。',
+        command: 'chkdsk C: /scan\nGet-PhysicalDisk | Select-Object FriendlyName, MediaType, HealthStatus',
+        expected: '未发现问题，HealthStatus 为 Healthy',
+        question: '磁盘检查结果如何？',
+        options: [
+          { label: '磁盘报告错误或不健康', next: null, outcome: '系统盘存在故障，请立即备份数据并更换硬盘。' },
+          { label: '磁盘正常', next: null, outcome: '常规排查未找到原因。建议收集 C:\\Windows\\Minidump 中的转储文件做进一步分析。' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'no-boot',
+    title: '无法开机',
+    icon: '🔌',
+    summary: '按通电、显示、引导三个阶段定位故障',
+    startStepId: 'power',
+    steps: [
+      {
+        id: 'power',
+        title: '观察开机反应',
+        instruction: '按下电源键，观察风扇、指示灯、主板 Debug 灯和蜂鸣声。',
+        question: '按下电源键后是什么情况？',
+        options: [
+          { label: '完全没有反应', next: 'power-supply' },
+          { label: '风扇转、灯亮，但屏幕无显示', next: 'no-display' },
+          { label: '有画面，但进不了 Windows', next: 'boot-repair' },
+        ],
+      },
+      {
+        id: 'power-supply',
+        title: '检查供电',
+        instruction: '确认插座和电源背后开关已打开，电源线插紧；台式机检查主板 24pin 与 CPU 8pin 供电；笔记本拔掉适配器和电池后长按电源键 30 秒再试。',
+        question: '现在能通电吗？',
+        options: [
+          { label: '可以开机了', next: null, outcome: '供电连接问题，已恢复。' },
+          { label: '仍然没有反应', next: null, outcome: '电源或主板可能损坏。建议用替换电源测试或送修。' },
+        ],
+      },
+      {
+        id: 'no-display',
+        title: '排查无显示',
+        instruction: '确认显示器输入源正确、视频线接在独立显卡而不是主板接口上；断电后重新插拔内存条和显卡，并记录主板蜂鸣或故障指示灯。',
+        question: '重新插拔后是否有画面？',
+        options: [
+          { label: '有画面了', next: null, outcome: '内存或显卡接触不良，已通过重新插拔解决。' },
+          { label: '仍无画面', next: 'clear-cmos' },
+        ],
+      },
+      {
+        id: 'clear-cmos',
+        title: '清除 CMOS',
+        instruction: '断电后取下主板纽扣电池等待一分钟，或短接 CLR_CMOS 跳线，让 BIOS 恢复默认设置（可排除超频或 XMP 导致的无法点亮）。',
+        question: '清除 CMOS 后能点亮吗？',
+        options: [
+          { label: '可以点亮', next: null, outcome: 'BIOS 设置（超频/内存频率）导致无法点亮，已恢复默认。' },
+          { label: '仍然不行', next: null, outcome: '可能是内存、显卡、CPU 或主板硬件故障。请对照主板手册解读故障灯，或逐件替换测试。' },
+        ],
+      },
+      {
+        id: 'boot-repair',
+        title: '修复引导',
+        instruction: '进入 Windows 恢复环境，先尝试“启动修复”；无效则打开命令提示符重建引导记录。',
+        command: 'bootrec /fixmbr\nbootrec /fixboot\nbootrec /rebuildbcd',
+        expected: '命令提示“操作成功完成”，重启后正常进入系统',
+        question: '现在能进入 Windows 吗？',
+        options: [
+          { label: '可以进入', next: null, outcome: '系统引导损坏，已通过引导修复解决。' },
+          { label: '仍然失败', next: 'bios-disk' },
+        ],
+      },
+      {
+        id: 'bios-disk',
+        title: '确认 BIOS 识别系统盘',
+        instruction: '进入 BIOS，查看存储设备列表和启动顺序中是否有系统盘。',
+        question: 'BIOS 能识别到系统盘吗？',
+        options: [
+          { label: '能识别', next: null, outcome: 'Windows 引导或系统文件严重损坏。建议备份数据后用安装介质修复或重装。' },
+          { label: '识别不到', next: null, outcome: '系统盘连接松动或已损坏。请重新连接数据线/M.2 插槽，仍无效则更换硬盘。' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'overheating',
+    title: '电脑过热',
+    icon: '🔥',
+    summary: '测量温度，定位 CPU 或显卡，再处理散热与功耗',
+    startStepId: 'measure',
+    steps: [
+      {
+        id: 'measure',
+        title: '测量温度',
+        instruction: '在 V-D 硬件监控页（或 HWMonitor）记录待机和满载（游戏或压力测试 10 分钟）时的 CPU 与显卡温度。',
+        expected: 'CPU 满载低于 85°C，显卡满载低于 83°C',
+        question: '哪个部件温度过高？',
+        options: [
+          { label: 'CPU', next: 'cpu-cooling' },
+          { label: '显卡', next: 'gpu-cooling' },
+          { label: '温度正常，但风扇很吵', next: 'fan-curve' },
+        ],
+      },
+      {
+        id: 'cpu-cooling',
+        title: '检查 CPU 散热器',
+        instruction: '断电后确认散热风扇正常转动，清理散热鳍片和机箱滤网的灰尘，检查散热器扣具是否松动。',
+        question: '清灰后温度如何？',
+        options: [
+          { label: '恢复正常', next: null, outcome: '积灰导致散热不良，清理后已恢复。' },
+          { label: '仍然过热', next: 'thermal-paste' },
+        ],
+      },
+      {
+        id: 'thermal-paste',
+        title: '重新涂抹硅脂',
+        instruction: '拆下散热器，清除旧硅脂，在 CPU 顶盖中央涂上适量新硅脂后重新安装并均匀拧紧。',
+        question: '更换硅脂后温度如何？',
+        options: [
+          { label: '恢复正常', next: null, outcome: '硅脂老化导致导热不良，已更换。' },
+          { label: '仍然偏高', next: 'power-limits' },
+        ],
+      },
+      {
+        id: 'power-limits',
+        title: '限制 CPU 功耗',
+        instruction: '将最大处理器状态限制在 90% 以关闭睿频峰值，观察温度和性能变化。',
+        command: 'powercfg /setacvalueindex SCHEME_CURRENT SUB_PROCESSOR PROCTHROTTLEMAX 90\npowercfg /setactive SCHEME_CURRENT',
+        question: '限制功耗后是否可以接受？',
+        options: [
+          { label: '温度可以接受', next: null, outcome: '散热器能力不足以支撑满载睿频，已通过限制功耗缓解。可考虑升级散热器。' },
+          { label: '仍然过热', next: null, outcome: '散热器可能与 CPU 不匹配或已损坏（如水冷泵故障），建议更换散热器。' },
+        ],
+      },
+      {
+        id: 'gpu-cooling',
+        title: '改善显卡散热',
+        instruction: '清理显卡风扇与鳍片灰尘，确认机箱风道（前进后出）；可用 MSI Afterburner 适当降低功耗上限或降压。',
+        question: '处理后显卡温度如何？',
+        options: [
+          { label: '恢复正常', next: null, outcome: '显卡积灰或风道不畅，已改善。' },
+          { label: '仍然过热', next: null, outcome: '显卡散热模组或导热垫老化，建议送修或由专业人员更换硅脂和导热垫。' },
+        ],
+      },
+      {
+        id: 'fan-curve',
+        title: '调整风扇曲线',
+        instruction: '在 BIOS 的风扇设置（如 Q-Fan/Smart Fan）中将低温区间的转速调低，让风扇在 60°C 以下保持安静。',
+        question: '噪音是否改善？',
+        options: [
+          { label: '改善了', next: null, outcome: '风扇曲线过于激进，已调整。' },
+          { label: '没有改善', next: null, outcome: '可能是风扇轴承老化或异响，建议更换对应风扇。' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'slow-disk',
+    title: '磁盘缓慢',
+    icon: '🐢',
+    summary: '磁盘占用 100%、C 盘空间不足或硬盘老化',
+    startStepId: 'identify',
+    steps: [
+      {
+        id: 'identify',
+        title: '确认磁盘类型',
+        instruction: '打开任务管理器 > 性能，查看系统盘类型和“活动时间”；也可以用命令查看。',
+        command: 'Get-PhysicalDisk | Select-Object FriendlyName, MediaType, HealthStatus',
+        question: '系统盘是什么类型？',
+        options: [
+          { label: '机械硬盘 (HDD)', next: 'high-usage' },
+          { label: '固态硬盘 (SSD)', next: 'ssd-health' },
+        ],
+      },
+      {
+        id: 'high-usage',
+        title: '查找高占用进程',
+        instruction: '在任务管理器“进程”页按磁盘排序，找出持续占用高的程序；可暂停 SysMain 和 Windows Search 服务测试。',
+        command: 'Get-Service SysMain, WSearch',
+        expected: '空闲时磁盘活动时间低于 10%',
+        question: '找到并处理占用后情况如何？',
+        options: [
+          { label: '明显变快', next: null, outcome: '后台进程或服务占满磁盘，已处理。' },
+          { label: '仍然 100% 或很慢', next: 'disk-health' },
+        ],
+      },
+      {
+        id: 'ssd-health',
+        title: '检查 SSD 空间与健康',
+        instruction: '查看 C 盘剩余空间（低于 15% 会明显变慢），用 CrystalDiskInfo 查看健康度，并手动执行一次 TRIM。',
+        command: 'Optimize-Volume -DriveLetter C -ReTrim -Verbose',
+        question: '检查结果如何？',
+        options: [
+          { label: 'C 盘空间不足', next: 'cleanup' },
+          { label: '健康度警告', next: null, outcome: 'SSD 寿命将尽或存在坏块，请尽快备份并更换。' },
+          { label: '空间和健康都正常', next: 'high-usage' },
+        ],
+      },
+      {
+        id: 'cleanup',
+        title: '清理 C 盘',
+        instruction: '使用磁盘清理（勾选系统文件）和存储感知，清理组件存储，并把大文件移到其他分区。',
+        command: 'cleanmgr /sageset:1\ncleanmgr /sagerun:1\nDISM /Online /Cleanup-Image /StartComponentCleanup',
+        expected: 'C 盘剩余空间恢复到 20% 以上',
+        question: '清理后速度如何？',
+        options: [
+          { label: '变快了', next: null, outcome: 'C 盘空间不足导致性能下降，已清理。' },
+          { label: '仍然很慢', next: 'disk-health' },
+        ],
+      },
+      {
+        id: 'disk-health',
+        title: '检查磁盘健康',
+        instruction: '扫描文件系统错误，并查看硬盘 SMART 状态。',
+        command: 'chkdsk C: /scan\nGet-PhysicalDisk | Get-StorageReliabilityCounter | Select-Object ReadErrorsTotal, Wear, Temperature',
+        question: '磁盘有错误或警告吗？',
+        options: [
+          { label: '有坏道或警告', next: null, outcome: '硬盘老化或存在坏道，请备份数据并更换。' },
+          { label: '一切正常', next: null, outcome: '硬盘本身正常但性能不足。机械硬盘作系统盘建议升级为 SSD。' },
+        ],
+      },
+    ],
+  },
+];
+
+/** Structural problems in a playbook (dangling branches, duplicate ids); empty when valid. */
+export const validatePlaybook = (playbook: Playbook): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  for (const step of playbook.steps) {
+    if (ids.has(step.id)) errors.push(`${playbook.id}: duplicate step "${step.id}"`);
+    ids.add(step.id);
+    if (step.options.length === 0) errors.push(`${playbook.id}/${step.id}: no options`);
+  }
+  if (!ids.has(playbook.startStepId)) errors.push(`${playbook.id}: unknown start step "${playbook.startStepId}"`);
+  for (const step of playbook.steps) {
+    for (const option of step.options) {
+      if (option.next !== null && !ids.has(option.next)) errors.push(`${playbook.id}/${step.id}: unknown next step "${option.next}"`);
+    }
+  }
+  return errors;
+};
+
+export const getPlaybook = (id: string) => PLAYBOOKS.find(p => p.id === id) || null;
+
+export const getStep = (playbook: Playbook, stepId: string | null): PlaybookStep | null =>
+  playbook.steps.find(s => s.id === stepId) || null;
+
+// --- Progress ---
+
+export const startPlaybook = (playbook: Playbook): PlaybookProgress => ({
+  playbookId: playbook.id,
+  currentStepId: playbook.startStepId,
+  answers: [],
+});
+
+/** Records the answer to the current step and moves along its branch. */
+export const answerStep = (playbook: Playbook, progress: PlaybookProgress, optionIndex: number): PlaybookProgress => {
+  const step = getStep(playbook, progress.currentStepId);
+  const option = step?.options[optionIndex];
+  if (!step || !option) return progress;
+
+  return {
+    ...progress,
+    currentStepId: option.next,
+    answers: [...progress.answers, { stepId: step.id, answer: option.label, at: Date.now() }],
+    outcome: option.next === null ? option.outcome : undefined,
+  };
+};
+
+// --- Prompts ---
+
+const describeAnswers = (playbook: Playbook, progress: PlaybookProgress) =>
+  progress.answers
+    .map(a => `- ${getStep(playbook, a.stepId)?.title || a.stepId}: ${a.answer}`)
+    .join('\n');
+
+/** Asks the model to flesh out the current step for the user's situation. */
+export const buildStepPrompt = (playbook: Playbook, progress: PlaybookProgress): string => {
+  const step = getStep(playbook, progress.currentStepId);
+  if (!step) return buildOutcomePrompt(playbook, progress);
+
+  const answers = describeAnswers(playbook, progress);
+  return [
+    `[排障流程: ${playbook.title} · 第 ${progress.answers.length + 1} 步「${step.title}」]`,
+    answers && `已完成的步骤：\n${answers}`,
+    `当前步骤：${step.instruction}`,
+    step.command && `参考命令：\n\`\`\`powershell\n${step.command}\n\`\`\``,
+    step.expected && `预期结果：${step.expected}`,
+    `请结合我之前提供的信息，具体说明这一步怎么做、要注意什么、如何判断结果。最后请我回答：${step.question}`,
+  ].filter(Boolean).join('\n\n');
+};
+
+/** Sent when the last answer ends the playbook. */
+export const buildOutcomePrompt = (playbook: Playbook, progress: PlaybookProgress): string => [
+  `[排障流程: ${playbook.title} · 已完成]`,
+  `排查过程：\n${describeAnswers(playbook, progress)}`,
+  progress.outcome && `初步结论：${progress.outcome}`,
+  '请总结诊断结论，并给出后续建议和预防措施。',
+].filter(Boolean).join('\n\n');
+
+/** The message sent after the user picks an answer: their result plus the next step. */
+export const buildAnswerPrompt = (playbook: Playbook, progress: PlaybookProgress): string => {
+  const last = progress.answers[progress.answers.length - 1];
+  const next = progress.currentStepId ? buildStepPrompt(playbook, progress) : buildOutcomePrompt(playbook, progress);
+  return last ? `我的结果：${last.answer}\n\n${next}` : next;
+};
+
+const isPlaybookAnswer = (value: unknown): value is PlaybookAnswer => {
+  const answer = value as PlaybookAnswer;
+  return !!answer && typeof answer === 'object'
+    && typeof answer.stepId === 'string'
+    && typeof answer.answer === 'string'
+    && typeof answer.at === 'number';
+};
+
+export const isPlaybookProgress = (value: unknown): value is PlaybookProgress => {
+  const progress = value as PlaybookProgress;
+  return !!progress && typeof progress === 'object'
+    && typeof progress.playbookId === 'string'
+    && (progress.currentStepId === null || typeof progress.currentStepId === 'string')
+    && Array.isArray(progress.answers) && progress.answers.every(isPlaybookAnswer)
+    && (progress.outcome === undefined || typeof progress.outcome === 'string');
+};
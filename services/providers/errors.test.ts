@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ProviderError, isTransientError, kindFromStatus, normalizeError } from './errors';
+
+const withStatus = (status: number, message = 'failed') => Object.assign(new Error(message), { status });
+
+describe('kindFromStatus', () => {
+  it('maps HTTP statuses onto error kinds', () => {
+    expect([401, 403, 404, 429, 500, 503, 400].map(kindFromStatus))
+      .toEqual(['auth', 'auth', 'model', 'quota', 'unavailable', 'unavailable', 'unknown']);
+  });
+});
+
+describe('normalizeError', () => {
+  it('does not retry a model that does not exist', () => {
+    const error = normalizeError(withStatus(404, 'models/gemini-9-pro is not found for API version v1beta'));
+    expect(error).toMatchObject({ kind: 'model', status: 404 });
+    expect(isTransientError(error.kind)).toBe(false);
+  });
+
+  it('recognises a missing model from the message alone', () => {
+    expect(normalizeError(new Error('The model `gpt-5o` does not exist or is not found')).kind).toBe('model');
+    expect(normalizeError(new Error('models/foo is not supported for generateContent')).kind).toBe('model');
+  });
+
+  it('does not treat every "not found" message as a server outage', () => {
+    const error = normalizeError(new Error('Requested entity was not found'));
+    expect(error.kind).toBe('unknown');
+    expect(isTransientError(error.kind)).toBe(false);
+  });
+
+  it('still retries overloaded servers and network failures', () => {
+    expect(normalizeError(withStatus(503)).kind).toBe('unavailable');
+    expect(normalizeError(new Error('The model is overloaded')).kind).toBe('unavailable');
+    expect(normalizeError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(['unavailable', 'network', 'quota'].every(kind => isTransientError(kind as ProviderError['kind']))).toBe(true);
+  });
+
+  it('reads a bad Gemini key from a 400', () => {
+    expect(normalizeError(withStatus(400, 'API key not valid')).kind).toBe('auth');
+  });
+});
@@ -0,0 +1,46 @@
+import { StreamErrorKind } from "../../types";
+
+export type ProviderErrorKind = StreamErrorKind;
+
+/** A failure from any LLM backend, normalized to one of a few kinds the UI can act on. */
+export class ProviderError extends Error {
+  constructor(readonly kind: ProviderErrorKind, message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/** Failures worth retrying automatically; the rest need the user to change something. */
+export const isTransientError = (kind: ProviderErrorKind) =>
+  kind === 'network' || kind === 'quota' || kind === 'unavailable';
+
+export const kindFromStatus = (status: number): ProviderErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  // A missing model stays missing, so it is not retried like a server outage
+  if (status === 404) return 'model';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+/** Maps anything thrown by fetch or an SDK onto a ProviderError. */
+export const normalizeError = (error: unknown): ProviderError => {
+  if (error instanceof ProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+  if (status !== undefined) {
+    let kind = kindFromStatus(status);
+    // Gemini reports a bad key as 400 INVALID_ARGUMENT
+    if (kind === 'unknown' && /api key/i.test(message)) kind = 'auth';
+    return new ProviderError(kind, message, status);
+  }
+  if (/api key|permission denied|unauthenticated/i.test(message)) return new ProviderError('auth', message);
+  if (/quota|resource_exhausted|rate limit/i.test(message)) return new ProviderError('quota', message);
+  if (/safety|blocked/i.test(message)) return new ProviderError('safety', message);
+  if (/\bmodels?\b.*\bnot (found|supported)\b|\bno such model\b/i.test(message)) return new ProviderError('model', message);
+  if (/unavailable|overloaded/i.test(message)) return new ProviderError('unavailable', message);
+  if (error instanceof TypeError || /failed to fetch|network|load failed/i.test(message)) return new ProviderError('network', message);
+  return new ProviderError('unknown', message);
+};
@@ -0,0 +1,130 @@
+import { GoogleGenAI, Chat, Content, GenerateContentConfig, GenerateContentResponse, Part } from "@google/genai";
+import { Message, SearchSource } from "../../types";
+import { composePromptText } from "../diagnostics";
+import { attachmentInlineData } from "../attachments";
+import { ChatSession, LLMProvider, SessionOptions, StreamChunk } from "./types";
+import { ProviderError, normalizeError } from "./errors";
+import { getSettings } from "../settings";
+
+let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+/** A key entered in Settings takes precedence over the build-time one. */
+export const getGeminiApiKey = () => getSettings().apiKey.trim() || process.env.API_KEY || '';
+
+export const getGeminiClient = (): GoogleGenAI => {
+  const apiKey = getGeminiApiKey();
+  if (client?.apiKey !== apiKey) client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+  return client.ai;
+};
+
+/** Checks a key by fetching a model's metadata; costs no tokens. */
+export const testGeminiApiKey = async (apiKey: string): Promise<{ ok: true } | { ok: false; error: ProviderError }> => {
+  try {
+    await new GoogleGenAI({ apiKey }).models.get({ model: 'gemini-2.5-flash-lite' });
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: normalizeError(error) };
+  }
+};
+
+/** Parts sent for a user message: the prompt text followed by any attached files. */
+export const buildUserParts = (msg: Message): Part[] => [
+  { text: composePromptText(msg) },
+  ...(msg.attachments || []).flatMap(a => [
+    { text: `[附件: ${a.name}]` },
+    { inlineData: attachmentInlineData(a) },
+  ]),
+];
+
+const toContent = (msg: Message): Content => ({
+  role: msg.role,
+  parts: msg.role === 'user' ? buildUserParts(msg) : [{ text: msg.text }]
+});
+
+class GeminiSession implements ChatSession {
+  constructor(private chat: Chat, private config: GenerateContentConfig) {}
+
+  async *sendMessageStream(message: Message, signal?: AbortSignal): AsyncGenerator<StreamChunk, void, unknown> {
+    let resultStream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      resultStream = await this.chat.sendMessageStream({
+        message: buildUserParts(message),
+        // Per-request config replaces the chat-level config in the SDK, so merge
+        config: signal ? { ...this.config, abortSignal: signal } : undefined,
+      });
+    } catch (error) {
+      throw normalizeError(error);
+    }
+
+    try {
+      for await (const chunk of resultStream) {
+        if (signal?.aborted) return;
+
+        const blockReason = chunk.promptFeedback?.blockReason;
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+          throw new ProviderError('safety', `Response blocked: ${blockReason || finishReason}`);
+        }
+
+        // The text getter skips thought parts; those are the reasoning summary
+        const text = chunk.text;
+        const thought = (chunk.candidates?.[0]?.content?.parts || [])
+          .filter(part => part.thought && part.text)
+          .map(part => part.text)
+          .join('');
+
+        // Extract grounding metadata if available (for Search mode)
+        let sources: SearchSource[] | undefined;
+        const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+
+        if (groundingChunks) {
+          sources = groundingChunks
+            .map((c: any) => c.web ? { uri: c.web.uri, title: c.web.title } : null)
+            .filter((s: any) => s !== null) as SearchSource[];
+        }
+
+        const metadata = chunk.usageMetadata;
+        const usage = metadata ? {
+          promptTokens: metadata.promptTokenCount || 0,
+          outputTokens: metadata.candidatesTokenCount || 0,
+          thinkingTokens: metadata.thoughtsTokenCount || 0,
+        } : undefined;
+
+        if (text || thought || sources || usage) {
+          yield { text: text || '', thought: thought || undefined, sources, usage };
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw normalizeError(error);
+    }
+  }
+}
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  createSession({ mode, systemInstruction, history }: SessionOptions): ChatSession {
+    const config: GenerateContentConfig = { systemInstruction };
+
+    if (mode.tools.includes('googleSearch')) {
+      config.tools = [{ googleSearch: {} }];
+    }
+    if (mode.thinkingBudget !== undefined) {
+      // Ask for thought summaries whenever the model is allowed to think
+      config.thinkingConfig = { thinkingBudget: mode.thinkingBudget, includeThoughts: mode.thinkingBudget !== 0 };
+    }
+    if (mode.temperature !== undefined) {
+      config.temperature = mode.temperature;
+    }
+    if (mode.maxOutputTokens !== undefined) {
+      config.maxOutputTokens = mode.maxOutputTokens;
+    }
+
+    const chat = getGeminiClient().chats.create({
+      model: mode.model,
+      history: history.map(toContent),
+      config,
+    });
+    return new GeminiSession(chat, config);
+  },
+};
@@ -0,0 +1,69 @@
+import { ModeDefinition } from "../../types";
+import { LLMProvider, ProviderConfig, ProviderId } from "./types";
+import { geminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { createMockProvider } from "./mock";
+
+export * from "./types";
+export { ProviderError, normalizeError, isTransientError } from "./errors";
+export type { ProviderErrorKind } from "./errors";
+export { getGeminiClient, testGeminiApiKey } from "./gemini";
+export { testOpenAIConnection } from "./openai";
+
+const PROVIDER_KEY = 'vd.provider';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (llama.cpp / Ollama)',
+  mock: 'Mock (offline)',
+};
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  id: 'gemini',
+  openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROVIDER_KEY) || 'null');
+    if (!stored || !(stored.id in PROVIDER_LABELS)) return DEFAULT_PROVIDER_CONFIG;
+    return {
+      id: stored.id,
+      openai: { ...DEFAULT_PROVIDER_CONFIG.openai, ...stored.openai },
+    };
+  } catch {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+};
+
+let config = loadProviderConfig();
+
+export const getProviderConfig = () => config;
+
+export const saveProviderConfig = (next: ProviderConfig) => {
+  config = next;
+  localStorage.setItem(PROVIDER_KEY, JSON.stringify(next));
+};
+
+export const getActiveProvider = (): LLMProvider => {
+  switch (config.id) {
+    case 'openai':
+      return createOpenAIProvider(config.openai);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return geminiProvider;
+  }
+};
+
+/** The model that actually answers in a mode: OpenAI-compatible servers use their own. */
+export const activeModelFor = (mode: ModeDefinition): string => {
+  switch (config.id) {
+    case 'openai':
+      return config.openai.model;
+    case 'mock':
+      return 'mock';
+    default:
+      return mode.model;
+  }
+};
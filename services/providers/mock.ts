@@ -0,0 +1,61 @@
+import { Message } from "../../types";
+import { ChatSession, LLMProvider, SessionOptions, StreamChunk } from "./types";
+import { ProviderError, ProviderErrorKind } from "./errors";
+
+export interface MockProviderOptions {
+  chunkDelayMs?: number;
+  /** Fail requests with this error kind after the first chunk. */
+  failWith?: ProviderErrorKind;
+  /** Fail before any text instead, as a refused connection would. */
+  failBeforeText?: boolean;
+  /** Only this many requests fail; later ones succeed. Unlimited by default. */
+  failCount?: number;
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/**
+ * Deterministic offline provider: echoes the prompt back in small chunks.
+ * Useful for UI work without an API key and for exercising error states.
+ */
+export const createMockProvider = ({
+  chunkDelayMs = 40, failWith, failBeforeText = false, failCount = Infinity,
+}: MockProviderOptions = {}): LLMProvider => {
+  let failures = 0;
+
+  return {
+    id: 'mock',
+    createSession({ mode, history }: SessionOptions): ChatSession {
+      let turns = history.filter(m => m.role === 'user').length;
+
+      return {
+        async *sendMessageStream(message: Message, signal?: AbortSignal): AsyncGenerator<StreamChunk, void, unknown> {
+          const attachments = message.attachments?.length ? `\n\n附件: ${message.attachments.map(a => a.name).join(', ')}` : '';
+          const reply = `**[mock · ${mode.id} · #${turns + 1}]**\n\n> ${message.text.replace(/\n/g, '\n> ')}${attachments}`;
+          const words = reply.match(/\S+\s*/g) || [];
+          const failAt = failWith && failures < failCount ? (failBeforeText ? 0 : 1) : -1;
+
+          for (let i = 0; i < words.length; i++) {
+            if (signal?.aborted) return;
+            if (i === failAt) {
+              failures += 1;
+              throw new ProviderError(failWith!, `Mock ${failWith} failure`);
+            }
+            await wait(chunkDelayMs, signal);
+            if (signal?.aborted) return;
+            yield { text: words[i] };
+          }
+
+          if (mode.tools.includes('googleSearch')) {
+            yield { text: '', sources: [{ uri: 'https://example.com/mock', title: 'Mock source' }] };
+          }
+          // Like the real backends, only a completed turn joins the history
+          turns += 1;
+        },
+      };
+    },
+  };
+};
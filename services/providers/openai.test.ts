@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatMode, Message } from '../../types';
+import { getMode } from '../modeRegistry';
+import { createOpenAIProvider } from './openai';
+import { ProviderError } from './errors';
+
+const message: Message = { id: '1', role: 'user', text: '风扇很吵' };
+
+// An SSE response that sends the given events and then stays open, like a
+// server still generating; records whether the client cancelled it
+const serveEvents = (events: unknown[], { end = false } = {}) => {
+  const state = { cancelled: false };
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      if (end) {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      }
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status: 200 })));
+  return state;
+};
+
+const session = () => createOpenAIProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3', apiKey: '' })
+  .createSession({ mode: getMode(ChatMode.FAST), systemInstruction: '', history: [] });
+
+const delta = (content: string) => ({ choices: [{ delta: { content } }] });
+
+const drainError = async (stream: AsyncGenerator<unknown>) => {
+  try {
+    for await (const _ of stream);
+  } catch (error) {
+    return error;
+  }
+};
+
+describe('OpenAI-compatible streaming', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('streams text, reasoning and usage until [DONE]', async () => {
+    const state = serveEvents([
+      { choices: [{ delta: { reasoning_content: '想一想' } }] },
+      delta('清理'),
+      delta('风扇'),
+      { choices: [], usage: { prompt_tokens: 12, completion_tokens: 30, completion_tokens_details: { reasoning_tokens: 10 } } },
+    ], { end: true });
+
+    const chunks = [];
+    for await (const chunk of session().sendMessageStream(message)) chunks.push(chunk);
+
+    expect(chunks).toEqual([
+      { text: '', thought: '想一想' },
+      { text: '清理' },
+      { text: '风扇' },
+      { text: '', usage: { promptTokens: 12, outputTokens: 20, thinkingTokens: 10 } },
+    ]);
+    expect(state.cancelled).toBe(false);
+  });
+
+  it('cancels the response when the content filter stops the answer', async () => {
+    const state = serveEvents([delta('部分'), { choices: [{ delta: {}, finish_reason: 'content_filter' }] }]);
+
+    expect(await drainError(session().sendMessageStream(message))).toMatchObject({ kind: 'safety' });
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('cancels the response when the server reports an error event', async () => {
+    const state = serveEvents([{ error: { message: 'model crashed' } }]);
+
+    const error = await drainError(session().sendMessageStream(message));
+    expect(error).toBeInstanceOf(ProviderError);
+    expect((error as ProviderError).message).toBe('model crashed');
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('cancels the response when the consumer stops reading', async () => {
+    const state = serveEvents([delta('第一段'), delta('第二段')]);
+
+    for await (const chunk of session().sendMessageStream(message)) {
+      expect(chunk.text).toBe('第一段');
+      break;
+    }
+    expect(state.cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+import { Message } from "../../types";
+import { composePromptText } from "../diagnostics";
+import { attachmentDataUrl } from "../attachments";
+import { ChatSession, LLMProvider, OpenAIProviderConfig, SessionOptions, StreamChunk } from "./types";
+import { ProviderError, kindFromStatus, normalizeError } from "./errors";
+
+type OpenAIContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: OpenAIContent;
+}
+
+// Text files are inlined as fenced blocks; images use the vision content format
+const toOpenAIMessage = (msg: Message): OpenAIMessage => {
+  if (msg.role === 'model') return { role: 'assistant', content: msg.text };
+
+  const textFiles = (msg.attachments || []).filter(a => a.kind === 'text');
+  const images = (msg.attachments || []).filter(a => a.kind === 'image');
+  const text = [
+    composePromptText(msg),
+    ...textFiles.map(a => `[附件: ${a.name}]\n\`\`\`\n${a.data}\n\`\`\``),
+  ].join('\n\n');
+
+  if (images.length === 0) return { role: 'user', content: text };
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text },
+      ...images.map(a => ({ type: 'image_url' as const, image_url: { url: attachmentDataUrl(a) } })),
+    ],
+  };
+};
+
+const endpoint = (config: OpenAIProviderConfig, path: string) =>
+  `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+
+const headers = (config: OpenAIProviderConfig): HeadersInit => ({
+  'Content-Type': 'application/json',
+  ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+});
+
+const errorFromResponse = async (response: Response): Promise<ProviderError> => {
+  let detail = response.statusText;
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || body?.error || detail;
+  } catch {
+    // Non-JSON error body
+  }
+  return new ProviderError(kindFromStatus(response.status), `HTTP ${response.status}: ${detail}`, response.status);
+};
+
+// The parts of a chat.completion.chunk event this client reads
+interface OpenAIStreamEvent {
+  choices?: {
+    delta?: { content?: string | null; reasoning_content?: string | null; reasoning?: string | null };
+    finish_reason?: string | null;
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number };
+  };
+  error?: { message?: string } | string;
+}
+
+/**
+ * Yields the JSON payload of each server-sent event until [DONE]. If the
+ * consumer stops early or throws, the response is cancelled so it doesn't
+ * keep downloading in the background.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<OpenAIStreamEvent, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          finished = true;
+          return;
+        }
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Skip keep-alive or partial garbage lines
+        }
+      }
+    }
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+class OpenAISession implements ChatSession {
+  constructor(
+    private config: OpenAIProviderConfig,
+    private options: SessionOptions,
+    private messages: OpenAIMessage[]
+  ) {}
+
+  async *sendMessageStream(message: Message, signal?: AbortSignal): AsyncGenerator<StreamChunk, void, unknown> {
+    const userMessage = toOpenAIMessage(message);
+    const { mode } = this.options;
+    let answer = '';
+
+    try {
+      const response = await fetch(endpoint(this.config, '/chat/completions'), {
+        method: 'POST',
+        headers: headers(this.config),
+        signal,
+        body: JSON.stringify({
+          model: this.config.model,
+          stream: true,
+          messages: [...this.messages, userMessage],
+          // Servers that support it send token counts in a final, choice-less event
+          stream_options: { include_usage: true },
+          ...(mode.temperature !== undefined ? { temperature: mode.temperature } : {}),
+          ...(mode.maxOutputTokens !== undefined ? { max_tokens: mode.maxOutputTokens } : {}),
+        }),
+      });
+      if (!response.ok || !response.body) throw await errorFromResponse(response);
+
+      for await (const event of readEvents(response.body)) {
+        if (event?.error) {
+          const detail = typeof event.error === 'string' ? event.error : event.error.message;
+          throw new ProviderError('unknown', detail || 'Stream error');
+        }
+        const choice = event?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new ProviderError('safety', 'Response blocked by content filter');
+        }
+        // llama.cpp and DeepSeek-style servers use reasoning_content, Ollama uses reasoning
+        const thought = choice?.delta?.reasoning_content || choice?.delta?.reasoning;
+        if (thought) yield { text: '', thought };
+        const text = choice?.delta?.content;
+        if (text) {
+          answer += text;
+          yield { text };
+        }
+        if (event?.usage) {
+          const reasoning = event.usage.completion_tokens_details?.reasoning_tokens || 0;
+          yield {
+            text: '',
+            usage: {
+              promptTokens: event.usage.prompt_tokens || 0,
+              // Reasoning tokens are counted inside completion_tokens here
+              outputTokens: Math.max((event.usage.completion_tokens || 0) - reasoning, 0),
+              thinkingTokens: reasoning,
+            },
+          };
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw normalizeError(error);
+    }
+
+    this.messages.push(userMessage, { role: 'assistant', content: answer });
+  }
+}
+
+export const createOpenAIProvider = (config: OpenAIProviderConfig): LLMProvider => ({
+  id: 'openai',
+  createSession(options: SessionOptions): ChatSession {
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: options.systemInstruction },
+      ...options.history.map(toOpenAIMessage),
+    ];
+    return new OpenAISession(config, options, messages);
+  },
+});
+
+/** Lists the server's models; used by the settings screen to check the connection. */
+export const testOpenAIConnection = async (config: OpenAIProviderConfig): Promise<{ ok: true; models: string[] } | { ok: false; error: ProviderError }> => {
+  try {
+    const response = await fetch(endpoint(config, '/models'), { headers: headers(config) });
+    if (!response.ok) return { ok: false, error: await errorFromResponse(response) };
+    const body = await response.json();
+    return { ok: true, models: (body?.data || []).map((m: any) => m.id).filter(Boolean) };
+  } catch (error) {
+    return { ok: false, error: normalizeError(error) };
+  }
+};
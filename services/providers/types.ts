@@ -0,0 +1,40 @@
+import { Message, ModeDefinition, SearchSource, TokenUsage } from "../../types";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface StreamChunk {
+  text: string;
+  thought?: string; // Reasoning summary text, kept apart from the answer
+  sources?: SearchSource[];
+  usage?: TokenUsage; // Running totals for the turn; the last one reported is final
+}
+
+export interface SessionOptions {
+  mode: ModeDefinition;
+  systemInstruction: string;
+  history: Message[];
+}
+
+export interface ChatSession {
+  /**
+   * Streams the answer to a user message. Implementations record the turn in
+   * their own history once the stream completes, and throw ProviderError on failure.
+   */
+  sendMessageStream(message: Message, signal?: AbortSignal): AsyncGenerator<StreamChunk, void, unknown>;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  createSession(options: SessionOptions): ChatSession;
+}
+
+export interface OpenAIProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface ProviderConfig {
+  id: ProviderId;
+  openai: OpenAIProviderConfig;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMode, Conversation, Message } from '../types';
+import { SearchDocument, buildSearchIndex, documentsFromConversation, tokenize } from './search';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+const doc = (messageId: string, text: string, extra: Partial<SearchDocument> = {}): SearchDocument => ({
+  conversationId: 'c1', conversationTitle: '排查', messageId, role: 'user', mode: ChatMode.FAST, timestamp: NOW, text, ...extra,
+});
+
+const ids = (results: { doc: SearchDocument }[]) => results.map(r => r.doc.messageId);
+
+describe('tokenize', () => {
+  it('indexes CJK runs as characters and bigrams and other text as words', () => {
+    expect(tokenize('清理C盘 Get-Process')).toEqual(['清', '清理', '理', 'c', '盘', 'get', 'process']);
+  });
+});
+
+describe('buildSearchIndex', () => {
+  const index = buildSearchIndex([
+    doc('1', '显卡驱动更新后游戏闪退'),
+    doc('2', '驱动程序安装失败，显示错误 43'),
+    doc('3', '用 Get-Process 查看占用 CPU 的进程'),
+    doc('4', '更新了显卡驱动，重启后正常', { role: 'model', mode: ChatMode.PRO, timestamp: NOW - 10 * DAY }),
+  ]);
+
+  it('matches Chinese words by their bigrams, ranking closer matches first', () => {
+    expect(ids(index.search('显卡驱动'))).toEqual(['1', '4']);
+    expect(ids(index.search('驱动'))).toEqual(expect.arrayContaining(['1', '2', '4']));
+    expect(index.search('蓝屏')).toEqual([]);
+  });
+
+  it('expands only the last word as a prefix while it is being typed', () => {
+    expect(ids(index.search('get-proc'))).toEqual(['3']);
+    expect(ids(index.search('proc get'))).toEqual([]);
+    expect(ids(index.search('p'))).toEqual([]); // One letter is too short to expand
+  });
+
+  it('drops documents that miss most of a multi-term query', () => {
+    // 显卡驱动闪退 -> 显卡 卡驱 驱动 动闪 闪退: message 1 has all five, 4 has three (the
+    // 60% cut-off), 2 only 驱动
+    expect(ids(index.search('显卡驱动闪退'))).toEqual(['1', '4']);
+    // Seven bigrams: message 1 has six, message 4 only four
+    expect(ids(index.search('显卡驱动更新闪退'))).toEqual(['1']);
+  });
+
+  it('filters by role, mode and date', () => {
+    const all = { role: 'all', mode: 'all', since: null } as const;
+    expect(ids(index.search('显卡驱动', { ...all, role: 'model' }))).toEqual(['4']);
+    expect(ids(index.search('显卡驱动', { ...all, mode: ChatMode.FAST }))).toEqual(['1']);
+    expect(ids(index.search('显卡驱动', { ...all, since: NOW - DAY }))).toEqual(['1']);
+  });
+
+  it('marks the matched text in snippets', () => {
+    const [result] = index.search('进程');
+    expect(result.snippet.filter(p => p.match).map(p => p.text)).toEqual(['进程']);
+  });
+});
+
+describe('documentsFromConversation', () => {
+  const conversation = (messages: Message[]): Conversation => ({
+    id: 'c1', title: '排查', createdAt: NOW, updatedAt: NOW, mode: ChatMode.SEARCH, messages,
+  });
+
+  it('files each turn under the mode its reply was generated in', () => {
+    const docs = documentsFromConversation(conversation([
+      { id: '1', role: 'user', text: '开机慢' },
+      { id: '2', role: 'model', text: '检查启动项', usage: { mode: ChatMode.FAST, model: 'm', totalMs: 1 } },
+      { id: '3', role: 'user', text: '又蓝屏了' },
+      { id: '4', role: 'model', text: '分析转储', route: { mode: ChatMode.THINKING, reason: '', source: 'rules' } },
+      { id: '5', role: 'user', text: '最新驱动？' },
+    ]));
+    expect(docs.map(d => [d.messageId, d.mode])).toEqual([
+      ['1', ChatMode.FAST], ['2', ChatMode.FAST],
+      ['3', ChatMode.THINKING], ['4', ChatMode.THINKING],
+      ['5', ChatMode.SEARCH], // Not answered yet: the conversation's current mode
+    ]);
+  });
+
+  it('skips messages without searchable text', () => {
+    const docs = documentsFromConversation(conversation([{ id: '1', role: 'user', text: '  ' }, { id: '2', role: 'model', text: '好' }]));
+    expect(docs.map(d => d.messageId)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,253 @@
+import { Conversation, Message, ModeId } from "../types";
+
+// In-memory inverted index over chat history. Chinese has no spaces, so CJK
+// runs are indexed as single characters plus overlapping bigrams; Latin text,
+// numbers and command names are indexed as whole words.
+
+export type SearchRole = 'all' | 'user' | 'model';
+
+export interface SearchFilters {
+  role: SearchRole;
+  mode: ModeId | 'all';
+  since: number | null; // Earliest message timestamp, null for any time
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = { role: 'all', mode: 'all', since: null };
+
+export const SEARCH_DATE_RANGES: { id: string; label: string; ms: number | null }[] = [
+  { id: 'any', label: '全部时间', ms: null },
+  { id: 'day', label: '24 小时', ms: 24 * 60 * 60 * 1000 },
+  { id: 'week', label: '7 天', ms: 7 * 24 * 60 * 60 * 1000 },
+  { id: 'month', label: '30 天', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+export interface SearchDocument {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: 'user' | 'model';
+  mode: ModeId;
+  timestamp: number;
+  text: string; // Markdown-stripped text; snippets index into this
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchIndex {
+  size: number;
+  search: (query: string, filters?: SearchFilters, limit?: number) => SearchResult[];
+}
+
+// --- Tokenization ---
+
+// Han (incl. extension A and compatibility), kana and hangul
+const CJK_CHARS = String.raw`\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\u3040-\u30ff\uac00-\ud7af`;
+const CJK = new RegExp(`[${CJK_CHARS}]`, 'u');
+const WORD_CHAR = new RegExp(String.raw`(?![${CJK_CHARS}])[\p{L}\p{N}_]`, 'u');
+// CJK runs, or runs of any other letters and digits ("C盘" is two runs)
+const TOKEN_RUNS = new RegExp(String.raw`[${CJK_CHARS}]+|(?:(?![${CJK_CHARS}])[\p{L}\p{N}_])+`, 'gu');
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+/** Index terms for a piece of text: words, plus CJK unigrams and bigrams. */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const run of normalize(text).match(TOKEN_RUNS) || []) {
+    if (!CJK.test(run[0])) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    for (let i = 0; i < chars.length; i++) {
+      tokens.push(chars[i]);
+      if (i + 1 < chars.length) tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+};
+
+// A query only needs the most specific terms: bigrams cover multi-character CJK runs
+const queryTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  for (const run of normalize(query).match(TOKEN_RUNS) || []) {
+    const chars = Array.from(run);
+    if (!CJK.test(run[0]) || chars.length === 1) {
+      terms.push(run);
+      continue;
+    }
+    for (let i = 0; i + 1 < chars.length; i++) terms.push(chars[i] + chars[i + 1]);
+  }
+  return Array.from(new Set(terms));
+};
+
+// --- Documents ---
+
+/** Flattens markdown into searchable prose: code stays, formatting marks go. */
+export const toSearchText = (markdown: string): string =>
+  markdown
+    .replace(/^\s*(```|~~~).*$/gm, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`|]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// The mode a reply was generated in; conversation.mode is only the latest one
+const replyMode = (message: Message): ModeId | undefined => message.usage?.mode ?? message.route?.mode;
+
+export const documentsFromConversation = (conversation: Conversation): SearchDocument[] => {
+  // A question takes the mode of the reply that answered it, so walk backwards
+  const modes: ModeId[] = [];
+  let next: ModeId = conversation.mode;
+  for (let i = conversation.messages.length - 1; i >= 0; i--) {
+    const message = conversation.messages[i];
+    if (message.role === 'model') next = replyMode(message) ?? conversation.mode;
+    modes[i] = next;
+  }
+
+  return conversation.messages
+    .map((m, i) => ({
+      conversationId: conversation.id,
+      conversationTitle: conversation.title,
+      messageId: m.id,
+      role: m.role,
+      mode: modes[i],
+      timestamp: Number(m.id) || conversation.updatedAt,
+      text: toSearchText(m.text),
+    }))
+    .filter(doc => doc.text);
+};
+
+// --- Snippets ---
+
+const SNIPPET_RADIUS = 48;
+
+/**
+ * Splits text into matched and unmatched parts for the given query terms.
+ * Matching is done on the normalized text, which keeps the original length
+ * for everything except rare compatibility characters.
+ */
+export const highlightMatches = (text: string, query: string): SnippetPart[] => {
+  const needles = queryTerms(query);
+  const haystack = normalize(text);
+  if (needles.length === 0 || haystack.length !== text.length) return [{ text, match: false }];
+
+  const ranges: [number, number][] = [];
+  for (const needle of needles) {
+    // Words match from their start ("proc" in "process", not "c" in "childitem")
+    const wordStart = !CJK.test(needle[0]);
+    let from = haystack.indexOf(needle);
+    while (from >= 0) {
+      if (!wordStart || from === 0 || !WORD_CHAR.test(haystack[from - 1])) ranges.push([from, from + needle.length]);
+      from = haystack.indexOf(needle, from + needle.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: SnippetPart[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), match: false });
+    parts.push({ text: text.slice(from, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), match: false });
+  return parts;
+};
+
+/** A window of text around the first match, with matches marked. */
+export const buildSnippet = (text: string, query: string): SnippetPart[] => {
+  const haystack = normalize(text);
+  const first = queryTerms(query)
+    .map(needle => haystack.indexOf(needle))
+    .filter(i => i >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const window = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  return highlightMatches(window, query);
+};
+
+// --- Index ---
+
+// Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Multi-term queries may miss a few terms (typos, a different word order) but not most
+const MIN_COVERAGE = 0.6;
+
+export const buildSearchIndex = (docs: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>(); // term -> doc -> term frequency
+  const lengths: number[] = [];
+
+  docs.forEach((doc, i) => {
+    const tokens = tokenize(doc.text);
+    lengths.push(tokens.length);
+    for (const token of tokens) {
+      let posting = postings.get(token);
+      if (!posting) postings.set(token, posting = new Map());
+      posting.set(i, (posting.get(i) || 0) + 1);
+    }
+  });
+  const avgLength = lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1);
+
+  // The last word of the query may still be being typed
+  const expand = (term: string, isLast: boolean): string[] => {
+    if (!isLast || CJK.test(term[0]) || term.length < 2) return postings.has(term) ? [term] : [];
+    return Array.from(postings.keys()).filter(key => key.startsWith(term));
+  };
+
+  const search = (query: string, filters: SearchFilters = DEFAULT_SEARCH_FILTERS, limit = 50): SearchResult[] => {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    const scores = new Map<number, { score: number; matched: number }>();
+    terms.forEach((term, t) => {
+      const seen = new Set<number>();
+      for (const key of expand(term, t === terms.length - 1)) {
+        const posting = postings.get(key)!;
+        const idf = Math.log(1 + (docs.length - posting.size + 0.5) / (posting.size + 0.5));
+        posting.forEach((tf, i) => {
+          const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * lengths[i] / avgLength));
+          const entry = scores.get(i) || { score: 0, matched: 0 };
+          entry.score += idf * norm;
+          if (!seen.has(i)) {
+            entry.matched++;
+            seen.add(i);
+          }
+          scores.set(i, entry);
+        });
+      }
+    });
+
+    const results: SearchResult[] = [];
+    scores.forEach(({ score, matched }, i) => {
+      const doc = docs[i];
+      const coverage = matched / terms.length;
+      if (coverage < MIN_COVERAGE) return;
+      if (filters.role !== 'all' && doc.role !== filters.role) return;
+      if (filters.mode !== 'all' && doc.mode !== filters.mode) return;
+      if (filters.since !== null && doc.timestamp < filters.since) return;
+      results.push({ doc, score: score * coverage * coverage, snippet: [] });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.doc.timestamp - a.doc.timestamp)
+      .slice(0, limit)
+      .map(result => ({ ...result, snippet: buildSnippet(result.doc.text, query) }));
+  };
+
+  return { size: docs.length, search };
+};
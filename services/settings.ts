@@ -0,0 +1,80 @@
+import { AnswerLanguage, AppSettings, ChatMode, TtsVoice, TypingSpeed } from "../types";
+import { CONTEXT_BUDGETS, DEFAULT_CONTEXT_BUDGET } from "./contextWindow";
+
+const SETTINGS_KEY = 'vd.settings';
+
+export const TTS_VOICES: { id: TtsVoice; label: string }[] = [
+  { id: 'Kore', label: 'Kore (firm)' },
+  { id: 'Puck', label: 'Puck (upbeat)' },
+  { id: 'Charon', label: 'Charon (informative)' },
+  { id: 'Fenrir', label: 'Fenrir (excitable)' },
+  { id: 'Zephyr', label: 'Zephyr (bright)' },
+];
+
+export const PLAYBACK_RATE_RANGE = { min: 0.5, max: 2, step: 0.1 };
+
+// Instructions are written in the target language so the model follows them reliably
+export const ANSWER_LANGUAGES: { id: AnswerLanguage; label: string; instruction: string }[] = [
+  { id: 'zh-CN', label: '简体中文', instruction: '必须始终使用简体中文回答。' },
+  { id: 'zh-TW', label: '繁體中文', instruction: '必須始終使用繁體中文回答。' },
+  { id: 'en', label: 'English', instruction: 'Always answer in English.' },
+  { id: 'ja', label: '日本語', instruction: '常に日本語で回答してください。' },
+  { id: 'auto', label: 'Auto (match user)', instruction: '使用与用户提问相同的语言回答。' },
+];
+
+// rate scales how many characters the typewriter reveals per frame; 0 shows text as it arrives
+export const TYPING_SPEEDS: { id: TypingSpeed; label: string; rate: number }[] = [
+  { id: 'off', label: '关闭（即时显示）', rate: 0 },
+  { id: 'slow', label: '慢', rate: 0.5 },
+  { id: 'normal', label: '标准', rate: 1 },
+  { id: 'fast', label: '快', rate: 2.5 },
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  ttsVoice: 'Kore',
+  playbackRate: 1.6,
+  answerLanguage: 'zh-CN',
+  defaultMode: ChatMode.FAST,
+  typingSpeed: 'normal',
+  contextBudget: DEFAULT_CONTEXT_BUDGET,
+  autoRead: false,
+  voiceAutoSend: false,
+  autoTriage: false,
+};
+
+export const languageInstruction = (language: AnswerLanguage) =>
+  (ANSWER_LANGUAGES.find(l => l.id === language) || ANSWER_LANGUAGES[0]).instruction;
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const merged: AppSettings = { ...DEFAULT_SETTINGS, ...stored };
+    // Drop values a previous version (or a hand edit) left in an unusable state
+    if (typeof merged.apiKey !== 'string') merged.apiKey = DEFAULT_SETTINGS.apiKey;
+    if (!TTS_VOICES.some(v => v.id === merged.ttsVoice)) merged.ttsVoice = DEFAULT_SETTINGS.ttsVoice;
+    if (!ANSWER_LANGUAGES.some(l => l.id === merged.answerLanguage)) merged.answerLanguage = DEFAULT_SETTINGS.answerLanguage;
+    if (typeof merged.playbackRate !== 'number' || merged.playbackRate < PLAYBACK_RATE_RANGE.min || merged.playbackRate > PLAYBACK_RATE_RANGE.max) {
+      merged.playbackRate = DEFAULT_SETTINGS.playbackRate;
+    }
+    if (typeof merged.defaultMode !== 'string' || !merged.defaultMode) merged.defaultMode = DEFAULT_SETTINGS.defaultMode;
+    if (!TYPING_SPEEDS.some(s => s.id === merged.typingSpeed)) merged.typingSpeed = DEFAULT_SETTINGS.typingSpeed;
+    if (!CONTEXT_BUDGETS.some(b => b.value === merged.contextBudget)) merged.contextBudget = DEFAULT_CONTEXT_BUDGET;
+    merged.autoRead = merged.autoRead === true;
+    merged.voiceAutoSend = merged.voiceAutoSend === true;
+    merged.autoTriage = merged.autoTriage === true;
+    return merged;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = loadSettings();
+
+/** Current settings; services read this at call time so changes apply without a reload. */
+export const getSettings = () => settings;
+
+export const saveSettings = (next: AppSettings) => {
+  settings = next;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+};
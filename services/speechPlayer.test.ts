@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpeechPlayer, SpeechStatus } from './speechPlayer';
+
+vi.mock('./geminiService', () => ({
+  synthesizeSpeech: vi.fn(async (text: string) => new Blob([text], { type: 'audio/wav' })),
+}));
+vi.mock('./audioContext', () => ({
+  getAudioContext: () => ({ destination: {}, createMediaElementSource: () => ({ connect: () => {} }) }),
+}));
+
+// Lets pending clip loads and play() calls settle
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('SpeechPlayer', () => {
+  let statuses: SpeechStatus[];
+  let player: SpeechPlayer;
+  let playing: HTMLMediaElement | null;
+
+  beforeEach(() => {
+    statuses = [];
+    player = new SpeechPlayer(status => statuses.push(status));
+    playing = null;
+    URL.createObjectURL = vi.fn(() => `blob:clip-${Math.random()}`);
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+      playing = this;
+      return Promise.resolve();
+    });
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    player.stop();
+    await flush();
+    vi.restoreAllMocks();
+  });
+
+  const last = () => statuses[statuses.length - 1];
+
+  it('is not started while it waits for the first sentence of the answer', async () => {
+    player.start('m1');
+    await flush();
+    expect(last()).toMatchObject({ state: 'loading', messageId: 'm1', started: false });
+  });
+
+  it('is started once the first clip plays and stays started between clips', async () => {
+    player.start('m1');
+    player.enqueue(['第一句。', '第二句。']);
+    await flush();
+    expect(last()).toMatchObject({ state: 'playing', clip: 1, started: true });
+
+    playing!.onended!(new Event('ended'));
+    await flush();
+    expect(statuses.filter(s => s.clip === 2).every(s => s.started)).toBe(true);
+  });
+
+  it('resets when a new answer starts', async () => {
+    player.start('m1');
+    player.enqueue(['第一句。']);
+    await flush();
+    player.start('m2');
+    await flush();
+    expect(last()).toMatchObject({ messageId: 'm2', started: false });
+  });
+
+  it('goes idle after the last clip', async () => {
+    player.start('m1');
+    player.enqueue(['唯一一句。']);
+    player.end();
+    await flush();
+    playing!.onended!(new Event('ended'));
+    await flush();
+    expect(last()).toMatchObject({ state: 'idle', messageId: null, started: false });
+  });
+});
@@ -0,0 +1,210 @@
+import { synthesizeSpeech } from "./geminiService";
+import { getSettings } from "./settings";
+import { getAudioContext } from "./audioContext";
+
+export type SpeechState = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface SpeechStatus {
+  state: SpeechState;
+  messageId: string | null;
+  clip: number; // 1-based index of the clip playing or loading
+  total: number; // Clips known so far; grows while an answer streams
+  started: boolean; // Audio has begun playing; before that the answer may still be generating
+}
+
+export const IDLE_SPEECH: SpeechStatus = { state: 'idle', messageId: null, clip: 0, total: 0, started: false };
+
+// --- Clip Cache ---
+
+const CACHE_LIMIT = 200;
+const PREFETCH_AHEAD = 2;
+
+// Blob URLs keyed by voice + text, in least-recently-used order
+const clipCache = new Map<string, Promise<string | null>>();
+
+const loadClip = (text: string): Promise<string | null> => {
+  const voice = getSettings().ttsVoice;
+  const key = `${voice}\u0000${text}`;
+  const cached = clipCache.get(key);
+  if (cached) {
+    clipCache.delete(key);
+    clipCache.set(key, cached);
+    return cached;
+  }
+
+  const clip = synthesizeSpeech(text, voice).then(blob => {
+    // Let a failed clip be tried again next time
+    if (!blob) clipCache.delete(key);
+    return blob ? URL.createObjectURL(blob) : null;
+  });
+  clipCache.set(key, clip);
+
+  while (clipCache.size > CACHE_LIMIT) {
+    const [oldestKey, oldest] = clipCache.entries().next().value as [string, Promise<string | null>];
+    clipCache.delete(oldestKey);
+    oldest.then(url => url && URL.revokeObjectURL(url));
+  }
+  return clip;
+};
+
+// --- Player ---
+
+/**
+ * Plays an answer clip by clip. Clips can be appended while the answer is still
+ * streaming; the next few are synthesized ahead so playback has no gaps.
+ */
+export class SpeechPlayer {
+  private audio: HTMLAudioElement | null = null;
+  private clips: string[] = [];
+  private index = 0;
+  private complete = false;
+  private paused = false;
+  private loading = false;
+  private started = false;
+  private run = 0;
+  private messageId: string | null = null;
+  private wake: (() => void) | null = null;
+  private finishClip: (() => void) | null = null;
+
+  constructor(private onStatus: (status: SpeechStatus) => void) {}
+
+  get activeMessageId() {
+    return this.messageId;
+  }
+
+  /** Stops whatever is playing and begins a new queue for messageId. */
+  start(messageId: string) {
+    this.stop();
+    this.messageId = messageId;
+    this.clips = [];
+    this.index = 0;
+    this.complete = false;
+    this.paused = false;
+    this.started = false;
+    this.loop(this.run);
+  }
+
+  enqueue(clips: string[]) {
+    if (!this.messageId || clips.length === 0) return;
+    this.clips.push(...clips);
+    this.prefetch();
+    this.wake?.();
+    this.emit();
+  }
+
+  /** No more clips will be added; the player goes idle after the last one. */
+  end() {
+    this.complete = true;
+    this.wake?.();
+  }
+
+  stop() {
+    this.run++;
+    this.audio?.pause();
+    this.finishClip?.();
+    this.wake?.();
+    this.messageId = null;
+    this.clips = [];
+    this.onStatus(IDLE_SPEECH);
+  }
+
+  pause() {
+    if (!this.messageId || this.paused) return;
+    this.paused = true;
+    this.audio?.pause();
+    this.emit();
+  }
+
+  resume() {
+    if (!this.messageId || !this.paused) return;
+    this.paused = false;
+    if (this.audio?.src && !this.audio.ended) {
+      const run = this.run;
+      this.audio.play().then(() => this.markStarted(run), () => this.finishClip?.());
+    }
+    this.emit();
+  }
+
+  skip() {
+    this.finishClip?.();
+  }
+
+  private element(): HTMLAudioElement {
+    // Also resumes the context if the browser suspended it
+    const context = getAudioContext();
+    if (!this.audio) {
+      this.audio = new Audio();
+      // Route playback through the shared context rather than a context per clip
+      context.createMediaElementSource(this.audio).connect(context.destination);
+    }
+    return this.audio;
+  }
+
+  private prefetch() {
+    for (let i = this.index; i < Math.min(this.clips.length, this.index + 1 + PREFETCH_AHEAD); i++) {
+      loadClip(this.clips[i]);
+    }
+  }
+
+  private markStarted(run: number) {
+    if (run !== this.run || this.started) return;
+    this.started = true;
+    this.emit();
+  }
+
+  private emit() {
+    if (!this.messageId) return;
+    const state: SpeechState = this.paused ? 'paused' : this.loading ? 'loading' : 'playing';
+    this.onStatus({
+      state,
+      messageId: this.messageId,
+      clip: Math.min(this.index + 1, Math.max(this.clips.length, 1)),
+      total: this.clips.length,
+      started: this.started,
+    });
+  }
+
+  private async loop(run: number) {
+    const audio = this.element();
+
+    while (run === this.run) {
+      if (this.index >= this.clips.length) {
+        if (this.complete) break;
+        // Waiting for the streaming answer to produce the next sentence
+        this.loading = true;
+        this.emit();
+        await new Promise<void>(resolve => { this.wake = resolve; });
+        this.wake = null;
+        continue;
+      }
+
+      this.prefetch();
+      this.loading = true;
+      this.emit();
+      const url = await loadClip(this.clips[this.index]);
+      if (run !== this.run) return;
+
+      if (url) {
+        audio.src = url;
+        audio.defaultPlaybackRate = audio.playbackRate = getSettings().playbackRate;
+        await new Promise<void>(resolve => {
+          this.finishClip = resolve;
+          audio.onended = () => resolve();
+          audio.onerror = () => resolve();
+          this.loading = false;
+          this.emit();
+          if (!this.paused) audio.play().then(() => this.markStarted(run), () => resolve());
+        });
+        this.finishClip = null;
+        audio.pause();
+      }
+      if (run !== this.run) return;
+      this.index++;
+    }
+
+    if (run === this.run) {
+      this.messageId = null;
+      this.onStatus(IDLE_SPEECH);
+    }
+  }
+}
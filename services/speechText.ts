@@ -0,0 +1,122 @@
+// Turns model markdown into short, speakable sentences for TTS.
+
+const MIN_CLIP_CHARS = 40;
+const MAX_CLIP_CHARS = 220;
+
+const FENCE = /^\s*(```|~~~)/;
+
+const describeCode = (lang: string, lines: number) =>
+  `（此处有一段${lang ? ` ${lang} ` : ''}代码，共 ${lines} 行，请查看屏幕）。`;
+
+/** Strips markdown syntax; fenced code blocks are replaced by a one-line summary. */
+export const toSpeechText = (markdown: string): string => {
+  const out: string[] = [];
+  let code: { lang: string; lines: number } | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(FENCE);
+    if (fence) {
+      if (code) {
+        out.push(describeCode(code.lang, code.lines));
+        code = null;
+      } else {
+        code = { lang: line.trim().slice(3).trim().split(/\s/)[0], lines: 0 };
+      }
+      continue;
+    }
+    if (code) {
+      code.lines++;
+      continue;
+    }
+    // Table separator rows carry no words
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) continue;
+
+    const text = line
+      .replace(/^\s*#{1,6}\s+/, '')            // headings
+      .replace(/^\s*>\s?/, '')                 // blockquotes
+      .replace(/^\s*([-*+]|\d+[.)])\s+/, '')   // list markers
+      .replace(/^\s*(-{3,}|\*{3,}|_{3,})\s*$/, '') // rules
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links
+      .replace(/`([^`]+)`/g, '$1')             // inline code
+      .replace(/(\*\*|__|\*|~~)(?=\S)(.+?)(?<=\S)\1/g, '$2') // emphasis
+      .replace(/<[^>]+>/g, '')                 // inline html
+      .replace(/^\s*\||\|\s*$/g, '')           // table edges
+      .replace(/\s*\|\s*/g, '，')              // table cells
+      .trim();
+    if (text) out.push(text);
+  }
+  // An unterminated fence (e.g. a stopped answer) still gets a summary
+  if (code) out.push(describeCode(code.lang, code.lines));
+
+  return out.join('\n');
+};
+
+/** Splits speech text into clips of roughly sentence length, merging very short ones. */
+export const splitSentences = (text: string): string[] => {
+  const pieces = text
+    .split(/(?<=[。！？!?；;…])|(?<=\.)\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => /[\p{L}\p{N}]/u.test(s));
+
+  const clips: string[] = [];
+  for (const piece of pieces) {
+    // Break overlong sentences at commas so the first clip comes back quickly
+    const parts = piece.length > MAX_CLIP_CHARS
+      ? piece.split(/(?<=[，,、])/).reduce<string[]>((acc, part) => {
+          const last = acc[acc.length - 1];
+          if (last !== undefined && last.length + part.length <= MAX_CLIP_CHARS) acc[acc.length - 1] = last + part;
+          else acc.push(part);
+          return acc;
+        }, [])
+      : [piece];
+
+    for (const part of parts) {
+      const last = clips[clips.length - 1];
+      if (last !== undefined && last.length < MIN_CLIP_CHARS && last.length + part.length <= MAX_CLIP_CHARS) {
+        clips[clips.length - 1] = `${last} ${part}`;
+      } else {
+        clips.push(part);
+      }
+    }
+  }
+  return clips;
+};
+
+export const toSpeechClips = (markdown: string) => splitSentences(toSpeechText(markdown));
+
+/**
+ * Feeds a growing answer and hands back clips as soon as their lines are complete.
+ * Text inside an open code fence is held until the fence closes.
+ */
+export const createSpeechChunker = () => {
+  let consumed = 0;
+
+  return {
+    push(fullText: string): string[] {
+      const cut = fullText.lastIndexOf('\n');
+      if (cut < consumed) return [];
+
+      let segment = fullText.slice(consumed, cut + 1);
+      const lines = segment.split('\n');
+      let open = -1;
+      let offset = 0;
+      for (const line of lines) {
+        if (FENCE.test(line)) open = open < 0 ? offset : -1;
+        offset += line.length + 1;
+      }
+      if (open >= 0) segment = segment.slice(0, open);
+
+      // Wait for a little more text rather than synthesizing a heading on its own
+      const clips = toSpeechClips(segment);
+      if (clips.join('').length < MIN_CLIP_CHARS) return [];
+      consumed += segment.length;
+      return clips;
+    },
+    flush(fullText: string): string[] {
+      const rest = fullText.slice(consumed);
+      consumed = fullText.length;
+      return toSpeechClips(rest);
+    },
+  };
+};
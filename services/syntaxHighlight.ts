@@ -0,0 +1,109 @@
+import { ShellLanguage, detectShellLanguage } from './commandSafety';
+
+// Small regex tokenizers for the languages V-D answers in; anything else renders plain.
+
+export type HighlightLanguage = Exclude<ShellLanguage, 'unknown'> | 'json';
+
+export type TokenKind =
+  | 'plain' | 'comment' | 'string' | 'keyword' | 'command'
+  | 'variable' | 'parameter' | 'number' | 'operator' | 'key';
+
+export interface HighlightToken {
+  kind: TokenKind;
+  text: string;
+}
+
+type Rule = [TokenKind, RegExp];
+
+// All patterns are sticky so they only match at the scan position
+const GRAMMARS: Record<HighlightLanguage, Rule[]> = {
+  powershell: [
+    ['comment', /<#[\s\S]*?(#>|$)|#[^\n]*/y],
+    ['string', /"(?:`[\s\S]|[^"`])*"?|'(?:''|[^'])*'?/y],
+    ['variable', /\$(?:\{[^}\n]*\}|[\w:?]+)/y],
+    ['operator', /(?<=\s)-(?:eq|ne|gt|ge|lt|le|like|notlike|match|notmatch|contains|notcontains|in|notin|and|or|not|xor|replace|split|join|is|isnot|f)\b/iy],
+    ['parameter', /(?<=\s)-[A-Za-z][\w]*/y],
+    ['keyword', /\b(?:if|else|elseif|foreach|for|while|do|until|switch|function|filter|param|return|try|catch|finally|throw|break|continue|in|begin|process|end)\b|\[[\w.]+(?:\[\])?\]/iy],
+    ['command', /\b[A-Za-z]+-[A-Za-z]+\b/y],
+    ['number', /\b\d+(?:\.\d+)?(?:[kmgtp]b)?\b/iy],
+    ['operator', /[|;=]/y],
+  ],
+  cmd: [
+    ['comment', /(?<=^|[\n&(]\s*)(?:rem\b|::)[^\n]*/imy],
+    ['string', /"[^"\n]*"?/y],
+    ['variable', /%[^%\s]+%|%%?~?[a-z]\b|![\w]+!/iy],
+    ['parameter', /\/[A-Za-z?][\w:-]*/y],
+    ['keyword', /\b(?:if|else|for|in|do|goto|call|set|setlocal|endlocal|echo|exist|not|errorlevel|defined|exit|start|pause|cd|equ|neq|lss|leq|gtr|geq)\b/iy],
+    ['command', /(?<=^|[\n&|(]\s*)[\w.-]+(?:\.exe)?/imy],
+    ['number', /\b\d+\b/y],
+    ['operator', /&&|\|\||[|&<>]/y],
+  ],
+  bash: [
+    ['comment', /(?<=^|\s)#[^\n]*/y],
+    ['string', /"(?:\\[\s\S]|[^"\\])*"?|'[^']*'?/y],
+    ['variable', /\$(?:\{[^}\n]*\}|\w+|[@#?$!*0-9])/y],
+    ['keyword', /\b(?:if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|local|export|sudo)\b/y],
+    ['parameter', /(?<=\s)--?[A-Za-z][\w-]*/y],
+    ['command', /(?<=^|[\n;|&]\s*)[\w.-]+/my],
+    ['number', /\b\d+\b/y],
+    ['operator', /&&|\|\||[|;<>]/y],
+  ],
+  reg: [
+    ['comment', /;[^\n]*/y],
+    ['keyword', /Windows Registry Editor Version [\d.]+|REGEDIT4|\b(?:dword|qword|hex(?:\([0-9a-f]\))?)(?=:)/iy],
+    ['key', /\[-?[^\]\n]*\]?/y],
+    ['string', /"(?:\\.|[^"\\\n])*"?/y],
+    ['operator', /=-?|@/y],
+    ['number', /\b[0-9a-f]+\b/iy],
+  ],
+  json: [
+    ['key', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+    ['string', /"(?:\\.|[^"\\\n])*"?/y],
+    ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y],
+    ['keyword', /\b(?:true|false|null)\b/y],
+  ],
+};
+
+// Unmatched text advances a whole word at a time so rules never fire mid-word
+const PLAIN = /[A-Za-z0-9_]+|\s+|[\s\S]/y;
+
+const JSON_FENCES = new Set(['json', 'jsonc', 'json5']);
+
+/** Which grammar to use for a block, or null to leave it plain. */
+export const highlightLanguageFor = (code: string, fenceLanguage = ''): HighlightLanguage | null => {
+  if (JSON_FENCES.has(fenceLanguage.trim().toLowerCase())) return 'json';
+  const shell = detectShellLanguage(code, fenceLanguage);
+  return shell === 'unknown' ? null : shell;
+};
+
+export const highlightCode = (code: string, language: HighlightLanguage): HighlightToken[] => {
+  const rules = GRAMMARS[language];
+  const tokens: HighlightToken[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let pos = 0;
+  while (pos < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        push(kind, match[0]);
+        pos += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      PLAIN.lastIndex = pos;
+      const text = PLAIN.exec(code)![0];
+      push('plain', text);
+      pos += text.length;
+    }
+  }
+  return tokens;
+};
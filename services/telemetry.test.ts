@@ -0,0 +1,109 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { TelemetrySnapshot, TelemetryStatus } from '../types';
+import { UNKNOWN_DEVICE, createAgentProvider, parseAgentPayload } from './telemetry';
+
+const stats = { cpuLoad: 12, cpuTemp: 48, gpuLoad: 3, gpuTemp: 40, ramUsed: 6.2, ramTotal: 16, diskUsed: 200, diskTotal: 512 };
+
+describe('parseAgentPayload', () => {
+  it('accepts a complete snapshot', () => {
+    const device = { cpuName: 'AMD Ryzen 5 5600', cpuClock: '4.4 GHz', gpuName: 'AMD RX 6600', hostname: 'desk', os: 'Linux 6.8' };
+    expect(parseAgentPayload({ stats, device, timestamp: 5 })).toEqual({ stats, device, timestamp: 5 });
+  });
+
+  it('rejects payloads with missing or non-numeric stats', () => {
+    expect(parseAgentPayload(null)).toBeNull();
+    expect(parseAgentPayload({ device: {} })).toBeNull();
+    expect(parseAgentPayload({ stats: { ...stats, cpuTemp: 'hot' } })).toBeNull();
+    expect(parseAgentPayload({ stats: { ...stats, ramTotal: undefined } })).toBeNull();
+  });
+
+  it.each([null, '', '12', [], [5], true, Infinity])('rejects a stat of %j instead of coercing it', (value) => {
+    expect(parseAgentPayload({ stats: { ...stats, cpuLoad: value } })).toBeNull();
+  });
+
+  it('ignores a timestamp that is not a number', () => {
+    const before = Date.now();
+    expect(parseAgentPayload({ stats, timestamp: '5' })!.timestamp).toBeGreaterThanOrEqual(before);
+  });
+
+  it('keeps only known device fields, as strings', () => {
+    const snapshot = parseAgentPayload({
+      stats,
+      device: { cpuName: {}, gpuName: ['RTX'], cpuClock: 4400, os: '  ', hostname: null, extra: '<b>' },
+    });
+    expect(snapshot?.device).toEqual({ ...UNKNOWN_DEVICE, cpuClock: '4400' });
+  });
+
+  it('falls back to the unknown device when the agent sends none', () => {
+    expect(parseAgentPayload({ stats, device: 'i9' })?.device).toEqual(UNKNOWN_DEVICE);
+  });
+});
+
+// --- Fake agent ---
+
+// Serves whatever the test sets as the next response, like scripts/telemetry-agent.js over HTTP
+const startFakeAgent = async () => {
+  let respond: (res: http.ServerResponse) => void = res => res.end('{}');
+  const server = http.createServer((_req, res) => respond(res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    serveJson: (body: unknown) => { respond = res => res.end(JSON.stringify(body)); },
+    serveRaw: (status: number, body: string) => { respond = res => { res.statusCode = status; res.end(body); }; },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the agent provider');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('createAgentProvider over HTTP', () => {
+  const cleanups: (() => unknown)[] = [];
+  afterEach(async () => {
+    while (cleanups.length) await cleanups.pop()!();
+  });
+
+  const connect = async (setup: (agent: Awaited<ReturnType<typeof startFakeAgent>>) => void) => {
+    const agent = await startFakeAgent();
+    cleanups.push(agent.close);
+    setup(agent);
+    const snapshots: TelemetrySnapshot[] = [];
+    const statuses: TelemetryStatus[] = [];
+    cleanups.push(createAgentProvider(agent.url).start(s => snapshots.push(s), s => statuses.push(s)));
+    return { snapshots, statuses };
+  };
+
+  it('goes online and delivers snapshots from the agent', async () => {
+    const { snapshots, statuses } = await connect(agent => agent.serveJson({ stats, device: { cpuName: 'i5', gpuName: 'UHD' } }));
+    await waitFor(() => snapshots.length > 0);
+    expect(statuses).toEqual(['connecting', 'online']);
+    expect(snapshots[0].stats).toEqual(stats);
+    expect(snapshots[0].device).toEqual({ cpuName: 'i5', gpuName: 'UHD' });
+  });
+
+  it('sanitizes a device that would otherwise break rendering', async () => {
+    const { snapshots } = await connect(agent => agent.serveJson({ stats, device: { cpuName: {}, gpuName: { model: 'x' } } }));
+    await waitFor(() => snapshots.length > 0);
+    expect(snapshots[0].device).toEqual(UNKNOWN_DEVICE);
+  });
+
+  it('ignores incomplete payloads instead of reporting them', async () => {
+    const { snapshots, statuses } = await connect(agent => agent.serveJson({ stats: { cpuLoad: 10 } }));
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(snapshots).toEqual([]);
+    expect(statuses).toEqual(['connecting']);
+  });
+
+  it('reports a disconnect when the agent answers with errors', async () => {
+    const { snapshots, statuses } = await connect(agent => agent.serveRaw(500, 'boom'));
+    await waitFor(() => statuses.includes('disconnected'));
+    expect(snapshots).toEqual([]);
+  });
+});
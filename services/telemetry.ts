@@ -0,0 +1,220 @@
+import { DeviceIdentity, HardwareStats, TelemetryConfig, TelemetrySnapshot, TelemetryStatus } from "../types";
+
+export interface TelemetryProvider {
+  readonly kind: TelemetryConfig['source'];
+  /** Starts streaming snapshots; returns a function that stops the provider. */
+  start(onSnapshot: (snapshot: TelemetrySnapshot) => void, onStatus: (status: TelemetryStatus) => void): () => void;
+}
+
+const CONFIG_KEY = 'vd.telemetry';
+const POLL_INTERVAL = 2000;
+const STALE_AFTER = 6000;
+const RECONNECT_DELAY = 5000;
+
+export const DEFAULT_TELEMETRY_CONFIG: TelemetryConfig = {
+  source: 'simulated',
+  agentUrl: 'ws://localhost:7070',
+};
+
+export const INITIAL_STATS: HardwareStats = {
+  cpuLoad: 45, cpuTemp: 65,
+  gpuLoad: 62, gpuTemp: 83,
+  ramUsed: 8.4, ramTotal: 16,
+  diskUsed: 412, diskTotal: 1024
+};
+
+export const UNKNOWN_DEVICE: DeviceIdentity = {
+  cpuName: 'Unknown CPU',
+  gpuName: 'Unknown GPU',
+};
+
+// --- Config Persistence ---
+
+export const loadTelemetryConfig = (): TelemetryConfig => {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    if (!raw) return DEFAULT_TELEMETRY_CONFIG;
+    const parsed = JSON.parse(raw);
+    return {
+      source: parsed.source === 'agent' ? 'agent' : 'simulated',
+      agentUrl: typeof parsed.agentUrl === 'string' && parsed.agentUrl ? parsed.agentUrl : DEFAULT_TELEMETRY_CONFIG.agentUrl,
+    };
+  } catch {
+    return DEFAULT_TELEMETRY_CONFIG;
+  }
+};
+
+export const saveTelemetryConfig = (config: TelemetryConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// --- Agent Payload Parsing ---
+
+export const STAT_FIELDS: (keyof HardwareStats)[] = [
+  'cpuLoad', 'cpuTemp', 'gpuLoad', 'gpuTemp', 'ramUsed', 'ramTotal', 'diskUsed', 'diskTotal'
+];
+
+const DEVICE_FIELDS: (keyof DeviceIdentity)[] = ['cpuName', 'cpuClock', 'gpuName', 'hostname', 'os'];
+
+// Only known fields, as strings; the names are rendered and sent to the model verbatim
+const parseDevice = (device: unknown): DeviceIdentity => {
+  const parsed: DeviceIdentity = { ...UNKNOWN_DEVICE };
+  if (!device || typeof device !== 'object') return parsed;
+  for (const field of DEVICE_FIELDS) {
+    const value = (device as Record<string, unknown>)[field];
+    const text = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+    if (text) parsed[field] = text;
+  }
+  return parsed;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Validates a JSON payload sent by the local agent.
+ * Returns null for anything that isn't a complete snapshot so a misbehaving
+ * agent can never push NaN/undefined into the monitor.
+ */
+export const parseAgentPayload = (payload: unknown): TelemetrySnapshot | null => {
+  if (!payload || typeof payload !== 'object') return null;
+  const { stats, device, timestamp } = payload as Record<string, unknown>;
+  if (!stats || typeof stats !== 'object') return null;
+
+  const parsedStats = {} as HardwareStats;
+  for (const field of STAT_FIELDS) {
+    const value = (stats as Record<string, unknown>)[field];
+    if (!isFiniteNumber(value)) return null;
+    parsedStats[field] = value;
+  }
+
+  return {
+    stats: parsedStats,
+    device: parseDevice(device),
+    timestamp: isFiniteNumber(timestamp) ? timestamp : Date.now(),
+  };
+};
+
+// --- Simulated Provider ---
+
+export const createSimulatedProvider = (): TelemetryProvider => ({
+  kind: 'simulated',
+  start(onSnapshot, onStatus) {
+    const device: DeviceIdentity = {
+      cpuName: 'Intel Core i9-13900K',
+      cpuClock: '5.2 GHz',
+      gpuName: 'NVIDIA RTX 4080',
+      os: 'Simulated',
+    };
+    let stats = INITIAL_STATS;
+
+    onStatus('online');
+    onSnapshot({ stats, device, timestamp: Date.now() });
+
+    const interval = setInterval(() => {
+      stats = {
+        ...stats,
+        cpuLoad: Math.min(100, Math.max(5, stats.cpuLoad + (Math.random() * 10 - 5))),
+        gpuLoad: Math.min(100, Math.max(5, stats.gpuLoad + (Math.random() * 10 - 5))),
+        ramUsed: Math.min(16, Math.max(4, stats.ramUsed + (Math.random() * 0.5 - 0.25))),
+      };
+      onSnapshot({ stats, device, timestamp: Date.now() });
+    }, POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  },
+});
+
+// --- Local Agent Provider ---
+
+/**
+ * Connects to the local telemetry agent (see scripts/telemetry-agent.js).
+ * ws:// URLs receive pushed snapshots; http:// URLs are polled.
+ */
+export const createAgentProvider = (url: string): TelemetryProvider => ({
+  kind: 'agent',
+  start(onSnapshot, onStatus) {
+    let stopped = false;
+    let lastSeen = 0;
+    let status: TelemetryStatus | null = null;
+    let socket: WebSocket | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const setStatus = (next: TelemetryStatus) => {
+      if (stopped || status === next) return;
+      status = next;
+      onStatus(next);
+    };
+
+    const receive = (payload: unknown) => {
+      const snapshot = parseAgentPayload(payload);
+      if (!snapshot || stopped) return;
+      lastSeen = Date.now();
+      setStatus('online');
+      onSnapshot(snapshot);
+    };
+
+    // Flag the data as stale when the agent goes quiet without closing
+    const staleTimer = setInterval(() => {
+      if (status === 'online' && Date.now() - lastSeen > STALE_AFTER) {
+        setStatus('stale');
+      }
+    }, 1000);
+
+    const connectSocket = () => {
+      setStatus('connecting');
+      try {
+        socket = new WebSocket(url);
+      } catch (error) {
+        console.error("Telemetry agent connection error:", error);
+        setStatus('disconnected');
+        return;
+      }
+      socket.onmessage = (event) => {
+        try {
+          receive(JSON.parse(event.data));
+        } catch {
+          // Ignore malformed frames
+        }
+      };
+      socket.onclose = () => {
+        socket = null;
+        setStatus('disconnected');
+        if (!stopped) reconnectTimer = setTimeout(connectSocket, RECONNECT_DELAY);
+      };
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        receive(await response.json());
+      } catch (error) {
+        // Only a failure after data has stopped arriving counts as a disconnect
+        if (Date.now() - lastSeen > STALE_AFTER) setStatus('disconnected');
+      }
+      if (!stopped) pollTimer = setTimeout(poll, POLL_INTERVAL);
+    };
+
+    if (/^wss?:\/\//i.test(url)) {
+      connectSocket();
+    } else {
+      setStatus('connecting');
+      poll();
+    }
+
+    return () => {
+      stopped = true;
+      clearInterval(staleTimer);
+      clearTimeout(pollTimer);
+      clearTimeout(reconnectTimer);
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+    };
+  },
+});
+
+export const createTelemetryProvider = (config: TelemetryConfig): TelemetryProvider =>
+  config.source === 'agent' ? createAgentProvider(config.agentUrl) : createSimulatedProvider();
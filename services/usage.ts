@@ -0,0 +1,168 @@
+import { Conversation, Message, MessageUsage, ModeId, ModelPrice, TokenUsage } from "../types";
+
+// Token and cost accounting over saved conversations. Costs are estimates
+// from a user-editable price table; providers don't report what they bill.
+
+const PRICES_KEY = 'vd.usage.prices';
+
+// List prices in USD per million tokens; thinking tokens are billed as output
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash-lite', input: 0.10, output: 0.40 },
+  { model: 'gemini-2.5-flash', input: 0.30, output: 2.50 },
+  { model: 'gemini-2.5-pro', input: 1.25, output: 10.00 },
+  { model: 'gemini-3-flash-preview', input: 0.50, output: 3.00 },
+  { model: 'gemini-3-pro-preview', input: 2.00, output: 12.00 },
+];
+
+const isValidPrice = (price: any): price is ModelPrice =>
+  price && typeof price.model === 'string' && price.model.trim() !== ''
+  && [price.input, price.output].every(n => Number.isFinite(n) && n >= 0);
+
+export const loadPriceTable = (): ModelPrice[] => {
+  try {
+    const raw = localStorage.getItem(PRICES_KEY);
+    if (!raw) return DEFAULT_PRICES;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidPrice) : DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePriceTable = (prices: ModelPrice[]) => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
+
+/** Estimated USD for one reply, or null when its model has no price. */
+export const estimateCost = (tokens: TokenUsage, model: string, prices: ModelPrice[]): number | null => {
+  const price = prices.find(p => p.model === model);
+  if (!price) return null;
+  return (tokens.promptTokens * price.input + (tokens.outputTokens + tokens.thinkingTokens) * price.output) / 1_000_000;
+};
+
+// --- Aggregation ---
+
+export interface UsageEntry {
+  conversationId: string;
+  conversationTitle: string;
+  timestamp: number;
+  usage: MessageUsage;
+}
+
+export interface UsageTotals {
+  replies: number;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cost: number;
+  unpriced: number; // Replies with token counts but no price for their model
+  untracked: number; // Replies whose provider reported no token counts
+  firstTokenMs: number; // Sum over timedReplies, for averaging
+  totalMs: number;
+  timedReplies: number;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  replies: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0,
+  cost: 0, unpriced: 0, untracked: 0, firstTokenMs: 0, totalMs: 0, timedReplies: 0,
+});
+
+/**
+ * Every reply that carries usage, including ones on branches that are not
+ * currently shown: abandoned answers were still paid for.
+ */
+export const usageEntries = (conversation: Conversation): UsageEntry[] => {
+  const seen = new Set<string>();
+  const entries: UsageEntry[] = [];
+  const visit = (messages: Message[]) => {
+    for (const message of messages) {
+      if (message.usage && !seen.has(message.id)) {
+        seen.add(message.id);
+        entries.push({
+          conversationId: conversation.id,
+          conversationTitle: conversation.title,
+          timestamp: Number(message.id) || conversation.updatedAt,
+          usage: message.usage,
+        });
+      }
+      message.branches?.forEach(visit);
+    }
+  };
+  visit(conversation.messages);
+  return entries;
+};
+
+export const sumUsage = (entries: UsageEntry[], prices: ModelPrice[]): UsageTotals => {
+  const totals = emptyTotals();
+  for (const { usage } of entries) {
+    totals.replies++;
+    if (usage.firstTokenMs !== undefined) {
+      totals.firstTokenMs += usage.firstTokenMs;
+      totals.totalMs += usage.totalMs;
+      totals.timedReplies++;
+    }
+    if (!usage.tokens) {
+      totals.untracked++;
+      continue;
+    }
+    totals.promptTokens += usage.tokens.promptTokens;
+    totals.outputTokens += usage.tokens.outputTokens;
+    totals.thinkingTokens += usage.tokens.thinkingTokens;
+    const cost = estimateCost(usage.tokens, usage.model, prices);
+    if (cost === null) totals.unpriced++;
+    else totals.cost += cost;
+  }
+  return totals;
+};
+
+/** Totals per key, largest cost first. */
+export const groupUsage = (
+  entries: UsageEntry[],
+  keyOf: (entry: UsageEntry) => string,
+  prices: ModelPrice[]
+): { key: string; totals: UsageTotals }[] => {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, totals: sumUsage(group, prices) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.replies - a.totals.replies);
+};
+
+export const usageByMode = (entries: UsageEntry[], prices: ModelPrice[]): { key: ModeId; totals: UsageTotals }[] =>
+  groupUsage(entries, e => e.usage.mode, prices);
+
+const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export interface DailyUsage {
+  day: string; // Local date, YYYY-MM-DD
+  totals: UsageTotals;
+  byMode: { key: ModeId; totals: UsageTotals }[];
+}
+
+/** Totals for each of the last `days` local calendar days, oldest first; quiet days included. */
+export const dailyUsage = (entries: UsageEntry[], days: number, prices: ModelPrice[], now = Date.now()): DailyUsage[] => {
+  const result: DailyUsage[] = [];
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    const day = dayKey(date.getTime());
+    const dayEntries = entries.filter(e => dayKey(e.timestamp) === day);
+    result.push({ day, totals: sumUsage(dayEntries, prices), byMode: usageByMode(dayEntries, prices) });
+    date.setDate(date.getDate() + 1);
+  }
+  return result;
+};
+
+// --- Formatting ---
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { BARGE_IN_VAD_OPTIONS, VadEvent, VadOptions, VadState, createVadState, stepVad } from './vad';
+
+const FRAME_MS = 50;
+
+// Feeds [level, durationMs] segments one frame at a time; returns the
+// speech-start/speech-end events with their times and the final state
+const drive = (segments: [number, number][], options?: VadOptions, initial: VadState = createVadState()) => {
+  let state = initial;
+  let now = 0;
+  const events: string[] = [];
+  for (const [level, duration] of segments) {
+    for (let elapsed = 0; elapsed < duration; elapsed += FRAME_MS) {
+      const result = stepVad(state, level, now, options);
+      state = result.state;
+      if (result.event === 'speech-start' || result.event === 'speech-end') events.push(`${result.event}@${now}`);
+      now += FRAME_MS;
+    }
+  }
+  return { events, state };
+};
+
+describe('stepVad', () => {
+  it('reports silence for quiet input', () => {
+    const result = stepVad(createVadState(), 0.01, 0);
+    expect(result.event).toBe<VadEvent>('silence');
+    expect(result.state.speechStartedAt).toBeNull();
+  });
+
+  it('starts speech once loudness is sustained and ends it after the hangover', () => {
+    const { events, state } = drive([[0.01, 500], [0.4, 1000], [0.01, 1500]]);
+    // Loud from 500ms: speech after 150ms; quiet from 1500ms: done after 1100ms
+    expect(events).toEqual(['speech-start@650', 'speech-end@2600']);
+    expect(state).toMatchObject({ speechStartedAt: null, loudSince: null, quietSince: null });
+  });
+
+  it('dates the start of speech back to when it got loud', () => {
+    const { state } = drive([[0.4, 200]]);
+    expect(state.speechStartedAt).toBe(0);
+  });
+
+  it('ignores bursts shorter than the start time', () => {
+    expect(drive([[0.4, 100], [0.01, 500], [0.4, 100]]).events).toEqual([]);
+  });
+
+  it('keeps one utterance across pauses shorter than the hangover', () => {
+    const { events } = drive([[0.4, 600], [0.01, 800], [0.4, 600], [0.01, 1200]]);
+    expect(events).toEqual(['speech-start@150', 'speech-end@3100']);
+  });
+
+  it('drops utterances shorter than the minimum speech time', () => {
+    const { events, state } = drive([[0.4, 300], [0.01, 1200]]);
+    expect(events).toEqual(['speech-start@150']);
+    expect(state.speechStartedAt).toBeNull();
+  });
+
+  it('raises the threshold with the background noise', () => {
+    const noisy = { ...createVadState(), noiseFloor: 0.06 }; // Threshold 0.15
+    expect(drive([[0.12, 500]], undefined, noisy).events).toEqual([]);
+    expect(drive([[0.2, 500]], undefined, noisy).events).toEqual(['speech-start@150']);
+  });
+
+  it('learns the noise floor only while nobody is talking', () => {
+    const quiet = drive([[0.05, 2000]]).state;
+    expect(quiet.noiseFloor).toBeGreaterThan(0.04);
+
+    const talking = drive([[0.4, 2000]]).state;
+    expect(talking.noiseFloor).toBeCloseTo(createVadState().noiseFloor);
+  });
+
+  it('needs louder, longer speech to barge in', () => {
+    expect(drive([[0.15, 500]]).events).toEqual(['speech-start@150']);
+    expect(drive([[0.15, 500]], BARGE_IN_VAD_OPTIONS).events).toEqual([]);
+    expect(drive([[0.4, 500]], BARGE_IN_VAD_OPTIONS).events).toEqual(['speech-start@250']);
+  });
+});
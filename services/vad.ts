@@ -0,0 +1,81 @@
+// Energy-based voice activity detection over the recorder's 0..1 input level.
+
+export interface VadOptions {
+  minThreshold: number; // Level that always counts as silence
+  noiseFactor: number; // Speech must be this many times louder than the noise floor
+  startMs: number; // Sustained loudness needed to call it speech
+  hangoverMs: number; // Silence needed after speech to call the utterance finished
+  minSpeechMs: number; // Shorter bursts (coughs, clicks) are ignored
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  minThreshold: 0.08,
+  noiseFactor: 2.5,
+  startMs: 150,
+  hangoverMs: 1100,
+  minSpeechMs: 400,
+};
+
+// While the assistant is talking its own voice leaks into the mic, so barging in needs more
+export const BARGE_IN_VAD_OPTIONS: VadOptions = {
+  ...DEFAULT_VAD_OPTIONS,
+  minThreshold: 0.2,
+  noiseFactor: 3.5,
+  startMs: 250,
+};
+
+export type VadEvent = 'silence' | 'speech-start' | 'speaking' | 'speech-end';
+
+export interface VadState {
+  noiseFloor: number;
+  loudSince: number | null;
+  speechStartedAt: number | null;
+  quietSince: number | null;
+}
+
+export const createVadState = (): VadState => ({
+  noiseFloor: 0.02,
+  loudSince: null,
+  speechStartedAt: null,
+  quietSince: null,
+});
+
+/**
+ * Advances the detector by one level sample. Pure: returns the event and the
+ * next state so it can be driven from an animation frame loop or a test.
+ */
+export const stepVad = (
+  state: VadState,
+  level: number,
+  now: number,
+  options: VadOptions = DEFAULT_VAD_OPTIONS
+): { event: VadEvent; state: VadState } => {
+  const threshold = Math.max(options.minThreshold, state.noiseFloor * options.noiseFactor);
+  const loud = level >= threshold;
+  const next = { ...state };
+
+  if (next.speechStartedAt === null) {
+    // Track background noise only while nobody is talking
+    if (!loud) next.noiseFloor = next.noiseFloor * 0.95 + level * 0.05;
+    if (!loud) {
+      next.loudSince = null;
+      return { event: 'silence', state: next };
+    }
+    next.loudSince = next.loudSince ?? now;
+    if (now - next.loudSince < options.startMs) return { event: 'silence', state: next };
+    next.speechStartedAt = next.loudSince;
+    next.quietSince = null;
+    return { event: 'speech-start', state: next };
+  }
+
+  if (loud) {
+    next.quietSince = null;
+    return { event: 'speaking', state: next };
+  }
+  next.quietSince = next.quietSince ?? now;
+  if (now - next.quietSince < options.hangoverMs) return { event: 'speaking', state: next };
+
+  const spokeFor = next.quietSince - next.speechStartedAt;
+  const reset = { ...createVadState(), noiseFloor: next.noiseFloor };
+  return { event: spokeFor >= options.minSpeechMs ? 'speech-end' : 'silence', state: reset };
+};
@@ -0,0 +1,108 @@
+import { getAudioContext } from "./audioContext";
+
+export const MAX_RECORDING_MS = 60_000;
+
+// Browsers differ in which containers MediaRecorder can produce
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const isVoiceInputSupported = () =>
+  typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+/** Explains a getUserMedia/MediaRecorder failure in words the user can act on. */
+export const describeMicError = (error: unknown): string => {
+  const name = (error as any)?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return '麦克风权限被拒绝，请在浏览器中允许访问';
+  if (name === 'NotFoundError') return '未检测到麦克风';
+  if (name === 'NotReadableError') return '麦克风被其他程序占用';
+  return '无法启动录音';
+};
+
+export interface Recording {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+/**
+ * One microphone capture: MediaRecorder for the audio itself, plus an analyser
+ * on the shared AudioContext for the level meter.
+ */
+export class VoiceRecorder {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+
+  async start(): Promise<void> {
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+    });
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.recorder.ondataavailable = (e) => { if (e.data.size > 0) this.chunks.push(e.data); };
+    this.recorder.start();
+    this.startedAt = Date.now();
+
+    const context = getAudioContext();
+    this.source = context.createMediaStreamSource(this.stream);
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.source.connect(this.analyser);
+  }
+
+  get elapsedMs() {
+    return this.startedAt ? Date.now() - this.startedAt : 0;
+  }
+
+  /** Current input level, 0..1 (RMS, scaled so normal speech reaches ~0.5-0.8). */
+  level(): number {
+    if (!this.analyser || !this.samples) return 0;
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) sum += this.samples[i] * this.samples[i];
+    return Math.min(1, Math.sqrt(sum / this.samples.length) * 4);
+  }
+
+  /** Finishes the capture and returns the audio. */
+  stop(): Promise<Recording> {
+    const recorder = this.recorder;
+    const durationMs = this.elapsedMs;
+    if (!recorder || recorder.state === 'inactive') {
+      this.release();
+      return Promise.reject(new Error('Not recording'));
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || this.chunks[0]?.type || 'audio/webm';
+        resolve({ blob: new Blob(this.chunks, { type: mimeType }), mimeType, durationMs });
+        this.release();
+      };
+      recorder.stop();
+    });
+  }
+
+  /** Discards the capture. */
+  cancel() {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.release();
+  }
+
+  private release() {
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.recorder = null;
+    this.stream = null;
+    this.source = null;
+    this.analyser = null;
+    this.startedAt = 0;
+  }
+}
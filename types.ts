@@ -3,15 +3,110 @@ export interface SearchSource {
   title: string;
 }
 
+export type StreamErrorKind = 'network' | 'auth' | 'quota' | 'safety' | 'model' | 'unavailable' | 'unknown';
+
+export interface StreamError {
+  kind: StreamErrorKind;
+  message: string;
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
   text: string;
   isDiagnostic?: boolean;
+  telemetry?: TelemetryAttachment; // Set together with isDiagnostic
+  attachments?: Attachment[];
   sources?: SearchSource[];
+  stopped?: boolean; // Generation was cancelled by the user; text is partial
+  // Set on the user message where the conversation forks: every sibling tail
+  // (this message and everything after it), and which one is shown
+  branches?: Message[][];
+  branchIndex?: number;
   audioUrl?: string; // Blob URL for TTS
+  error?: StreamError; // Generation failed; text holds only what the model produced
+  pinned?: boolean; // Always sent verbatim, never folded into the context summary
+  usage?: MessageUsage; // Set on model messages once the reply settles
+  thoughts?: string; // Reasoning summary streamed before the answer; never replayed to the model
+  thinkingMs?: number; // From the request until the answer's first text
+  route?: RouteDecision; // Set on replies when Auto picked (or the user overrode) the mode
+}
+
+export interface RouteDecision {
+  mode: ModeId;
+  reason: string;
+  source: 'rules' | 'triage' | 'manual';
+}
+
+export interface TokenUsage {
+  promptTokens: number; // Includes the replayed history
+  outputTokens: number;
+  thinkingTokens: number; // Billed as output
+}
+
+export interface MessageUsage {
+  mode: ModeId;
+  model: string;
+  tokens?: TokenUsage; // Absent when the provider doesn't report usage
+  firstTokenMs?: number; // Absent when no text arrived
+  totalMs: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+}
+
+// Older turns condensed to save context; everything up to throughId except pinned messages
+export interface ContextSummary {
+  text: string;
+  throughId: string;
+  summarizedCount: number; // Messages folded in so far, across rolling updates
+  createdAt: number;
+}
+
+export interface Attachment {
+  id: string;
+  kind: 'image' | 'text';
+  name: string;
+  mimeType: string;
+  size: number; // Bytes of the original file
+  data: string; // Base64 for images, decoded content for text files
 }
 
+export interface MetricTrend {
+  current: number;
+  min: number;
+  avg: number;
+  max: number;
+}
+
+export interface TelemetryAttachment {
+  source: TelemetrySource;
+  status: TelemetryStatus;
+  device: DeviceIdentity;
+  stats: HardwareStats;
+  trends: Partial<Record<MetricId, MetricTrend>>;
+  trendWindowMs: number;
+  capturedAt: number;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  mode: ModeId;
+  messages: Message[];
+  playbook?: PlaybookProgress;
+  contextSummary?: ContextSummary;
+  thinkingBudget?: number; // Overrides the mode's budget in modes that think
+}
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & { messageCount: number };
+
 export interface HardwareStats {
   cpuLoad: number;
   cpuTemp: number;
@@ -23,10 +118,64 @@ export interface HardwareStats {
   diskTotal: number;
 }
 
+// Monitor metrics; RAM and disk are tracked as usage percentages
+export type MetricId = 'cpuLoad' | 'cpuTemp' | 'gpuLoad' | 'gpuTemp' | 'ramUsage' | 'diskUsage';
+
+export type MetricThresholds = Record<MetricId, number>;
+
+export type AlertTarget = MetricId | keyof HardwareStats;
+
+export interface AlertRule {
+  id: string;
+  target: AlertTarget;
+  operator: '>' | '<';
+  threshold: number;
+  durationSec: number; // Condition must hold this long before firing
+  hysteresis: number; // Distance back past the threshold required to resolve
+  cooldownSec: number; // Minimum gap between two notifications of the same rule
+  enabled: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  kind: 'triggered' | 'resolved';
+  target: AlertTarget;
+  operator: AlertRule['operator'];
+  threshold: number;
+  value: number;
+  timestamp: number;
+}
+
+export interface DeviceIdentity {
+  cpuName: string;
+  cpuClock?: string; // e.g. "5.2 GHz"
+  gpuName: string;
+  hostname?: string;
+  os?: string;
+}
+
+export interface TelemetrySnapshot {
+  stats: HardwareStats;
+  device: DeviceIdentity;
+  timestamp: number;
+}
+
+export type TelemetryStatus = 'connecting' | 'online' | 'stale' | 'disconnected';
+
+export type TelemetrySource = 'simulated' | 'agent';
+
+export interface TelemetryConfig {
+  source: TelemetrySource;
+  agentUrl: string; // ws:// for push, http:// for polling
+}
+
 export enum AppView {
   HOME = 'HOME',
   MONITOR = 'MONITOR',
   CHAT = 'CHAT',
+  SETTINGS = 'SETTINGS',
+  USAGE = 'USAGE',
 }
 
 export enum ChatMode {
@@ -34,4 +183,77 @@ export enum ChatMode {
   PRO = 'PRO',
   SEARCH = 'SEARCH',
   THINKING = 'THINKING',
-}
\ No newline at end of file
+  AUTO = 'AUTO', // Not a mode of its own: picks one of the others per message
+}
+
+// Built-in modes use ChatMode ids; user-defined modes add their own
+export type ModeId = ChatMode | (string & {});
+
+export type ModeTool = 'googleSearch';
+
+export interface ModeDefinition {
+  id: ModeId;
+  label: string;
+  icon: string;
+  model: string;
+  tools: ModeTool[];
+  thinkingBudget?: number;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+export type TtsVoice = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
+
+export type AnswerLanguage = 'zh-CN' | 'zh-TW' | 'en' | 'ja' | 'auto';
+
+export type TypingSpeed = 'off' | 'slow' | 'normal' | 'fast';
+
+export interface AppSettings {
+  apiKey: string; // Empty means the build-time key
+  ttsVoice: TtsVoice;
+  playbackRate: number;
+  answerLanguage: AnswerLanguage;
+  defaultMode: ModeId;
+  typingSpeed: TypingSpeed;
+  contextBudget: number; // Estimated tokens of history before older turns are summarized
+  autoRead: boolean;
+  voiceAutoSend: boolean; // Send transcripts right away instead of filling the input
+  autoTriage: boolean; // Auto mode asks the FAST model when its rules are unsure
+}
+
+export interface PlaybookOption {
+  label: string;
+  next: string | null; // Step id, or null when this answer ends the playbook
+  outcome?: string; // Conclusion shown when the playbook ends here
+}
+
+export interface PlaybookStep {
+  id: string;
+  title: string;
+  instruction: string;
+  expected?: string; // What a healthy result looks like
+  command?: string;
+  question: string;
+  options: PlaybookOption[];
+}
+
+export interface Playbook {
+  id: string;
+  title: string;
+  icon: string;
+  summary: string;
+  startStepId: string;
+  steps: PlaybookStep[];
+}
+
+export interface PlaybookAnswer {
+  stepId: string;
+  answer: string;
+  at: number;
+}
+
+export interface PlaybookProgress {
+  playbookId: string;
+  currentStepId: string | null; // null once finished
+  answers: PlaybookAnswer[];
+  outcome?: string;
+}